@@ -0,0 +1,198 @@
+/// Replays recorded collision snapshots in Node.
+///
+/// A snapshot is the JSON logged by the `verifyCollisions` UI option when the
+/// compute shader and the CPU disagree:
+///
+///   { "planets": PlanetSweptSphere[], "collisions"?: CollisionPair[] }
+///
+/// For each snapshot, the sweep and prune detection is checked against the
+/// brute force one and, if present, the recorded (GPU) `collisions` are checked
+/// against it.
+///
+/// Before them, a bounce is replayed: two planets collide head on, bounce off
+/// each other and must not be found colliding again while they separate. Then
+/// the sweep and prune detection is checked against the brute force one in a
+/// seeded random scene, so it is also checked without any snapshot.
+///
+/// Exits with 1 if anything mismatches.
+///
+/// Usage: pnpm check-collisions [snapshot.json ...]
+//
+import { readFileSync } from "node:fs";
+import { vec3 } from "gl-matrix";
+import { resolveBounces } from "../src/collisionResponse";
+import { CHECK_COLLISION_INTERVAL, DEFAULT_SEED } from "../src/constants";
+import { massFromRadius } from "../src/gravity";
+import { createRandomGenerator } from "../src/random";
+import {
+  detectCollisionsBruteForce,
+  detectCollisionsSweepAndPrune,
+  diffCollisions,
+} from "../src/sweepAndPrune";
+import { CollisionPair, PlanetInfo, PlanetSweptSphere } from "../src/types";
+
+type Snapshot = {
+  planets: PlanetSweptSphere[];
+  collisions?: CollisionPair[];
+};
+
+const SCENE_PLANETS = 3000;
+const SCENE_SIZE = 400; // side of the cube the planets are in
+const SCENE_FAST_CHANCE = 0.02; // e.g. debris thrown out by a fragmentation
+
+const formatCollisions = (collisions: CollisionPair[]) =>
+  JSON.stringify(
+    collisions.map((collision) => ({
+      ...collision,
+      contactPoint: [...collision.contactPoint],
+      normal: [...collision.normal],
+    })),
+  );
+
+const report = ({
+  label,
+  expected,
+  actual,
+}: {
+  label: string;
+  expected: CollisionPair[];
+  actual: CollisionPair[];
+}) => {
+  const { missing, unexpected } = diffCollisions({ expected, actual });
+  const matches = missing.length === 0 && unexpected.length === 0;
+
+  console.info(
+    `  ${matches ? "OK" : "MISMATCH"} ${label}: ${actual.length} pairs (${missing.length} missing, ${unexpected.length} unexpected)`,
+  );
+  if (!matches) {
+    console.info("    missing:", formatCollisions(missing));
+    console.info("    unexpected:", formatCollisions(unexpected));
+  }
+
+  return matches;
+};
+
+/// Swept spheres of the planets, as `updateSweptPaths` in `planet.ts` keeps them
+const toSweptSpheres = (planets: PlanetInfo[]): PlanetSweptSphere[] =>
+  planets.map(({ position, velocity, radius, sweptPath }, planetIdx) => ({
+    x: position[0],
+    y: position[1],
+    z: position[2],
+    radius,
+    planetIdx,
+    previousX: sweptPath!.from[0],
+    previousY: sweptPath!.from[1],
+    previousZ: sweptPath!.from[2],
+    velocityX: velocity[0],
+    velocityY: velocity[1],
+    velocityZ: velocity[2],
+  }));
+
+/// Two planets moving towards each other along X, checked every unit of time:
+/// they only collide once, at the check where they meet.
+const replayBounce = () => {
+  const createPlanet = (x: number, velocityX: number): PlanetInfo => ({
+    radius: 1,
+    mass: massFromRadius(1),
+    position: vec3.fromValues(x, 0, 0),
+    velocity: vec3.fromValues(velocityX, 0, 0),
+    acceleration: vec3.create(),
+    orbit: {
+      semiMajorAxis: 0,
+      eccentricity: 0,
+      inclination: 0,
+      longitudeOfAscendingNode: 0,
+      argumentOfPeriapsis: 0,
+      meanAnomaly: 0,
+    },
+  });
+  const planets = [createPlanet(-3.5, 2), createPlanet(3.5, -2)];
+
+  let bounces = 0;
+  for (let check = 0; check < 10; check++) {
+    planets.forEach((planet) => {
+      vec3.add(planet.position, planet.position, planet.velocity);
+      planet.sweptPath = {
+        from: planet.sweptPath?.to ?? vec3.clone(planet.position),
+        to: vec3.clone(planet.position),
+      };
+    });
+
+    const collisions = detectCollisionsBruteForce(toSweptSpheres(planets));
+    bounces += collisions.length;
+    resolveBounces({ planets, collisions, restitution: 1 });
+  }
+
+  const distance = vec3.distance(planets[0].position, planets[1].position);
+  const matches = bounces === 1 && distance > 2;
+  console.info(
+    `  ${matches ? "OK" : "MISMATCH"} bounce replay: ${bounces} collisions (1 expected), ${distance.toFixed(2)} apart`,
+  );
+
+  return matches;
+};
+
+/// Planets in a cube, moving a little since the previous check (a few much
+/// faster), so some of them touch on the way.
+const createScene = (seed: number): PlanetSweptSphere[] => {
+  const random = createRandomGenerator(seed);
+
+  return Array.from({ length: SCENE_PLANETS }, (_, planetIdx) => {
+    const [x, y, z] = [random(), random(), random()].map(
+      (value) => value * SCENE_SIZE,
+    );
+    const maxDisplacement = random() < SCENE_FAST_CHANCE ? 100 : 5;
+    const [dx, dy, dz] = [random(), random(), random()].map(
+      (value) => (value * 2 - 1) * maxDisplacement,
+    );
+
+    return {
+      x,
+      y,
+      z,
+      radius: random() * 2 + 1,
+      planetIdx,
+      previousX: x - dx,
+      previousY: y - dy,
+      previousZ: z - dz,
+      velocityX: dx / CHECK_COLLISION_INTERVAL,
+      velocityY: dy / CHECK_COLLISION_INTERVAL,
+      velocityZ: dz / CHECK_COLLISION_INTERVAL,
+    };
+  });
+};
+
+/// The sweep and prune detection must find the same pairs as the brute force one
+const checkSweepAndPrune = (planets: PlanetSweptSphere[]) =>
+  report({
+    label: "sweep and prune vs brute force",
+    expected: detectCollisionsBruteForce(planets),
+    actual: detectCollisionsSweepAndPrune(planets),
+  });
+
+console.info("replays");
+let allMatch = replayBounce();
+
+console.info(`seeded scene (${DEFAULT_SEED}): ${SCENE_PLANETS} planets`);
+allMatch = checkSweepAndPrune(createScene(DEFAULT_SEED)) && allMatch;
+
+const files = process.argv.slice(2);
+for (const file of files) {
+  const { planets, collisions } = JSON.parse(
+    readFileSync(file, "utf-8"),
+  ) as Snapshot;
+  console.info(`${file}: ${planets.length} planets`);
+
+  allMatch = checkSweepAndPrune(planets) && allMatch;
+
+  if (collisions) {
+    allMatch =
+      report({
+        label: "recorded vs sweep and prune",
+        expected: detectCollisionsSweepAndPrune(planets),
+        actual: collisions,
+      }) && allMatch;
+  }
+}
+
+process.exit(allMatch ? 0 : 1);
@@ -0,0 +1,118 @@
+/// Checks in Node that the planets generation is deterministic.
+///
+/// The planets are generated twice from the same seed and settings, and must be
+/// the same byte for byte: radius, mass, position, velocity, orbit, texture,
+/// seed, ring and atmosphere. Another seed must give other planets, and a planet
+/// added later (after other random numbers were drawn) must be the same one the
+/// seed gives at its index.
+///
+/// Exits with 1 if anything mismatches.
+///
+/// Usage: pnpm check-generation
+//
+import { DEFAULT_SEED } from "../src/constants";
+import {
+  GeneratedPlanet,
+  generatePlanet,
+  generatePlanets,
+} from "../src/generatePlanets";
+import { Random } from "../src/random";
+
+const NUMBER_OF_PLANETS = 500;
+const SETTINGS = {
+  ellipseA: 10,
+  eccentricity: 0.3,
+  centralMass: 1000,
+  ringChance: 0.5,
+  numberOfTextures: 5,
+};
+
+/// Every value of the planets, as 64-bit floats (absent ones are NaN)
+const toBytes = (planets: GeneratedPlanet[]) =>
+  new Uint8Array(
+    new Float64Array(
+      planets.flatMap(
+        ({
+          radius,
+          mass,
+          position,
+          velocity,
+          orbit,
+          textureIndex,
+          seed,
+          ring,
+          atmosphere,
+        }) => [
+          radius,
+          mass,
+          ...position,
+          ...velocity,
+          orbit.semiMajorAxis,
+          orbit.eccentricity,
+          orbit.inclination,
+          orbit.longitudeOfAscendingNode,
+          orbit.argumentOfPeriapsis,
+          orbit.meanAnomaly,
+          textureIndex,
+          seed ?? NaN,
+          ring?.innerRadius ?? NaN,
+          ring?.outerRadius ?? NaN,
+          ring?.tilt ?? NaN,
+          ring?.opacity ?? NaN,
+          ring?.textureIndex ?? NaN,
+          ring?.bandsSeed ?? NaN,
+          ...(atmosphere?.color ?? [NaN, NaN, NaN]),
+          atmosphere?.thickness ?? NaN,
+        ],
+      ),
+    ).buffer,
+  );
+
+const isSame = (a: Uint8Array, b: Uint8Array) =>
+  a.length === b.length && a.every((byte, i) => byte === b[i]);
+
+const generate = (seed: number) =>
+  generatePlanets({
+    seed,
+    numberOfPlanets: NUMBER_OF_PLANETS,
+    settings: SETTINGS,
+  });
+
+/// The last planet, added after the others and other random numbers (e.g. the
+/// debris of a fragmentation)
+const addLast = (seed: number) => {
+  generatePlanets({
+    seed,
+    numberOfPlanets: NUMBER_OF_PLANETS - 1,
+    settings: SETTINGS,
+  });
+  for (let i = 0; i < 100; i++) {
+    Random().next();
+  }
+
+  return generatePlanet({ index: NUMBER_OF_PLANETS - 1, settings: SETTINGS });
+};
+
+const report = (label: string, matches: boolean) => {
+  console.info(`  ${matches ? "OK" : "MISMATCH"} ${label}`);
+  return matches;
+};
+
+const planets = generate(DEFAULT_SEED);
+const first = toBytes(planets);
+console.info(`${NUMBER_OF_PLANETS} planets (${first.length} bytes)`);
+
+const sameSeed = report(
+  "same seed gives the same planets",
+  isSame(first, toBytes(generate(DEFAULT_SEED))),
+);
+const otherSeed = report(
+  "another seed gives other planets",
+  !isSame(first, toBytes(generate(DEFAULT_SEED + 1))),
+);
+const addedLater = report(
+  "a planet added later is the one at its index",
+  isSame(toBytes(planets.slice(-1)), toBytes([addLast(DEFAULT_SEED)])),
+);
+
+process.exit(sameSeed && otherSeed && addedLater ? 0 : 1);
@@ -0,0 +1,359 @@
+import {
+  GRAVITATIONAL_CONSTANT,
+  GRAVITY_SOFTENING,
+  MAX_OCTREE_DEPTH,
+} from "./constants";
+
+/// Barnes–Hut gravity
+///
+/// Approximates the attraction between the planets in O(n log n) instead of
+/// O(n²). The planets are put in an octree, where each node keeps the total
+/// mass and the center of mass of the planets inside its cube. For each planet,
+/// the tree is walked from the root and a node that is far enough away is taken
+/// as a single body, i.e. when
+///
+///   size(node) / distance(planet, center of mass of node) < θ
+///
+/// otherwise its children are visited. With θ = 0 every planet is visited (same
+/// result as the exact summation, only slower); the larger θ, the faster and the
+/// less accurate.
+///
+/// Pure TypeScript over typed arrays (no WebGPU, DOM nor gl-matrix), so it can
+/// run in a worker: the center points have the same layout as the ones used by
+/// the collisions ((x, y, z, r) * planets, see `collision.wgsl`) and the
+/// accelerations can be transferred back as they are.
+//
+
+type Octree = {
+  numberOfNodes: number;
+  cubeCenters: Float64Array; // (x, y, z) * nodes
+  halfSizes: Float64Array; // half the side of the cube of each node
+  masses: Float64Array; // of the planets inside each node
+  centersOfMass: Float64Array; // (x, y, z) * nodes, weighted sums until the tree is built
+  firstChild: Int32Array; // the 8 children of a node are consecutive, -1: leaf
+  firstPlanet: Int32Array; // planets of a leaf (linked through `nextPlanet`), -1: empty
+  nextPlanet: Int32Array; // per planet, -1: last one of its leaf
+};
+
+/// Copies `array` into a bigger one (of the same type).
+const grow = <T extends Float64Array | Int32Array>(
+  array: T,
+  length: number,
+) => {
+  const grownArray = new (array.constructor as new (length: number) => T)(
+    length,
+  );
+  grownArray.set(array);
+  return grownArray;
+};
+
+/// Adds a node for the cube centered at (x, y, z), growing the tree if needed.
+const addNode = ({
+  tree,
+  x,
+  y,
+  z,
+  halfSize,
+}: {
+  tree: Octree;
+  x: number;
+  y: number;
+  z: number;
+  halfSize: number;
+}) => {
+  if (tree.numberOfNodes === tree.halfSizes.length) {
+    const capacity = 2 * tree.numberOfNodes;
+    tree.cubeCenters = grow(tree.cubeCenters, 3 * capacity);
+    tree.halfSizes = grow(tree.halfSizes, capacity);
+    tree.masses = grow(tree.masses, capacity);
+    tree.centersOfMass = grow(tree.centersOfMass, 3 * capacity);
+    tree.firstChild = grow(tree.firstChild, capacity).fill(
+      -1,
+      tree.numberOfNodes,
+    );
+    tree.firstPlanet = grow(tree.firstPlanet, capacity).fill(
+      -1,
+      tree.numberOfNodes,
+    );
+  }
+
+  const node = tree.numberOfNodes++;
+  tree.cubeCenters.set([x, y, z], 3 * node);
+  tree.halfSizes[node] = halfSize;
+
+  return node;
+};
+
+/// Octant (child) of the node the point is in: bit 0 for x, 1 for y and 2 for z.
+const getOctant = ({
+  tree,
+  node,
+  x,
+  y,
+  z,
+}: {
+  tree: Octree;
+  node: number;
+  x: number;
+  y: number;
+  z: number;
+}) =>
+  (x >= tree.cubeCenters[3 * node] ? 1 : 0) |
+  (y >= tree.cubeCenters[3 * node + 1] ? 2 : 0) |
+  (z >= tree.cubeCenters[3 * node + 2] ? 4 : 0);
+
+/// Splits a leaf into its 8 children, returning the first one.
+const subdivide = ({ tree, node }: { tree: Octree; node: number }) => {
+  const halfSize = tree.halfSizes[node] / 2;
+  const [x, y, z] = tree.cubeCenters.subarray(3 * node, 3 * node + 3);
+
+  const firstChild = tree.numberOfNodes;
+  for (let octant = 0; octant < 8; octant++) {
+    addNode({
+      tree,
+      x: x + (octant & 1 ? halfSize : -halfSize),
+      y: y + (octant & 2 ? halfSize : -halfSize),
+      z: z + (octant & 4 ? halfSize : -halfSize),
+      halfSize,
+    });
+  }
+
+  tree.firstChild[node] = firstChild;
+  return firstChild;
+};
+
+const addMass = ({
+  tree,
+  node,
+  centers,
+  masses,
+  planet,
+}: {
+  tree: Octree;
+  node: number;
+  centers: Float32Array;
+  masses: Float32Array;
+  planet: number;
+}) => {
+  const mass = masses[planet];
+  tree.masses[node] += mass;
+  tree.centersOfMass[3 * node] += mass * centers[4 * planet];
+  tree.centersOfMass[3 * node + 1] += mass * centers[4 * planet + 1];
+  tree.centersOfMass[3 * node + 2] += mass * centers[4 * planet + 2];
+};
+
+/// Goes down the tree until an empty leaf is found for the planet, splitting
+/// the leaves already taken on the way. Planets that are (almost) at the same
+/// place share a leaf once MAX_OCTREE_DEPTH is reached.
+const insertPlanet = ({
+  tree,
+  centers,
+  masses,
+  planet,
+}: {
+  tree: Octree;
+  centers: Float32Array;
+  masses: Float32Array;
+  planet: number;
+}) => {
+  const getPlanetOctant = (node: number, idx: number) =>
+    getOctant({
+      tree,
+      node,
+      x: centers[4 * idx],
+      y: centers[4 * idx + 1],
+      z: centers[4 * idx + 2],
+    });
+
+  let node = 0;
+  for (let depth = 0; ; depth++) {
+    addMass({ tree, node, centers, masses, planet });
+
+    if (tree.firstChild[node] >= 0) {
+      node = tree.firstChild[node] + getPlanetOctant(node, planet);
+      continue;
+    }
+
+    const otherPlanet = tree.firstPlanet[node];
+    if (otherPlanet < 0 || depth >= MAX_OCTREE_DEPTH) {
+      tree.nextPlanet[planet] = otherPlanet;
+      tree.firstPlanet[node] = planet;
+      return;
+    }
+
+    // Taken leaf (by a single planet, as it is not at the maximum depth):
+    // the planet in it is moved down to the right child
+    const firstChild = subdivide({ tree, node });
+    const otherNode = firstChild + getPlanetOctant(node, otherPlanet);
+    tree.firstPlanet[node] = -1;
+    tree.firstPlanet[otherNode] = otherPlanet;
+    addMass({ tree, node: otherNode, centers, masses, planet: otherPlanet });
+
+    node = firstChild + getPlanetOctant(node, planet);
+  }
+};
+
+/// Builds the octree of the planets, whose root is the cube around all of them.
+///
+/// @param{centers}: center point and radius of each planet, (x, y, z, r) * planets;
+/// @param{masses}: mass of each planet.
+//
+const buildOctree = ({
+  centers,
+  masses,
+}: {
+  centers: Float32Array;
+  masses: Float32Array;
+}): Octree => {
+  const numberOfPlanets = masses.length;
+  const capacity = Math.max(2 * numberOfPlanets, 1);
+  const tree: Octree = {
+    numberOfNodes: 0,
+    cubeCenters: new Float64Array(3 * capacity),
+    halfSizes: new Float64Array(capacity),
+    masses: new Float64Array(capacity),
+    centersOfMass: new Float64Array(3 * capacity),
+    firstChild: new Int32Array(capacity).fill(-1),
+    firstPlanet: new Int32Array(capacity).fill(-1),
+    nextPlanet: new Int32Array(numberOfPlanets).fill(-1),
+  };
+
+  // Root: the smallest cube around all the planets
+  const min = [Infinity, Infinity, Infinity];
+  const max = [-Infinity, -Infinity, -Infinity];
+  for (let i = 0; i < numberOfPlanets; i++) {
+    for (let axis = 0; axis < 3; axis++) {
+      min[axis] = Math.min(min[axis], centers[4 * i + axis]);
+      max[axis] = Math.max(max[axis], centers[4 * i + axis]);
+    }
+  }
+  const halfSize =
+    numberOfPlanets > 0
+      ? Math.max(max[0] - min[0], max[1] - min[1], max[2] - min[2]) / 2
+      : 0;
+  addNode({
+    tree,
+    x: numberOfPlanets > 0 ? (min[0] + max[0]) / 2 : 0,
+    y: numberOfPlanets > 0 ? (min[1] + max[1]) / 2 : 0,
+    z: numberOfPlanets > 0 ? (min[2] + max[2]) / 2 : 0,
+    halfSize: halfSize > 0 ? halfSize : 1, // a single planet (or all at the same place)
+  });
+
+  for (let planet = 0; planet < numberOfPlanets; planet++) {
+    insertPlanet({ tree, centers, masses, planet });
+  }
+
+  // From weighted sums to centers of mass
+  for (let node = 0; node < tree.numberOfNodes; node++) {
+    const mass = tree.masses[node];
+    for (let axis = 0; axis < 3; axis++) {
+      tree.centersOfMass[3 * node + axis] =
+        mass > 0
+          ? tree.centersOfMass[3 * node + axis] / mass
+          : tree.cubeCenters[3 * node + axis];
+    }
+  }
+
+  return tree;
+};
+
+/// Calculates the acceleration of every planet due to all the other ones (not
+/// the central mass, see `computeAccelerations`) with the Barnes–Hut
+/// approximation. Uses the same softening as the exact summation.
+///
+/// A node is never taken as a single body when the planet is inside it, since
+/// the planet would be pulling itself.
+///
+/// @param{centers}: center point and radius of each planet, (x, y, z, r) * planets;
+/// @param{masses}: mass of each planet;
+/// @param{theta}: opening angle θ (0 to visit every planet);
+/// @returns the accelerations, (x, y, z) * planets.
+//
+export const computeBarnesHutAccelerations = ({
+  centers,
+  masses,
+  theta,
+}: {
+  centers: Float32Array;
+  masses: Float32Array;
+  theta: number;
+}) => {
+  const numberOfPlanets = masses.length;
+  const accelerations = new Float64Array(3 * numberOfPlanets);
+  const tree = buildOctree({ centers, masses });
+
+  const softeningSquared = GRAVITY_SOFTENING * GRAVITY_SOFTENING;
+  const thetaSquared = theta * theta;
+
+  // Each level down the tree takes one node and adds (at most) 8
+  const stack = new Int32Array(8 * (MAX_OCTREE_DEPTH + 1));
+
+  for (let i = 0; i < numberOfPlanets; i++) {
+    const x = centers[4 * i];
+    const y = centers[4 * i + 1];
+    const z = centers[4 * i + 2];
+    let ax = 0;
+    let ay = 0;
+    let az = 0;
+
+    const attract = (mass: number, dx: number, dy: number, dz: number) => {
+      const distanceSquared = dx * dx + dy * dy + dz * dz + softeningSquared;
+      const factor =
+        (GRAVITATIONAL_CONSTANT * mass) /
+        (distanceSquared * Math.sqrt(distanceSquared));
+      ax += dx * factor;
+      ay += dy * factor;
+      az += dz * factor;
+    };
+
+    let top = 0;
+    stack[top++] = 0;
+    while (top > 0) {
+      const node = stack[--top];
+      if (tree.masses[node] === 0) {
+        continue;
+      }
+
+      const firstChild = tree.firstChild[node];
+      if (firstChild < 0) {
+        for (let j = tree.firstPlanet[node]; j >= 0; j = tree.nextPlanet[j]) {
+          if (j !== i) {
+            attract(
+              masses[j],
+              centers[4 * j] - x,
+              centers[4 * j + 1] - y,
+              centers[4 * j + 2] - z,
+            );
+          }
+        }
+        continue;
+      }
+
+      const dx = tree.centersOfMass[3 * node] - x;
+      const dy = tree.centersOfMass[3 * node + 1] - y;
+      const dz = tree.centersOfMass[3 * node + 2] - z;
+      const size = 2 * tree.halfSizes[node];
+      const halfSize = tree.halfSizes[node];
+      const isInside =
+        Math.abs(x - tree.cubeCenters[3 * node]) <= halfSize &&
+        Math.abs(y - tree.cubeCenters[3 * node + 1]) <= halfSize &&
+        Math.abs(z - tree.cubeCenters[3 * node + 2]) <= halfSize;
+
+      if (
+        !isInside &&
+        size * size < thetaSquared * (dx * dx + dy * dy + dz * dz)
+      ) {
+        attract(tree.masses[node], dx, dy, dz);
+        continue;
+      }
+
+      for (let octant = 0; octant < 8; octant++) {
+        stack[top++] = firstChild + octant;
+      }
+    }
+
+    accelerations.set([ax, ay, az], 3 * i);
+  }
+
+  return accelerations;
+};
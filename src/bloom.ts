@@ -0,0 +1,266 @@
+import {
+  BLOOM_LEVELS,
+  BLOOM_UNIFORM_BYTE_LENGTH,
+  HDR_FORMAT,
+} from "./constants";
+import { UI_SETTINGS } from "./ui";
+import bloomWGSL from "./shaders/bloom.wgsl?raw";
+
+/// HDR post-process: the scene is rendered in `sceneTexture` (HDR, so it can be
+/// brighter than the screen can show) and this draws it on the canvas, making
+/// what is too bright glow.
+///
+/// - Bright-pass: only what is brighter than the threshold, into the first (half
+///   size) level of the bloom;
+/// - Blur chain: each level is half the size of the previous one (downsampled
+///   from it) and blurred (Gaussian, horizontally and then vertically), so the
+///   smaller the level, the wider the glow;
+/// - Composite: scene + intensity * the average of the levels, on the canvas.
+///
+/// If the bloom is disabled, it only composites the scene.
+//
+export const Bloom = ({
+  format,
+  device,
+  sceneTexture,
+}: {
+  format: GPUTextureFormat; // of the canvas
+  device: GPUDevice;
+  sceneTexture: GPUTexture;
+}) => {
+  const shaderModule = device.createShaderModule({ code: bloomWGSL });
+
+  const sampler = device.createSampler({
+    label: "bloom sampler",
+    magFilter: "linear",
+    minFilter: "linear",
+    addressModeU: "clamp-to-edge",
+    addressModeV: "clamp-to-edge",
+  });
+
+  const paramsUniformBuffer = device.createBuffer({
+    label: "bloom params uniform buffer",
+    size: BLOOM_UNIFORM_BYTE_LENGTH,
+    usage: GPUBufferUsage.UNIFORM | GPUBufferUsage.COPY_DST,
+  });
+
+  // Each level is blurred horizontally into `blurTextures` and then vertically back into `bloomTextures`
+  const createLevelTextures = (label: string) =>
+    Array.from({ length: BLOOM_LEVELS }, (_, level) =>
+      device.createTexture({
+        label: `${label} ${level}`,
+        size: [
+          Math.max(1, sceneTexture.width >> (level + 1)),
+          Math.max(1, sceneTexture.height >> (level + 1)),
+        ],
+        format: HDR_FORMAT,
+        usage:
+          GPUTextureUsage.RENDER_ATTACHMENT | GPUTextureUsage.TEXTURE_BINDING,
+      }),
+    );
+  const bloomTextures = createLevelTextures("bloom texture");
+  const blurTextures = createLevelTextures("bloom blur texture");
+
+  const inputEntries: GPUBindGroupLayoutEntry[] = [
+    {
+      binding: 0, // Input texture
+      visibility: GPUShaderStage.FRAGMENT,
+      texture: { sampleType: "float" },
+    },
+    {
+      binding: 1, // Sampler
+      visibility: GPUShaderStage.FRAGMENT,
+      sampler: { type: "filtering" },
+    },
+    {
+      binding: 2, // Threshold and intensity
+      visibility: GPUShaderStage.FRAGMENT,
+      buffer: { type: "uniform" },
+    },
+  ];
+  const passBindGroupLayout = device.createBindGroupLayout({
+    label: "bloom pass bind group layout",
+    entries: inputEntries,
+  });
+  const compositeBindGroupLayout = device.createBindGroupLayout({
+    label: "bloom composite bind group layout",
+    entries: [
+      ...inputEntries,
+      ...bloomTextures.map((_, level) => ({
+        binding: 3 + level, // Bloom levels
+        visibility: GPUShaderStage.FRAGMENT,
+        texture: { sampleType: "float" as const },
+      })),
+    ],
+  });
+
+  const createPipeline = ({
+    entryPoint,
+    bindGroupLayout,
+    targetFormat,
+  }: {
+    entryPoint: string;
+    bindGroupLayout: GPUBindGroupLayout;
+    targetFormat: GPUTextureFormat;
+  }) =>
+    device.createRenderPipeline({
+      label: `bloom ${entryPoint} render pipeline`,
+      layout: device.createPipelineLayout({
+        bindGroupLayouts: [bindGroupLayout],
+      }),
+      vertex: {
+        module: shaderModule,
+        entryPoint: "fullscreen_vertex",
+      },
+      fragment: {
+        module: shaderModule,
+        entryPoint,
+        targets: [{ format: targetFormat }],
+      },
+      primitive: { topology: "triangle-list" },
+    });
+
+  const brightPassPipeline = createPipeline({
+    entryPoint: "bright_pass_fragment",
+    bindGroupLayout: passBindGroupLayout,
+    targetFormat: HDR_FORMAT,
+  });
+  const downsamplePipeline = createPipeline({
+    entryPoint: "downsample_fragment",
+    bindGroupLayout: passBindGroupLayout,
+    targetFormat: HDR_FORMAT,
+  });
+  const blurHorizontalPipeline = createPipeline({
+    entryPoint: "blur_horizontal_fragment",
+    bindGroupLayout: passBindGroupLayout,
+    targetFormat: HDR_FORMAT,
+  });
+  const blurVerticalPipeline = createPipeline({
+    entryPoint: "blur_vertical_fragment",
+    bindGroupLayout: passBindGroupLayout,
+    targetFormat: HDR_FORMAT,
+  });
+  const compositePipeline = createPipeline({
+    entryPoint: "composite_fragment",
+    bindGroupLayout: compositeBindGroupLayout,
+    targetFormat: format,
+  });
+
+  // The textures never change, neither do the bind groups
+  const createPassBindGroup = (input: GPUTexture) =>
+    device.createBindGroup({
+      label: `bloom pass bind group (${input.label})`,
+      layout: passBindGroupLayout,
+      entries: [
+        { binding: 0, resource: input.createView() },
+        { binding: 1, resource: sampler },
+        { binding: 2, resource: { buffer: paramsUniformBuffer } },
+      ],
+    });
+  const brightPassBindGroup = createPassBindGroup(sceneTexture);
+  const bloomBindGroups = bloomTextures.map(createPassBindGroup);
+  const blurBindGroups = blurTextures.map(createPassBindGroup);
+  const compositeBindGroup = device.createBindGroup({
+    label: "bloom composite bind group",
+    layout: compositeBindGroupLayout,
+    entries: [
+      { binding: 0, resource: sceneTexture.createView() },
+      { binding: 1, resource: sampler },
+      { binding: 2, resource: { buffer: paramsUniformBuffer } },
+      ...bloomTextures.map((texture, level) => ({
+        binding: 3 + level,
+        resource: texture.createView(),
+      })),
+    ],
+  });
+
+  function drawFullscreen({
+    commandEncoder,
+    pipeline,
+    bindGroup,
+    view,
+  }: {
+    commandEncoder: GPUCommandEncoder;
+    pipeline: GPURenderPipeline;
+    bindGroup: GPUBindGroup;
+    view: GPUTextureView;
+  }) {
+    const renderPass = commandEncoder.beginRenderPass({
+      label: `${pipeline.label} pass`,
+      colorAttachments: [
+        {
+          view,
+          clearValue: { r: 0, g: 0, b: 0, a: 1 },
+          loadOp: "clear",
+          storeOp: "store",
+        },
+      ],
+    });
+    renderPass.setPipeline(pipeline);
+    renderPass.setBindGroup(0, bindGroup);
+    renderPass.draw(3); // Fullscreen triangle
+    renderPass.end();
+  }
+
+  function renderBloom({
+    commandEncoder,
+    targetView,
+  }: {
+    commandEncoder: GPUCommandEncoder;
+    targetView: GPUTextureView; // of the canvas
+  }) {
+    device.queue.writeBuffer(
+      paramsUniformBuffer,
+      0,
+      new Float32Array([
+        UI_SETTINGS.bloomThreshold,
+        UI_SETTINGS.enableBloom ? UI_SETTINGS.bloomIntensity : 0,
+        0,
+        0,
+      ]),
+    );
+
+    if (UI_SETTINGS.enableBloom) {
+      drawFullscreen({
+        commandEncoder,
+        pipeline: brightPassPipeline,
+        bindGroup: brightPassBindGroup,
+        view: bloomTextures[0].createView(),
+      });
+
+      for (let level = 0; level < BLOOM_LEVELS; level++) {
+        if (level > 0) {
+          drawFullscreen({
+            commandEncoder,
+            pipeline: downsamplePipeline,
+            bindGroup: bloomBindGroups[level - 1],
+            view: bloomTextures[level].createView(),
+          });
+        }
+        drawFullscreen({
+          commandEncoder,
+          pipeline: blurHorizontalPipeline,
+          bindGroup: bloomBindGroups[level],
+          view: blurTextures[level].createView(),
+        });
+        drawFullscreen({
+          commandEncoder,
+          pipeline: blurVerticalPipeline,
+          bindGroup: blurBindGroups[level],
+          view: bloomTextures[level].createView(),
+        });
+      }
+    }
+
+    drawFullscreen({
+      commandEncoder,
+      pipeline: compositePipeline,
+      bindGroup: compositeBindGroup,
+      view: targetView,
+    });
+  }
+
+  return {
+    renderBloom,
+  };
+};
@@ -1,4 +1,4 @@
-import { vec3 } from "gl-matrix";
+import { mat4, vec3 } from "gl-matrix";
 import { CAMERA_UP, MAT4X4_BYTE_LENGTH } from "./constants";
 import { Observer } from "./observer";
 import {
@@ -6,7 +6,12 @@ import {
   PointerEventsTransformations,
   SetupPointerEvents,
 } from "./pointerEvents";
-import { getViewProjectionMatrix } from "./utils";
+import {
+  getFrustumPlanes,
+  getViewDirectionProjectionInverseMatrix,
+  getViewMatrix,
+  getViewProjectionMatrix,
+} from "./utils";
 
 export const SetupCamera = ({
   device,
@@ -16,6 +21,9 @@ export const SetupCamera = ({
   canvas: HTMLCanvasElement;
 }) => {
   let viewProjectionMatrixUniformBuffer: GPUBuffer;
+  let viewDirectionProjectionInverseUniformBuffer: GPUBuffer; // for the skybox
+  let frustumPlanes: Float32Array; // world space, for the frustum culling
+  let cameraPosition = vec3.create(); // world space, e.g. for the specular lighting
 
   const perspectiveAspectRatio = canvas.width / canvas.height;
 
@@ -48,19 +56,48 @@ export const SetupCamera = ({
 
     const cameraEye: vec3 = [-offsetX, offsetY, scale];
     const cameraLookupCenter: vec3 = [-offsetX, offsetY, 0];
-    const viewProjectionMatrix = getViewProjectionMatrix({
+    const cameraTransformations = {
       cameraRotationX: -rotationAngleY,
       cameraRotationZ: rotationAngleX,
       cameraEye,
       cameraLookupCenter,
       cameraUp: CAMERA_UP,
+    };
+    const viewProjectionMatrix = getViewProjectionMatrix({
+      ...cameraTransformations,
       perspectiveAspectRatio,
     });
+    frustumPlanes = getFrustumPlanes(viewProjectionMatrix);
+
+    // The view matrix also rotates the world, so the camera is not at `cameraEye`
+    const inverseViewMatrix = mat4.invert(
+      mat4.create(),
+      getViewMatrix(cameraTransformations),
+    );
+    if (inverseViewMatrix) {
+      cameraPosition = mat4.getTranslation(vec3.create(), inverseViewMatrix);
+    }
 
     new Float32Array(viewProjectionMatrixUniformBuffer.getMappedRange()).set(
       viewProjectionMatrix,
     );
     viewProjectionMatrixUniformBuffer.unmap();
+
+    viewDirectionProjectionInverseUniformBuffer = device.createBuffer({
+      label: "view direction projection inverse matrix uniform buffer",
+      size: MAT4X4_BYTE_LENGTH,
+      usage: GPUBufferUsage.UNIFORM,
+      mappedAtCreation: true,
+    });
+    new Float32Array(
+      viewDirectionProjectionInverseUniformBuffer.getMappedRange(),
+    ).set(
+      getViewDirectionProjectionInverseMatrix({
+        ...cameraTransformations,
+        perspectiveAspectRatio,
+      }),
+    );
+    viewDirectionProjectionInverseUniformBuffer.unmap();
   }
   calculateAndSetViewProjectionMatrix();
 
@@ -68,5 +105,22 @@ export const SetupCamera = ({
     return viewProjectionMatrixUniformBuffer;
   }
 
-  return { getViewProjectionMatrixUniformBuffer };
+  function getViewDirectionProjectionInverseUniformBuffer(): GPUBuffer {
+    return viewDirectionProjectionInverseUniformBuffer;
+  }
+
+  function getCameraPosition(): vec3 {
+    return cameraPosition;
+  }
+
+  function getViewFrustumPlanes(): Float32Array {
+    return frustumPlanes;
+  }
+
+  return {
+    getCameraPosition,
+    getViewDirectionProjectionInverseUniformBuffer,
+    getViewFrustumPlanes,
+    getViewProjectionMatrixUniformBuffer,
+  };
 };
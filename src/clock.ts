@@ -0,0 +1,106 @@
+import {
+  FIXED_TIME_STEP,
+  MAX_FRAME_TIME,
+  MAX_STEPS_PER_FRAME,
+} from "./constants";
+import { Observer } from "./observer";
+import { UI_SETTINGS } from "./ui";
+
+/// Simulation clock
+///
+/// Decouples the simulation from the display refresh rate: the real time that
+/// has elapsed between frames (scaled by `timeScale`) is accumulated and consumed
+/// in fixed steps of `FIXED_TIME_STEP` seconds of simulated time. Therefore, the
+/// physics is advanced in the exact same way on a 60 Hz or on a 144 Hz display.
+///
+/// A negative `timeScale` runs the simulation backwards (negative steps).
+//
+export const SimulationClock = () => {
+  let simulatedTime = 0;
+  let accumulator = 0;
+  let lastRealTime: number | null = null;
+  let paused = UI_SETTINGS.paused;
+  let timeScale = UI_SETTINGS.timeScale;
+  let pendingSingleSteps = 0;
+
+  const getSimulatedTime = () => simulatedTime;
+
+  /// Set observers
+  Observer().subscribe("paused", {
+    id: "clock.ts",
+    callback: (value) => {
+      paused = value as boolean;
+    },
+  });
+
+  Observer().subscribe("timeScale", {
+    id: "clock.ts",
+    callback: (value) => {
+      timeScale = value as number;
+    },
+  });
+
+  Observer().subscribe("stepSimulation", {
+    id: "clock.ts",
+    callback: (_stepSimulation) => {
+      pendingSingleSteps++;
+    },
+  });
+
+  /// Returns how many fixed steps the simulation must be advanced in this frame
+  /// and the (signed) simulated time of each one of them.
+  ///
+  /// @param{realTimeMs}: the current time, in milliseconds, as given by `requestAnimationFrame`.
+  function tick(realTimeMs: number): { steps: number; dt: number } {
+    // Avoids the "spiral of death" when the tab was in the background for a while
+    const realDelta =
+      lastRealTime === null
+        ? 0
+        : Math.min((realTimeMs - lastRealTime) / 1000, MAX_FRAME_TIME);
+    lastRealTime = realTimeMs;
+
+    const dt = timeScale < 0 ? -FIXED_TIME_STEP : FIXED_TIME_STEP;
+
+    let steps = 0;
+    if (paused) {
+      steps = pendingSingleSteps;
+    } else {
+      accumulator += realDelta * Math.abs(timeScale);
+      steps = Math.min(
+        Math.floor(accumulator / FIXED_TIME_STEP),
+        MAX_STEPS_PER_FRAME,
+      );
+      accumulator -= steps * FIXED_TIME_STEP;
+      // Whatever could not be simulated in this frame is dropped, otherwise it
+      // would keep piling up when the simulation is slower than real time.
+      accumulator = Math.min(accumulator, FIXED_TIME_STEP);
+    }
+    pendingSingleSteps = 0;
+
+    simulatedTime += steps * dt;
+
+    return { steps, dt };
+  }
+
+  return {
+    tick,
+    getSimulatedTime,
+  };
+};
+
+/// Returns a function that tells whether (at least) `interval` seconds of simulated
+/// time have passed since the last time it returned true. It works when the
+/// simulation runs backwards as well.
+//
+export const IntervalTrigger = (interval: number) => {
+  let lastTriggeredAt = 0;
+
+  return (simulatedTime: number): boolean => {
+    if (Math.abs(simulatedTime - lastTriggeredAt) < interval) {
+      return false;
+    }
+
+    lastTriggeredAt = simulatedTime;
+    return true;
+  };
+};
@@ -1,19 +1,70 @@
-import { vec4 } from "gl-matrix";
-import { WORKGROUP_SIZE } from "./constants";
-import { CollisionPair } from "./types";
+import { vec3, vec4 } from "gl-matrix";
+import {
+  COLLISION_PAIR_BYTE_LENGTH,
+  COLLISION_READBACK_BUFFERS,
+  COLLISION_STORAGE_BUFFERS,
+  CollisionDetectionEnum,
+  MAX_CELLS_PER_PLANET,
+  MIN_SPATIAL_HASH_TABLE_SIZE,
+  SPATIAL_HASH_CELLS_PER_PLANET,
+  SPATIAL_HASH_CELL_PERCENTILE,
+  WORKGROUP_SIZE,
+} from "./constants";
+import { CollisionPair, PlanetSweptSphere } from "./types";
 import { Observer } from "./observer";
+import { UI_SETTINGS } from "./ui";
+import { detectCollisionsSweepAndPrune, diffCollisions } from "./sweepAndPrune";
+import collisionWGSL from "./shaders/collision.wgsl?raw";
 
-export const Collisions = ({
-  device,
-  shaderModule,
-}: {
-  device: GPUDevice;
-  shaderModule: GPUShaderModule;
-}) => {
+export const Collisions = ({ device }: { device: GPUDevice }) => {
   let planetsCenterPointAndRadiusBuffer: GPUBuffer;
   let collisionsBuffer: GPUBuffer;
-  let resultsBuffer: GPUBuffer;
+  let gridParamsBuffer: GPUBuffer;
+  let cellCountsBuffer: GPUBuffer;
+  let cellStartsBuffer: GPUBuffer;
+  let planetCellsBuffer: GPUBuffer;
+  let sortedPlanetsBuffer: GPUBuffer;
+  let planetsMotionBuffer: GPUBuffer;
   let computeShaderBindGroup: GPUBindGroup;
+  // How many pairs fit in `collisionsBuffer` (grows when it overflows)
+  let collisionsCapacity = 0;
+  // What the last check runs against (also used by the CPU detection)
+  let planetsSnapshot: PlanetSweptSphere[] = [];
+  // The results are copied into one of these to be read back asynchronously, so
+  // a new check can start while the previous ones are still being mapped.
+  const stagingBuffers: { buffer: GPUBuffer | null; inFlight: boolean }[] =
+    Array.from({ length: COLLISION_READBACK_BUFFERS }, () => ({
+      buffer: null,
+      inFlight: false,
+    }));
+  // Changes whenever the planets (or their meshes) are recreated, so results of
+  // checks that were in flight by then (e.g. referring to old indices) are
+  // dropped.
+  let planetsGeneration = 0;
+
+  // e.g. devices in compatibility mode only guarantee 4 storage buffers
+  const isComputeAvailable =
+    device.limits.maxStorageBuffersPerShaderStage >= COLLISION_STORAGE_BUFFERS;
+  if (!isComputeAvailable) {
+    console.warn(
+      "Not enough storage buffers for the collision compute shader. Falling back to the CPU.",
+    );
+  }
+
+  /// Set observers
+  // The pairs found don't depend on the meshes (`latBands`, `longBands`), but
+  // the checks in flight when they change are dropped as well, like after any
+  // other change of the planets.
+  (["planets", "latBands", "longBands"] as const).forEach((topic) => {
+    Observer().subscribe(topic, {
+      id: "collision.ts",
+      callback: (_value) => {
+        planetsGeneration++;
+      },
+    });
+  });
+
+  const shaderModule = device.createShaderModule({ code: collisionWGSL });
 
   // Bind Group for the compute shader
   const computeShaderBindGroupLayout = device.createBindGroupLayout({
@@ -33,28 +84,146 @@ export const Collisions = ({
           type: "storage",
         },
       },
+      {
+        binding: 2, // grid parameters (cell size, hash table size)
+        visibility: GPUShaderStage.COMPUTE,
+        buffer: {
+          type: "uniform",
+        },
+      },
+      {
+        binding: 3, // number of planets per cell
+        visibility: GPUShaderStage.COMPUTE,
+        buffer: {
+          type: "storage",
+        },
+      },
+      {
+        binding: 4, // where each cell starts in the sorted planets
+        visibility: GPUShaderStage.COMPUTE,
+        buffer: {
+          type: "storage",
+        },
+      },
+      {
+        binding: 5, // cells (and position inside them) of each planet
+        visibility: GPUShaderStage.COMPUTE,
+        buffer: {
+          type: "storage",
+        },
+      },
+      {
+        binding: 6, // planets indices (and their cell) sorted by cell
+        visibility: GPUShaderStage.COMPUTE,
+        buffer: {
+          type: "storage",
+        },
+      },
+      {
+        binding: 7, // Planets center point in world space at the previous check + velocity
+        visibility: GPUShaderStage.COMPUTE,
+        buffer: {
+          type: "read-only-storage",
+        },
+      },
     ],
   });
 
-  // Compute shader pipeline
-  const computeShaderPipeline = device.createComputePipeline({
-    label: "compute shader render pipeline",
-    layout: device.createPipelineLayout({
-      bindGroupLayouts: [computeShaderBindGroupLayout],
-    }),
-    compute: {
-      module: shaderModule,
-      entryPoint: "compute_collision",
-    },
+  const computeShaderPipelineLayout = device.createPipelineLayout({
+    bindGroupLayouts: [computeShaderBindGroupLayout],
   });
 
+  // Compute shader pipelines (one per pass, see `collision.wgsl`)
+  function createComputeShaderPipeline(entryPoint: string) {
+    return device.createComputePipeline({
+      label: `compute shader ${entryPoint} pipeline`,
+      layout: computeShaderPipelineLayout,
+      compute: {
+        module: shaderModule,
+        entryPoint,
+      },
+    });
+  }
+
+  const countPlanetsPerCellPipeline = createComputeShaderPipeline(
+    "count_planets_per_cell",
+  );
+  const prefixSumCellsPipeline =
+    createComputeShaderPipeline("prefix_sum_cells");
+  const sortPlanetsByCellPipeline = createComputeShaderPipeline(
+    "sort_planets_by_cell",
+  );
+  const computeCollisionPipeline =
+    createComputeShaderPipeline("compute_collision");
+  const computeCollisionBruteForcePipeline = createComputeShaderPipeline(
+    "compute_collision_brute_force",
+  );
+
+  /// The hash table has (at least) `SPATIAL_HASH_CELLS_PER_PLANET` buckets per
+  /// planet, rounded up to a power of two so the hash is a simple mask.
+  function getHashTableSize(numberOfPlanets: number) {
+    const minSize = Math.max(
+      numberOfPlanets * SPATIAL_HASH_CELLS_PER_PLANET,
+      MIN_SPATIAL_HASH_TABLE_SIZE,
+    );
+    return Math.pow(2, Math.ceil(Math.log2(minSize)));
+  }
+
+  /// Uploads the planets to be checked in the next `checkCollisionViaComputeShader`.
+  ///
+  /// @param{numberOfPlanets}: how many planets are checked;
+  /// @param{planetsCenterPointsAndRadius}: current center point (world space) and radius of each planet;
+  /// @param{planetsPreviousCenterPoints}: center point of each planet at the previous check. The planets
+  /// are swept in a straight line from there (use the current one if it didn't exist then);
+  /// @param{planetsVelocities}: current velocity of each planet;
+  /// @param{planetsCentersBuffer}: if given, the current center points (and radius) the compute shader
+  /// checks are copied from it (e.g. computed by `orbit.wgsl`) instead of uploaded from
+  /// `planetsCenterPointsAndRadius`, which are then only used by the CPU.
+  //
   function recreateComputeShaderBuffers({
     numberOfPlanets,
     planetsCenterPointsAndRadius,
+    planetsPreviousCenterPoints,
+    planetsVelocities,
+    planetsCentersBuffer,
   }: {
     numberOfPlanets: number;
     planetsCenterPointsAndRadius: vec4[];
+    planetsPreviousCenterPoints: vec3[];
+    planetsVelocities: vec3[];
+    planetsCentersBuffer?: GPUBuffer;
   }) {
+    planetsSnapshot = planetsCenterPointsAndRadius.map(
+      ([x, y, z, radius], i) => ({
+        x,
+        y,
+        z,
+        radius,
+        planetIdx: i,
+        previousX: planetsPreviousCenterPoints[i][0],
+        previousY: planetsPreviousCenterPoints[i][1],
+        previousZ: planetsPreviousCenterPoints[i][2],
+        velocityX: planetsVelocities[i][0],
+        velocityY: planetsVelocities[i][1],
+        velocityZ: planetsVelocities[i][2],
+      }),
+    );
+
+    if (!isComputeAvailable) {
+      return;
+    }
+
+    [
+      planetsCenterPointAndRadiusBuffer,
+      collisionsBuffer,
+      gridParamsBuffer,
+      cellCountsBuffer,
+      cellStartsBuffer,
+      planetCellsBuffer,
+      sortedPlanetsBuffer,
+      planetsMotionBuffer,
+    ].forEach((buffer) => buffer?.destroy());
+
     planetsCenterPointAndRadiusBuffer = device.createBuffer({
       label: "compute shader planets center points and radius buffer",
       size: numberOfPlanets * Float32Array.BYTES_PER_ELEMENT * 4, // x, y, z, r
@@ -72,6 +241,10 @@ export const Collisions = ({
     // iteration they will not exist, giving space for the other collided planets
     // to be checked.
     //
+    // Therefore, it starts with room for `numberOfPlanets` pairs and, whenever
+    // more collisions than that are found (overflow), it grows for the next check
+    // (see `parseResultsBuffer`).
+    //
     // The total amount of collision that can exist in the system is given by the
     // formula (simple combination):
     //                          C(n,k)=n!/k!(n-k)!
@@ -86,89 +259,387 @@ export const Collisions = ({
     //   calculateFactorial(numberOfPlanets) /
     //   (2 * calculateFactorial(numberOfPlanets - 2));
 
+    collisionsCapacity = Math.min(
+      Math.max(numberOfPlanets, collisionsCapacity),
+      Math.floor(
+        (device.limits.maxStorageBufferBindingSize - 4) /
+          COLLISION_PAIR_BYTE_LENGTH,
+      ),
+    );
+
     collisionsBuffer = device.createBuffer({
       label: "compute shader collision buffer",
-      size: numberOfPlanets * 4 * 2 + 4, // (a: u32, b: u32) * planets + count: 32
+      size: collisionsCapacity * COLLISION_PAIR_BYTE_LENGTH + 4, // CollisionPair * capacity + count: u32
       usage:
         GPUBufferUsage.STORAGE |
         GPUBufferUsage.COPY_SRC |
-        GPUBufferUsage.COPY_DST, // INFO: COPY_DST is used for the command encoder to clear the buffer after it is copied into resultsBuffer
+        GPUBufferUsage.COPY_DST, // INFO: COPY_DST is used for the command encoder to clear the buffer after it is copied into a staging buffer
+    });
+
+    // Grid: two planets only touch if their swept bounds (the box around them
+    // at the previous and at the current check) overlap, i.e. if they share a
+    // cell. Cells fit the swept bounds of most planets, the bigger bounds (e.g.
+    // fast debris) are checked against all the planets (see `collision.wgsl`).
+    const sweptExtents = planetsCenterPointsAndRadius
+      .map(
+        ([x, y, z, radius], i) =>
+          Math.max(
+            Math.abs(x - planetsPreviousCenterPoints[i][0]),
+            Math.abs(y - planetsPreviousCenterPoints[i][1]),
+            Math.abs(z - planetsPreviousCenterPoints[i][2]),
+          ) +
+          2 * Math.abs(radius),
+      )
+      .sort((a, b) => a - b);
+    const cellSize = Math.max(
+      sweptExtents[
+        Math.floor((sweptExtents.length - 1) * SPATIAL_HASH_CELL_PERCENTILE)
+      ] ?? 0,
+      Number.EPSILON,
+    );
+    const hashTableSize = getHashTableSize(numberOfPlanets);
+
+    gridParamsBuffer = device.createBuffer({
+      label: "compute shader grid params buffer",
+      size: 4 * 4, // cellSize: f32, hashTableSize: u32 (padded to 16 bytes)
+      usage: GPUBufferUsage.UNIFORM | GPUBufferUsage.COPY_DST,
+    });
+    const gridParams = new ArrayBuffer(gridParamsBuffer.size);
+    new Float32Array(gridParams, 0, 1)[0] = cellSize;
+    new Uint32Array(gridParams, 4, 1)[0] = hashTableSize;
+    device.queue.writeBuffer(gridParamsBuffer, 0, gridParams);
+
+    cellCountsBuffer = device.createBuffer({
+      label: "compute shader cell counts buffer",
+      size: hashTableSize * 4, // u32 per cell
+      usage: GPUBufferUsage.STORAGE | GPUBufferUsage.COPY_DST, // INFO: COPY_DST is used to clear it before each check
     });
 
-    resultsBuffer = device.createBuffer({
-      label: "compute shader result buffer",
-      size: collisionsBuffer.size,
-      usage: GPUBufferUsage.COPY_DST | GPUBufferUsage.MAP_READ,
+    cellStartsBuffer = device.createBuffer({
+      label: "compute shader cell starts buffer",
+      size: (hashTableSize + 1) * 4, // u32 per cell + the end of the last one
+      usage: GPUBufferUsage.STORAGE,
+    });
+
+    planetCellsBuffer = device.createBuffer({
+      label: "compute shader planet cells buffer",
+      size: numberOfPlanets * MAX_CELLS_PER_PLANET * 4 * 2, // (hash: u32, offset: u32) * cells of each planet
+      usage: GPUBufferUsage.STORAGE,
+    });
+
+    sortedPlanetsBuffer = device.createBuffer({
+      label: "compute shader sorted planets buffer",
+      size: numberOfPlanets * MAX_CELLS_PER_PLANET * 4 * 4, // (cell: vec3i, planet: u32) * cells of each planet
+      usage: GPUBufferUsage.STORAGE,
+    });
+
+    planetsMotionBuffer = device.createBuffer({
+      label: "compute shader planets motion buffer",
+      size: numberOfPlanets * Float32Array.BYTES_PER_ELEMENT * 8, // (previous center: x, y, z, unused, velocity: x, y, z, unused) * planets
+      usage: GPUBufferUsage.STORAGE | GPUBufferUsage.COPY_DST,
     });
 
     computeShaderBindGroup = device.createBindGroup({
       label: "compute shader bindGroup",
-      layout: computeShaderPipeline.getBindGroupLayout(0),
+      layout: computeShaderBindGroupLayout,
       entries: [
         { binding: 0, resource: { buffer: planetsCenterPointAndRadiusBuffer } },
         { binding: 1, resource: { buffer: collisionsBuffer } },
+        { binding: 2, resource: { buffer: gridParamsBuffer } },
+        { binding: 3, resource: { buffer: cellCountsBuffer } },
+        { binding: 4, resource: { buffer: cellStartsBuffer } },
+        { binding: 5, resource: { buffer: planetCellsBuffer } },
+        { binding: 6, resource: { buffer: sortedPlanetsBuffer } },
+        { binding: 7, resource: { buffer: planetsMotionBuffer } },
       ],
     });
 
+    // e.g. it might not have room for new planets until the next frame
+    const canCopyCenters =
+      planetsCentersBuffer !== undefined &&
+      planetsCentersBuffer.size >= planetsCenterPointAndRadiusBuffer.size;
+
+    if (canCopyCenters) {
+      const commandEncoder = device.createCommandEncoder({
+        label: "compute shader planets center points copy command encoder",
+      });
+      commandEncoder.copyBufferToBuffer(
+        planetsCentersBuffer!,
+        0,
+        planetsCenterPointAndRadiusBuffer,
+        0,
+        planetsCenterPointAndRadiusBuffer.size,
+      );
+      device.queue.submit([commandEncoder.finish()]);
+    } else {
+      device.queue.writeBuffer(
+        planetsCenterPointAndRadiusBuffer,
+        0,
+        new Float32Array(
+          planetsCenterPointsAndRadius.map((a) => [...a]).flat() as number[],
+        ),
+      );
+    }
+
     device.queue.writeBuffer(
-      planetsCenterPointAndRadiusBuffer,
+      planetsMotionBuffer,
       0,
       new Float32Array(
-        planetsCenterPointsAndRadius.map((a) => [...a]).flat() as number[],
+        planetsPreviousCenterPoints
+          .map((a, i) => [...a, 0, ...planetsVelocities[i], 0])
+          .flat() as number[],
       ),
     );
   }
 
   /// Parse collison results buffer
+  ///
+  /// Only the first `count` pairs were written. If more collisions than the
+  /// buffer capacity were found (overflow), the extra ones are lost in this
+  /// check, but the buffer grows to fit them in the next one.
   function parseResultsBuffer({ arrayBuffer }: { arrayBuffer: ArrayBuffer }) {
-    const view = new DataView(arrayBuffer.slice(4)); // remove `count`
-    const structSize = 2 * 4; // CollisionPair (a: number, b: number)
+    const view = new DataView(arrayBuffer);
+    const count = view.getUint32(0, true);
+    const capacity = Math.floor(
+      (view.byteLength - 4) / COLLISION_PAIR_BYTE_LENGTH,
+    );
+
+    if (count > capacity) {
+      console.warn(
+        `Collisions overflow: found ${count} but only ${capacity} fit. Growing the buffer for the next check.`,
+      );
+      collisionsCapacity = Math.pow(2, Math.ceil(Math.log2(count)));
+    }
 
     const collisions: CollisionPair[] = [];
-    for (let i = 0; i < Math.floor(view.byteLength / structSize); i++) {
-      const baseOffset = i * structSize;
-      const a = view.getUint32(baseOffset, true); // a
-      const b = view.getUint32(baseOffset + 4, true); // b
-
-      // INFO: the Collision structure in the shader will have the size of
-      // the number of planets. Therefore, if we have less actual collisions than
-      // that number, it is using the default value (0).
-      // TODO: Check the copyBuffer part. That might do the trick.
-      if (a !== b) {
-        collisions.push({ a, b });
+    for (let i = 0; i < Math.min(count, capacity); i++) {
+      const baseOffset = 4 + i * COLLISION_PAIR_BYTE_LENGTH; // skip `count`
+      const getFloat32 = (field: number) =>
+        view.getFloat32(baseOffset + field * 4, true);
+
+      collisions.push({
+        a: view.getUint32(baseOffset, true),
+        b: view.getUint32(baseOffset + 4, true),
+        time: getFloat32(2),
+        contactPoint: vec3.fromValues(
+          getFloat32(3),
+          getFloat32(4),
+          getFloat32(5),
+        ),
+        normal: vec3.fromValues(getFloat32(6), getFloat32(7), getFloat32(8)),
+        penetration: getFloat32(9),
+        relativeSpeed: getFloat32(10),
+      });
+    }
+
+    return collisions;
+  }
+
+  /// Differential check: logs any mismatch between the pairs found by the
+  /// compute shader and the CPU (sweep and prune) ones, along with the snapshot
+  /// so it can be recorded and replayed in Node (see `scripts/check-collisions.ts`).
+  function verifyCollisions({
+    planets,
+    collisions,
+  }: {
+    planets: PlanetSweptSphere[];
+    collisions: CollisionPair[];
+  }) {
+    const { missing, unexpected } = diffCollisions({
+      expected: detectCollisionsSweepAndPrune(planets),
+      actual: collisions,
+    });
+
+    if (missing.length === 0 && unexpected.length === 0) {
+      if (UI_SETTINGS.logCollisions) {
+        console.info("Collisions verified: GPU and CPU results match");
+      }
+      return;
+    }
+
+    console.warn(
+      `Collisions mismatch: ${missing.length} missing and ${unexpected.length} unexpected pairs`,
+      { missing, unexpected },
+    );
+    console.warn(
+      "Collisions snapshot:",
+      JSON.stringify({
+        planets,
+        collisions: collisions.map((collision) => ({
+          ...collision,
+          contactPoint: [...collision.contactPoint],
+          normal: [...collision.normal],
+        })),
+      }),
+    );
+  }
+
+  /// The collisions are notified in the order they happened
+  function notifyCollisions(collisions: CollisionPair[]) {
+    if (UI_SETTINGS.logCollisions) {
+      console.info(`Collisions found: ${collisions.length}`);
+    }
+    Observer().notify(
+      "collisions",
+      collisions.sort((a, b) => a.time - b.time),
+    );
+  }
+
+  /// Returns a staging buffer (of at least `size` bytes) that is not being
+  /// mapped, or null if all of them are still in flight.
+  function getStagingBuffer(size: number) {
+    const stagingBuffer = stagingBuffers.find(({ inFlight }) => !inFlight);
+    if (!stagingBuffer) {
+      return null;
+    }
+
+    if (!stagingBuffer.buffer || stagingBuffer.buffer.size < size) {
+      stagingBuffer.buffer?.destroy();
+      stagingBuffer.buffer = device.createBuffer({
+        label: "compute shader staging buffer",
+        size,
+        usage: GPUBufferUsage.COPY_DST | GPUBufferUsage.MAP_READ,
+      });
+    }
+
+    return stagingBuffer;
+  }
+
+  /// Waits (without blocking the render loop) for the results of a check to be
+  /// mapped, then notifies them unless the planets have changed in the meantime.
+  async function readBackCollisions({
+    stagingBuffer,
+    size,
+    generation,
+    planets,
+    verify,
+  }: {
+    stagingBuffer: (typeof stagingBuffers)[number];
+    size: number;
+    generation: number;
+    planets: PlanetSweptSphere[];
+    verify: boolean;
+  }) {
+    const buffer = stagingBuffer.buffer!;
+
+    try {
+      await buffer.mapAsync(GPUMapMode.READ, 0, size);
+    } catch (error) {
+      console.error("Failed to read the collisions back", error);
+      stagingBuffer.inFlight = false;
+      return;
+    }
+
+    if (generation !== planetsGeneration) {
+      if (UI_SETTINGS.logCollisions) {
+        console.info(
+          "Planets have changed since the check: dropping collisions",
+        );
       }
+      buffer.unmap();
+      stagingBuffer.inFlight = false;
+      return;
+    }
+
+    // Parse the buffer into a structure
+    const collisions = parseResultsBuffer({
+      arrayBuffer: buffer.getMappedRange(0, size),
+    });
+
+    // release buffer
+    buffer.unmap();
+    stagingBuffer.inFlight = false;
+
+    if (verify) {
+      verifyCollisions({ planets, collisions });
     }
 
-    console.info(`Collisions found: ${collisions.length}`);
-    Observer().notify("collisions", collisions);
+    notifyCollisions(collisions);
   }
 
-  async function checkCollisionViaComputeShader({
+  /// Checks the collisions between all the planets (see `recreateComputeShaderBuffers`)
+  /// and notifies the pairs found in the `collisions` topic.
+  ///
+  /// All detections find exactly the same pairs (a < b), but not necessarily in
+  /// the same order. The CPU one is used whenever the compute shader can't run.
+  ///
+  /// The compute shader results are read back asynchronously (a frame or more
+  /// later). If all the staging buffers are still in flight, the check is skipped.
+  ///
+  /// @param{numberOfPlanets}: how many planets are checked;
+  /// @param{collisionDetection}: uniform grid broad phase, brute force or CPU (sweep and prune);
+  /// @param{verify}: compares the compute shader results with the CPU ones.
+  //
+  function checkCollisionViaComputeShader({
     numberOfPlanets,
+    collisionDetection = CollisionDetectionEnum.GRID,
+    verify = false,
   }: {
     numberOfPlanets: number;
+    collisionDetection?: CollisionDetectionEnum;
+    verify?: boolean;
   }) {
-    console.info("Checking collisions...");
+    if (UI_SETTINGS.logCollisions) {
+      console.info(`Checking collisions (${collisionDetection})...`);
+    }
+
+    // The snapshot might be replaced while the GPU is busy
+    const planets = planetsSnapshot;
+
+    if (
+      collisionDetection === CollisionDetectionEnum.SWEEP_AND_PRUNE ||
+      !isComputeAvailable
+    ) {
+      notifyCollisions(detectCollisionsSweepAndPrune(planets));
+      return;
+    }
+
+    const size = collisionsBuffer.size;
+    const stagingBuffer = getStagingBuffer(size);
+    if (!stagingBuffer) {
+      console.warn("Previous collision checks still in flight: skipping");
+      return;
+    }
+    stagingBuffer.inFlight = true;
+
+    const numberOfWorkgroups = Math.ceil(numberOfPlanets / WORKGROUP_SIZE);
 
     // Create Command Encoder
     const computeShaderCommandEncoder = device.createCommandEncoder({
       label: "compute pass command encoder",
     });
 
+    // The counts are accumulated with atomics, so they must start from zero
+    computeShaderCommandEncoder.clearBuffer(cellCountsBuffer);
+
     const computePass = computeShaderCommandEncoder.beginComputePass();
-    computePass.setPipeline(computeShaderPipeline);
     computePass.setBindGroup(0, computeShaderBindGroup);
 
     // dispatch workgroups
-    computePass.dispatchWorkgroups(Math.ceil(numberOfPlanets / WORKGROUP_SIZE));
+    if (collisionDetection === CollisionDetectionEnum.BRUTE_FORCE) {
+      computePass.setPipeline(computeCollisionBruteForcePipeline);
+      computePass.dispatchWorkgroups(numberOfWorkgroups);
+    } else {
+      computePass.setPipeline(countPlanetsPerCellPipeline);
+      computePass.dispatchWorkgroups(numberOfWorkgroups);
+
+      computePass.setPipeline(prefixSumCellsPipeline);
+      computePass.dispatchWorkgroups(1); // single workgroup scan
+
+      computePass.setPipeline(sortPlanetsByCellPipeline);
+      computePass.dispatchWorkgroups(numberOfWorkgroups);
+
+      computePass.setPipeline(computeCollisionPipeline);
+      computePass.dispatchWorkgroups(numberOfWorkgroups);
+    }
     computePass.end();
 
     computeShaderCommandEncoder.copyBufferToBuffer(
       collisionsBuffer,
       0,
-      resultsBuffer,
+      stagingBuffer.buffer!,
       0,
-      resultsBuffer.size,
+      size,
     );
 
     // clear collisions buffer
@@ -177,16 +648,13 @@ export const Collisions = ({
     // Submit Commands
     device.queue.submit([computeShaderCommandEncoder.finish()]);
 
-    await resultsBuffer.mapAsync(GPUMapMode.READ);
-    const arrayBuffer = resultsBuffer.getMappedRange();
-
-    // Parse the buffer into a structure
-    parseResultsBuffer({
-      arrayBuffer,
+    readBackCollisions({
+      stagingBuffer,
+      size,
+      generation: planetsGeneration,
+      planets,
+      verify,
     });
-
-    // release buffer
-    resultsBuffer.unmap();
   }
 
   return {
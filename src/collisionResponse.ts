@@ -0,0 +1,298 @@
+import { vec3 } from "gl-matrix";
+import {
+  COLLISION_SEPARATION_SLOP,
+  DEBRIS_EJECTION_FACTOR,
+  DEBRIS_MASS_VARIATION,
+} from "./constants";
+import { radiusFromMass } from "./gravity";
+import { CollisionPair, PlanetInfo, PlanetSpawnInfo } from "./types";
+import { Random } from "./random";
+
+/// Groups the planets that collided into clusters, i.e. if `a` collided with `b`
+/// and `b` collided with `c`, then `a`, `b` and `c` are in the same group.
+///
+/// Uses a union-find (disjoint set) over the planets indices.
+//
+export const groupCollidingPlanets = (
+  collisions: CollisionPair[],
+): number[][] => {
+  const parent = new Map<number, number>();
+
+  function find(idx: number): number {
+    let root = idx;
+    while (parent.get(root) !== root) {
+      root = parent.get(root)!;
+    }
+
+    // Path compression
+    let current = idx;
+    while (current !== root) {
+      const next = parent.get(current)!;
+      parent.set(current, root);
+      current = next;
+    }
+
+    return root;
+  }
+
+  for (const { a, b } of collisions) {
+    if (!parent.has(a)) parent.set(a, a);
+    if (!parent.has(b)) parent.set(b, b);
+
+    const rootA = find(a);
+    const rootB = find(b);
+    if (rootA !== rootB) {
+      parent.set(rootB, rootA);
+    }
+  }
+
+  const groups = new Map<number, number[]>();
+  for (const idx of parent.keys()) {
+    const root = find(idx);
+    groups.set(root, [...(groups.get(root) ?? []), idx]);
+  }
+
+  return [...groups.values()];
+};
+
+/// Perfectly inelastic collision: the planets become a single one.
+///
+/// - mass is conserved: M = Σm;
+/// - volume is conserved: R = ∛(Σr³);
+/// - it sits at the center of mass: X = Σ(m * x) / M;
+/// - linear momentum is conserved: V = Σ(m * v) / M.
+///
+/// The texture is the one of the most massive planet.
+//
+export const mergePlanets = (planets: PlanetInfo[]): PlanetSpawnInfo => {
+  let mass = 0;
+  let volume = 0;
+  const position = vec3.create();
+  const velocity = vec3.create();
+  let largest = planets[0];
+
+  for (const planet of planets) {
+    mass += planet.mass;
+    volume += Math.pow(planet.radius, 3);
+    vec3.scaleAndAdd(position, position, planet.position, planet.mass);
+    vec3.scaleAndAdd(velocity, velocity, planet.velocity, planet.mass);
+
+    if (planet.mass > largest.mass) {
+      largest = planet;
+    }
+  }
+
+  vec3.scale(position, position, 1 / mass);
+  vec3.scale(velocity, velocity, 1 / mass);
+
+  return {
+    radius: Math.cbrt(volume),
+    mass,
+    position,
+    velocity,
+    texture: largest.texture,
+  };
+};
+
+/// Makes two planets that collided bounce off each other (in place).
+///
+/// An impulse along the contact normal (from `a` to `b`) changes the velocities,
+/// conserving linear momentum:
+///
+///   j = -(1 + e) * (vB - vA)·n / (1/mA + 1/mB)
+///   vA -= (j / mA) * n
+///   vB += (j / mB) * n
+///
+/// where `e` is the coefficient of restitution (1: elastic, 0: perfectly inelastic).
+/// Then the planets are pushed apart (the lighter one moving more), so they don't
+/// keep overlapping, and therefore colliding, in the next checks.
+///
+/// @param{a}: one of the planets that collided;
+/// @param{b}: the other planet that collided;
+/// @param{normal}: contact normal, from `a` to `b` (see `CollisionPair`);
+/// @param{penetration}: how much they overlap (see `CollisionPair`);
+/// @param{restitution}: coefficient of restitution, in [0, 1].
+//
+export const bouncePlanets = ({
+  a,
+  b,
+  normal,
+  penetration,
+  restitution,
+}: {
+  a: PlanetInfo;
+  b: PlanetInfo;
+  normal: vec3;
+  penetration: number;
+  restitution: number;
+}) => {
+  const inverseMassA = 1 / a.mass;
+  const inverseMassB = 1 / b.mass;
+  const inverseMassSum = inverseMassA + inverseMassB;
+
+  const relativeVelocity = vec3.subtract(vec3.create(), b.velocity, a.velocity);
+  const velocityAlongNormal = vec3.dot(relativeVelocity, normal);
+
+  // Only if they are moving towards each other. Otherwise they are already separating.
+  if (velocityAlongNormal < 0) {
+    const impulse = (-(1 + restitution) * velocityAlongNormal) / inverseMassSum;
+    vec3.scaleAndAdd(a.velocity, a.velocity, normal, -impulse * inverseMassA);
+    vec3.scaleAndAdd(b.velocity, b.velocity, normal, impulse * inverseMassB);
+  }
+
+  // Resolve the penetration
+  if (penetration > 0) {
+    const correction =
+      (penetration + COLLISION_SEPARATION_SLOP) / inverseMassSum;
+    vec3.scaleAndAdd(
+      a.position,
+      a.position,
+      normal,
+      -correction * inverseMassA,
+    );
+    vec3.scaleAndAdd(b.position, b.position, normal, correction * inverseMassB);
+  }
+};
+
+/// Makes the planets that collided bounce off each other (in place), in the
+/// order they collided (see `bouncePlanets`).
+///
+/// The collisions are found a few frames after their check, so the planets have
+/// moved on since: the contact is resolved where they are now, pushing them
+/// apart along the contact normal until they no longer overlap, instead of
+/// moving them back in time. Their swept paths start over from there, so the
+/// next checks don't find the overlap they were resolved from.
+///
+/// @param{planets}: the planets the collisions refer to (by index);
+/// @param{collisions}: pairs of planets that collided;
+/// @param{restitution}: coefficient of restitution, in [0, 1].
+//
+export const resolveBounces = ({
+  planets,
+  collisions,
+  restitution,
+}: {
+  planets: PlanetInfo[];
+  collisions: CollisionPair[];
+  restitution: number;
+}) => {
+  const bouncedPlanets = new Set<PlanetInfo>();
+
+  for (const { a, b, normal } of collisions) {
+    const planetA = planets[a];
+    const planetB = planets[b];
+    if (!planetA || !planetB) {
+      continue;
+    }
+
+    // How much they overlap along the normal, now
+    const distance = vec3.dot(
+      vec3.subtract(vec3.create(), planetB.position, planetA.position),
+      normal,
+    );
+
+    bouncePlanets({
+      a: planetA,
+      b: planetB,
+      normal,
+      penetration: planetA.radius + planetB.radius - distance,
+      restitution,
+    });
+    bouncedPlanets.add(planetA).add(planetB);
+  }
+
+  bouncedPlanets.forEach((planet) => {
+    planet.sweptPath = {
+      from: vec3.clone(planet.position),
+      to: vec3.clone(planet.position),
+    };
+  });
+};
+
+/// Highest relative speed among the pairs of planets that collided.
+export const getImpactSpeed = (collisions: CollisionPair[]): number =>
+  collisions.reduce(
+    (max, { relativeSpeed }) => Math.max(max, relativeSpeed),
+    0,
+  );
+
+/// Shatters planets that collided into `debrisCount` debris.
+///
+/// The debris share the mass of the parents (each one gets a random share
+/// around Σm / debrisCount) and are placed around the impact point (the center
+/// of mass), evenly spread on a sphere (Fibonacci lattice) so they don't overlap.
+/// They are thrown outward from it, on top of the velocity of the center of mass,
+/// conserving the linear momentum.
+///
+/// @param{planets}: the planets that collided;
+/// @param{debrisCount}: in how many pieces they shatter;
+/// @param{impactSpeed}: relative speed of the collision (see `getImpactSpeed`);
+/// @param{simulatedTime}: when the collision happened.
+//
+export const fragmentPlanets = ({
+  planets,
+  debrisCount,
+  impactSpeed,
+  simulatedTime,
+}: {
+  planets: PlanetInfo[];
+  debrisCount: number;
+  impactSpeed: number;
+  simulatedTime: number;
+}): PlanetSpawnInfo[] => {
+  // Same mass, momentum and volume of the parents
+  const { mass, radius, position, velocity, texture } = mergePlanets(planets);
+
+  const weights = Array.from(
+    { length: debrisCount },
+    () => 1 + (Random().next() * 2 - 1) * DEBRIS_MASS_VARIATION,
+  );
+  const totalWeight = weights.reduce((sum, weight) => sum + weight, 0);
+
+  const ejectionSpeed = impactSpeed * DEBRIS_EJECTION_FACTOR;
+  const goldenAngle = Math.PI * (3 - Math.sqrt(5));
+  const angleOffset = Random().next() * 2 * Math.PI;
+
+  const debris = weights.map((weight, i) => {
+    const debrisMass = (mass * weight) / totalWeight;
+    const debrisRadius = radiusFromMass(debrisMass);
+
+    // Fibonacci lattice
+    const y = 1 - (2 * (i + 0.5)) / debrisCount;
+    const ringRadius = Math.sqrt(1 - y * y);
+    const theta = goldenAngle * i + angleOffset;
+    const direction = vec3.fromValues(
+      Math.cos(theta) * ringRadius,
+      y,
+      Math.sin(theta) * ringRadius,
+    );
+
+    return { debrisMass, debrisRadius, direction };
+  });
+
+  // As the masses are not all the same, the ejection would not add up to zero
+  // momentum. Removing the average (mass weighted) direction fixes it.
+  const drift = vec3.create();
+  debris.forEach(({ debrisMass, direction }) => {
+    vec3.scaleAndAdd(drift, drift, direction, debrisMass / mass);
+  });
+
+  return debris.map(({ debrisMass, debrisRadius, direction }) => ({
+    mass: debrisMass,
+    radius: debrisRadius,
+    position: vec3.scaleAndAdd(
+      vec3.create(),
+      position,
+      direction,
+      radius + debrisRadius,
+    ),
+    velocity: vec3.scaleAndAdd(
+      vec3.create(),
+      velocity,
+      vec3.subtract(vec3.create(), direction, drift),
+      ejectionSpeed,
+    ),
+    texture,
+    debrisSpawnedAt: simulatedTime,
+  }));
+};
@@ -1,19 +1,30 @@
 import { vec3 } from "gl-matrix";
+import { PointLightSettings } from "./types";
 
 export const MAT4X4_BYTE_LENGTH = 4 * 4 * Float32Array.BYTES_PER_ELEMENT;
 export const NEAR_FRUSTUM = 0.1;
 export const FAR_FRUSTUM = 100000;
+export const FIELD_OF_VIEW = Math.PI / 4; // vertical, in radians
 export const WORKGROUP_SIZE = 64;
 export const DEGREE_TO_RAD = 0.0174532925; // 1 deg = 0.0174532925 rad
-export const FULL_CIRCUMFERENCE = 360; // 360 degrees
-export const CHECK_COLLISION_FREQUENCY = 1097; // Check for collisions every currentFrame % 1097 === 0
-export const RENDER_TAIL_FREQUENCY = 100;
-export const ROTATION_SPEED_SENSITIVITY = 1e-3;
+export const CHECK_COLLISION_INTERVAL = 18; // Check for collisions every 18s of simulated time (~1097 frames at 60 Hz)
+export const RENDER_TAIL_INTERVAL = 1.5; // Sample a new tail point every 1.5s of simulated time
+export const ROTATION_SPEED_SENSITIVITY = 1; // radians per second of simulated time
 
-export const TRANSLATION_SPEED_SENSITIVITY = 0.1;
-export const TRANSLATION_SPEED_SENSITIVITY_MAX = 10.0;
-export const TRANSLATION_SPEED_SENSITIVITY_MIN = 0.01;
-export const TRANSLATION_SPEED_SENSITIVITY_STEP = 0.001;
+/// Seeded randomness (see `random.ts`)
+export const DEFAULT_SEED = 42;
+export const SEED_STEP = 1;
+export const PLANET_SEED_SALT = 0x85ebca6b; // so the planets don't come from the same numbers as their rings
+
+/// Simulation clock (seconds)
+export const FIXED_TIME_STEP = 1 / 60; // simulated time advanced by each physics step
+export const MAX_FRAME_TIME = 0.25; // real time between frames above this is ignored
+export const MAX_STEPS_PER_FRAME = 240;
+
+export const DEFAULT_TIME_SCALE = 1;
+export const TIME_SCALE_STEP = 0.01;
+export const MIN_TIME_SCALE = -10; // negative runs the simulation backwards
+export const MAX_TIME_SCALE = 10;
 
 export enum TopologyEnum {
   POINT_LIST = "point-list",
@@ -67,3 +78,322 @@ export const EMPTY_VECTOR: vec3 = [0, 0, 0];
 export const CAMERA_UP: vec3 = [0, 1, 0];
 
 export const COLLISION_CREATED_PLANET_RADIUS = 3;
+
+/// What happens to planets that collided
+export enum CollisionResponseEnum {
+  NONE = "none", // Collisions are only reported
+  SPAWN = "spawn", // A new planet is created for each collision
+  MERGE = "merge", // The planets that collided become a single one
+  BOUNCE = "bounce", // The planets bounce off each other
+  FRAGMENT = "fragment", // High-velocity impacts shatter the planets into debris (otherwise they merge)
+}
+
+export const COLLISION_RESPONSES = [
+  CollisionResponseEnum.NONE,
+  CollisionResponseEnum.SPAWN,
+  CollisionResponseEnum.MERGE,
+  CollisionResponseEnum.BOUNCE,
+  CollisionResponseEnum.FRAGMENT,
+];
+
+export const DEFAULT_COLLISION_RESPONSE = CollisionResponseEnum.MERGE;
+
+export enum CollisionDetectionEnum {
+  GRID = "grid", // Broad phase with a uniform grid (spatial hash), only planets sharing a cell are checked
+  BRUTE_FORCE = "brute force", // Every pair of planets is checked, O(n²)
+  SWEEP_AND_PRUNE = "sweep and prune (cpu)", // No compute shader, see `sweepAndPrune.ts`
+}
+
+export const COLLISION_DETECTIONS = [
+  CollisionDetectionEnum.GRID,
+  CollisionDetectionEnum.BRUTE_FORCE,
+  CollisionDetectionEnum.SWEEP_AND_PRUNE,
+];
+
+export const DEFAULT_COLLISION_DETECTION = CollisionDetectionEnum.GRID;
+export const COLLISION_STORAGE_BUFFERS = 7; // Storage buffers bound by the collision compute shader
+export const COLLISION_PAIR_BYTE_LENGTH = 11 * 4; // a, b, time, contact point (3), normal (3), penetration, relative speed
+export const COLLISION_READBACK_BUFFERS = 3; // Collision checks that can be in flight (being read back) at the same time
+export const MIN_SPATIAL_HASH_TABLE_SIZE = 256;
+export const SPATIAL_HASH_CELLS_PER_PLANET = 2; // Keeps the hash table sparse, so hash collisions are rare
+export const SPATIAL_HASH_CELL_PERCENTILE = 0.99; // Share of the planets whose swept bounds fit in a grid cell, the others are checked against all planets
+export const MAX_CELLS_PER_PLANET = 8; // Swept bounds that fit in a cell span at most 2 cells per axis (same as in `collision.wgsl`)
+
+// Coefficient of restitution of the bounce: 1 is perfectly elastic (no kinetic
+// energy lost), 0 is perfectly inelastic (the planets stick together)
+export const DEFAULT_RESTITUTION = 1;
+export const RESTITUTION_STEP = 0.01;
+export const MIN_RESTITUTION = 0;
+export const MAX_RESTITUTION = 1;
+export const COLLISION_SEPARATION_SLOP = 0.01; // Extra distance added when pushing overlapping planets apart
+
+/// Fragmentation
+export const DEFAULT_DEBRIS_COUNT = 8;
+export const DEBRIS_COUNT_STEP = 1;
+export const MIN_DEBRIS_COUNT = 2;
+export const MAX_DEBRIS_COUNT = 64;
+
+// Relative speed between the planets above which they shatter
+export const DEFAULT_FRAGMENTATION_SPEED = 2;
+export const FRAGMENTATION_SPEED_STEP = 0.1;
+export const MIN_FRAGMENTATION_SPEED = 0;
+export const MAX_FRAGMENTATION_SPEED = 50;
+
+export const DEBRIS_EJECTION_FACTOR = 0.5; // Debris are thrown outward at this fraction of the impact speed
+export const DEBRIS_MASS_VARIATION = 0.5; // Each debris gets (1 ± variation) of an equal share of the mass
+export const MIN_DEBRIS_RADIUS = 0.5; // Debris smaller than this are culled...
+export const DEBRIS_LIFETIME = 30; // ...after this many seconds of simulated time
+
+/// Motion
+export enum MotionModeEnum {
+  ELLIPSE = "ellipse",
+  GRAVITY = "gravity",
+}
+
+export const MOTION_MODES = [MotionModeEnum.ELLIPSE, MotionModeEnum.GRAVITY];
+
+export const DEFAULT_MOTION_MODE = MotionModeEnum.ELLIPSE;
+
+/// Gravity (simulation units, G = 1)
+export const GRAVITATIONAL_CONSTANT = 1;
+export const PLANET_DENSITY = 1; // mass = density * radius^3
+export const GRAVITY_SOFTENING = 0.5; // Avoids infinite accelerations when two planets get too close
+
+export enum GravitySolverEnum {
+  EXACT = "exact", // Every pair of planets, O(n²)
+  BARNES_HUT = "barnes-hut", // Octree approximation, O(n log n), see `barnesHut.ts`
+}
+
+export const GRAVITY_SOLVERS = [
+  GravitySolverEnum.EXACT,
+  GravitySolverEnum.BARNES_HUT,
+];
+
+export const DEFAULT_GRAVITY_SOLVER = GravitySolverEnum.EXACT;
+
+// Opening angle θ of Barnes–Hut: nodes smaller than θ times their distance are taken as a single body
+export const DEFAULT_BARNES_HUT_THETA = 0.5;
+export const BARNES_HUT_THETA_STEP = 0.05;
+export const MIN_BARNES_HUT_THETA = 0; // same as the exact summation
+export const MAX_BARNES_HUT_THETA = 1.5;
+export const MAX_OCTREE_DEPTH = 32; // Planets closer than the size of the root / 2^32 share a leaf
+
+export const DEFAULT_CENTRAL_MASS = 1000;
+export const CENTRAL_MASS_STEP = 10;
+export const MIN_CENTRAL_MASS = 0;
+export const MAX_CENTRAL_MASS = 100000;
+
+/// Kepler orbits
+export const KEPLER_TOLERANCE = 1e-10; // Newton-Raphson convergence for the eccentric anomaly
+export const KEPLER_MAX_ITERATIONS = 30;
+export const MAX_INITIAL_INCLINATION = 15; // degrees. Planets are created with a random inclination up to this
+export const KEPLER_GPU_SYNC_INTERVAL = 60; // Orbits advanced on the GPU are synced back to the CPU every 60s of simulated time
+
+/// Hierarchical orbits (see `hierarchy.ts`)
+export const MAX_HIERARCHY_DEPTH = 8; // moons of moons of ... (also bounds the loop in `orbit.wgsl`)
+export const DEFAULT_NEW_PLANET_SEMI_MAJOR_AXIS = 8; // around its parent
+export const NEW_PLANET_SEMI_MAJOR_AXIS_STEP = 0.5;
+export const MIN_NEW_PLANET_SEMI_MAJOR_AXIS = 1;
+export const MAX_NEW_PLANET_SEMI_MAJOR_AXIS = 100;
+export const DEFAULT_NEW_PLANET_ECCENTRICITY = 0.1;
+export const MOON_RADIUS_FACTOR = 0.5; // moons are at most this big in relation to their parent
+
+/// Starfield (spiral galaxy in the background, see `scattered-points.ts`)
+export const STARFIELD_RADIUS = 1000;
+export const STARFIELD_CENTER: vec3 = [0, 0, -600]; // Below the planets, as seen from the default camera
+export const STARFIELD_THICKNESS = 0.04; // Of the disc, in relation to its radius
+export const STARFIELD_ARM_SPREAD = 0.35; // radians. How far from the center of its arm a star can be
+export const STARFIELD_BULGE_STARS = 0.25; // Fraction of the stars that are in the bulge
+
+export const DEFAULT_STARFIELD_ARMS = 4;
+export const MIN_STARFIELD_ARMS = 1;
+export const MAX_STARFIELD_ARMS = 8;
+
+export const DEFAULT_STARFIELD_WINDING = 1; // turns of each arm from the bulge to the edge
+export const STARFIELD_WINDING_STEP = 0.05;
+export const MIN_STARFIELD_WINDING = 0;
+export const MAX_STARFIELD_WINDING = 3;
+
+export const DEFAULT_STARFIELD_BULGE_SIZE = 0.15; // in relation to the radius
+export const STARFIELD_BULGE_SIZE_STEP = 0.01;
+export const MIN_STARFIELD_BULGE_SIZE = 0;
+export const MAX_STARFIELD_BULGE_SIZE = 0.5;
+
+export const DEFAULT_STARFIELD_STARS = 20000;
+export const STARFIELD_STARS_STEP = 1000;
+export const MIN_STARFIELD_STARS = 1000;
+export const MAX_STARFIELD_STARS = 200000;
+
+// Colour temperature (Kelvin) of the stars: normally distributed around the mean. Bulge stars are older (cooler)
+export const DEFAULT_STARFIELD_TEMPERATURE = 6000;
+export const STARFIELD_TEMPERATURE_STEP = 100;
+export const MIN_STARFIELD_TEMPERATURE = 1000;
+export const MAX_STARFIELD_TEMPERATURE = 40000;
+export const DEFAULT_STARFIELD_TEMPERATURE_SPREAD = 2500;
+export const MIN_STARFIELD_TEMPERATURE_SPREAD = 0;
+export const MAX_STARFIELD_TEMPERATURE_SPREAD = 10000;
+
+/// Lighting (see `planet.wgsl`)
+export const MAX_LIGHTS = 4; // same as in `planet.wgsl`
+export const LIGHTING_UNIFORM_BYTE_LENGTH = (8 + MAX_LIGHTS * 8) * 4; // camera position, ambient, number of lights, debug LOD (+ padding) and the lights (position, intensity, color + padding)
+
+export const DEFAULT_AMBIENT_LIGHT = 0.1;
+export const AMBIENT_LIGHT_STEP = 0.01;
+export const MIN_AMBIENT_LIGHT = 0;
+export const MAX_AMBIENT_LIGHT = 1;
+
+export const LIGHT_POSITION_STEP = 1;
+export const MIN_LIGHT_POSITION = -1000;
+export const MAX_LIGHT_POSITION = 1000;
+export const LIGHT_INTENSITY_STEP = 0.1;
+export const MIN_LIGHT_INTENSITY = 0;
+export const MAX_LIGHT_INTENSITY = 10;
+
+// The star (see `star.ts`) already lights the planets from where the central mass is: these are extra ones
+export const DEFAULT_LIGHTS: PointLightSettings[] = [
+  { enabled: false, x: 0, y: 0, z: 0, color: [255, 244, 224], intensity: 1 },
+  {
+    enabled: false,
+    x: 200,
+    y: 200,
+    z: 100,
+    color: [160, 190, 255],
+    intensity: 0.5,
+  },
+  {
+    enabled: false,
+    x: -200,
+    y: -200,
+    z: 100,
+    color: [255, 160, 120],
+    intensity: 0.5,
+  },
+  {
+    enabled: false,
+    x: 0,
+    y: 0,
+    z: 300,
+    color: [255, 255, 255],
+    intensity: 0.5,
+  },
+];
+
+/// Star at the center of the orbits (see `star.ts`)
+export const STAR_RADIUS = 2;
+export const STAR_LAT_BANDS = 32;
+export const STAR_LONG_BANDS = 32;
+export const STAR_UNIFORM_BYTE_LENGTH = 8 * 4; // emission (+ padding) and camera position (+ padding)
+
+export const DEFAULT_STAR_TEMPERATURE = 5800; // Kelvin, about the Sun's
+export const STAR_TEMPERATURE_STEP = 100;
+export const MIN_STAR_TEMPERATURE = 1000;
+export const MAX_STAR_TEMPERATURE = 40000;
+
+// How bright its surface is: above 1, it is brighter than the screen can show, so it blooms
+export const DEFAULT_STAR_EMISSION = 8;
+export const STAR_EMISSION_STEP = 0.5;
+export const MIN_STAR_EMISSION = 0;
+export const MAX_STAR_EMISSION = 50;
+
+// Intensity of its light on the planets, same range as the other lights
+export const DEFAULT_STAR_LUMINOSITY = 1;
+
+/// HDR rendering and bloom (see `bloom.ts`)
+export const HDR_FORMAT: GPUTextureFormat = "rgba16float"; // of the scene, before it is drawn on the canvas
+export const BLOOM_LEVELS = 5; // same as in `bloom.wgsl`. Each one is half the size of the previous one
+export const BLOOM_UNIFORM_BYTE_LENGTH = 4 * 4; // threshold, intensity (+ padding)
+
+export const DEFAULT_BLOOM_THRESHOLD = 1; // Only what is brighter than the screen can show
+export const BLOOM_THRESHOLD_STEP = 0.05;
+export const MIN_BLOOM_THRESHOLD = 0;
+export const MAX_BLOOM_THRESHOLD = 10;
+
+export const DEFAULT_BLOOM_INTENSITY = 1;
+export const BLOOM_INTENSITY_STEP = 0.05;
+export const MIN_BLOOM_INTENSITY = 0;
+export const MAX_BLOOM_INTENSITY = 5;
+
+/// Levels of detail of the planet meshes (see `lod.ts`)
+export const LOD_LEVELS = 4; // same as in `lod.wgsl` and `planet.wgsl`. Each one has half the bands of the previous one
+export const LOD_SCREEN_RADII: [number, number, number] = [48, 16, 4]; // pixels: a planet smaller than LOD_SCREEN_RADII[i] on screen uses a coarser mesh than LOD i
+export const LOD_HYSTERESIS = 0.15; // how far (in relation) past a threshold the screen radius must go to switch LOD, so planets on it don't pop back and forth
+export const LOD_UNIFORM_BYTE_LENGTH = (12 + 6 * 4) * 4; // camera position, projection scale, thresholds, hysteresis, number of instances and groups, cull (+ padding) and the frustum planes
+
+/// Tails of the planets (see `tail.ts`)
+export enum TailColorModeEnum {
+  PLANET = "planet", // A hue per planet
+  SPEED = "speed", // From blue (slow) to red (fast)
+  SINGLE = "single", // The same cyan for all the planets
+}
+
+export const TAIL_COLOR_MODES = [
+  TailColorModeEnum.PLANET,
+  TailColorModeEnum.SPEED,
+  TailColorModeEnum.SINGLE,
+];
+
+export const DEFAULT_TAIL_COLOR_MODE = TailColorModeEnum.PLANET;
+
+export const TAIL_UNIFORM_BYTE_LENGTH = 12 * 4; // viewport size, width, sample interval, number of planets, capacity, number of samples, newest sample, colour mode, max speed (+ padding)
+export const TAIL_MAX_SPEED = 20; // Speed (units per second of simulated time) shown as the reddest, in the speed colour mode
+
+export const DEFAULT_TAIL_LENGTH = 200; // samples per planet, each one RENDER_TAIL_INTERVAL of simulated time after the previous one
+export const TAIL_LENGTH_STEP = 10;
+export const MIN_TAIL_LENGTH = 10;
+export const MAX_TAIL_LENGTH = 2000;
+
+export const DEFAULT_TAIL_WIDTH = 3; // pixels, of the newest end: it narrows down to nothing at the oldest one
+export const TAIL_WIDTH_STEP = 0.5;
+export const MIN_TAIL_WIDTH = 1;
+export const MAX_TAIL_WIDTH = 10;
+
+/// Skybox (see `skybox.ts`)
+export enum SkyboxEnum {
+  NONE = "none", // Black, as before
+  NEBULA = "nebula", // Generated on the GPU: coloured clouds and stars
+  STARS = "stars", // Generated on the GPU: stars only
+  IMAGES = "images", // The six faces in `public/textures/skybox`
+}
+
+export const SKYBOXES = [
+  SkyboxEnum.NONE,
+  SkyboxEnum.NEBULA,
+  SkyboxEnum.STARS,
+  SkyboxEnum.IMAGES,
+];
+
+export const DEFAULT_SKYBOX = SkyboxEnum.NEBULA;
+
+export const SKYBOX_FORMAT: GPUTextureFormat = "rgba8unorm";
+export const SKYBOX_SIZE = 1024; // pixels, of each face of the generated ones
+export const SKYBOX_UNIFORM_BYTE_LENGTH = 4 * 4; // face, environment, seed (+ padding)
+
+/// Rings of the planets (see `createRing` and `renderRings`)
+export const RING_SEGMENTS = 128; // of the shared annulus mesh, around it
+export const RING_BYTE_LENGTH = 7 * 4; // planet, inner and outer radius, tilt, opacity, textured, bands seed
+export const MIN_RING_INNER_RADIUS = 1.3; // in planet radii
+export const MAX_RING_INNER_RADIUS = 1.8;
+export const MIN_RING_WIDTH = 0.5; // in planet radii, from the inner radius to the outer one
+export const MAX_RING_WIDTH = 1.5;
+export const MAX_RING_TILT = 30; // degrees, of the ring plane
+export const MIN_RING_OPACITY = 0.5;
+export const MAX_RING_OPACITY = 0.9;
+export const RING_TEXTURE_CHANCE = 0.5; // The bands of the others are procedural
+
+export const DEFAULT_RING_CHANCE = 0.3; // of a new planet to have rings
+export const RING_CHANCE_STEP = 0.05;
+export const MIN_RING_CHANCE = 0;
+export const MAX_RING_CHANCE = 1;
+
+/// Atmospheres of the planets (see `createAtmosphere` and `renderAtmospheres`)
+export const ATMOSPHERE_CHANCE = 0.6; // of a new planet to have an atmosphere
+export const ATMOSPHERE_SEED_SALT = 0x9e3779b9; // so they don't come from the same numbers as the rings
+export const ATMOSPHERE_BYTE_LENGTH = 4 * 4; // colour, thickness (0 if it has none)
+export const MIN_ATMOSPHERE_THICKNESS = 0.05; // in planet radii
+export const MAX_ATMOSPHERE_THICKNESS = 0.2;
+export const ATMOSPHERE_COLORS: [number, number, number][] = [
+  [0.35, 0.6, 1], // Blue sky
+  [1, 0.7, 0.4], // Haze
+  [0.5, 0.9, 0.85], // Methane
+  [0.75, 0.55, 1],
+];
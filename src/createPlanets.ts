@@ -1,8 +1,31 @@
-import { Observer } from "./observer";
+import { vec3 } from "gl-matrix";
+import { MOON_RADIUS_FACTOR, PLANET_SEED_SALT } from "./constants";
+import {
+  GeneratedPlanet,
+  GeneratedRing,
+  createAtmosphere,
+  createOrbitalElements,
+  createRing,
+  generatePlanet,
+  generatePlanets,
+  getPlanetRandom,
+  getPlanetSeed,
+  getRandomTextureIndex,
+} from "./generatePlanets";
+import { massFromRadius } from "./gravity";
+import {
+  orbitalElementsToStateVectors,
+  stateVectorsToOrbitalElements,
+} from "./kepler";
+import {
+  attachToParent,
+  detachFromRemovedParents,
+  getOrbitCentralMass,
+  updateOrbitsFromStateVectors,
+} from "./hierarchy";
 import { PlanetTextures } from "./textures";
-import { PlanetInfo } from "./types";
+import { PlanetInfo, PlanetSpawnInfo, RingInfo } from "./types";
 import { SetupUI, UI_SETTINGS } from "./ui";
-import { createSphereMesh } from "./utils";
 
 export const CreatePlanets = async (device: GPUDevice) => {
   /// INFO: One point about this: it is saving the planets' state in memory (planetsBuffer array)
@@ -14,110 +37,255 @@ export const CreatePlanets = async (device: GPUDevice) => {
 
   const textures = await PlanetTextures(device);
 
-  function createPlanetAndItsBuffers({
-    radius = 1,
-  }: {
-    radius?: number;
-  }): PlanetInfo {
-    const { positionAndTexCoords, indices } = createSphereMesh({
-      radius,
-      latBands: UI_SETTINGS.latBands,
-      longBands: UI_SETTINGS.longBands,
-    });
+  const getGenerationSettings = () => ({
+    ellipseA: UI_SETTINGS.ellipseA,
+    eccentricity: UI_SETTINGS.eccentricity,
+    centralMass: UI_SETTINGS.centralMass,
+    ringChance: UI_SETTINGS.ringChance,
+    numberOfTextures: textures.LENGTH,
+  });
 
-    // Create Position and TexCoords Buffer (VERTEX BUFFER)
-    const vertexBuffer = device.createBuffer({
-      label: "vertices buffer",
-      size: positionAndTexCoords.length * Float32Array.BYTES_PER_ELEMENT,
-      usage: GPUBufferUsage.VERTEX,
-      mappedAtCreation: true,
-    });
-    new Float32Array(vertexBuffer.getMappedRange()).set(positionAndTexCoords);
-    vertexBuffer.unmap();
-
-    // Create Index Buffer
-    const indexBuffer = device.createBuffer({
-      label: "index buffer",
-      size: indices.length * Float32Array.BYTES_PER_ELEMENT,
-      usage: GPUBufferUsage.INDEX,
-      mappedAtCreation: true,
-    });
-    new Uint32Array(indexBuffer.getMappedRange()).set(indices);
-    indexBuffer.unmap();
+  function getRing(ring?: GeneratedRing): RingInfo | undefined {
+    if (!ring) {
+      return undefined;
+    }
 
+    const { textureIndex, ...rest } = ring;
     return {
-      vertexBuffer,
-      indexBuffer,
-      indices,
-      radius,
+      ...rest,
+      texture:
+        textureIndex === undefined
+          ? undefined
+          : textures.getTextureBasedOnIndex(textureIndex),
     };
   }
 
+  /// The generated planet, with its textures loaded
+  function toPlanetInfo({
+    textureIndex,
+    ring,
+    ...planet
+  }: GeneratedPlanet): PlanetInfo {
+    const texture = textures.getTextureBasedOnIndex(textureIndex);
+    console.assert(texture !== null, `Failed to load texture ${textureIndex}`);
+
+    return { ...planet, texture, ring: getRing(ring) };
+  }
+
+  /// Gives rings to the planets again, e.g. after `ringChance` has changed.
+  /// The ones without a seed (created by collisions, e.g. debris) never have any.
+  function updateRings() {
+    planetsBuffers.forEach((planet) => {
+      planet.ring =
+        planet.seed !== undefined
+          ? getRing(
+              createRing({ seed: planet.seed, ...getGenerationSettings() }),
+            )
+          : undefined;
+    });
+  }
+
+  /// Applies the UI orbit size (ellipseA) and shape (eccentricity) to all planets,
+  /// keeping their orientation and where they are in their orbits.
+  /// Moons keep their own orbits around their parent.
+  function updateOrbits() {
+    planetsBuffers.forEach(({ orbit, parent }, i) => {
+      if (parent) {
+        return;
+      }
+
+      orbit.semiMajorAxis = UI_SETTINGS.ellipseA * (i + 1);
+      orbit.eccentricity = UI_SETTINGS.eccentricity;
+    });
+  }
+
   function create({
     planetsToCreate,
     currentNumberOfPlanets,
     radius,
     addNew,
-    updateLatOrLongBands,
   }: {
     planetsToCreate?: number;
     currentNumberOfPlanets: number;
     radius?: number;
     addNew?: boolean;
-    updateLatOrLongBands?: boolean;
   }) {
     if (planetsToCreate === undefined) {
       planetsToCreate = currentNumberOfPlanets;
     }
 
-    // INFO: without this the lat and long bands only will be updated
-    // for the next planets (those that are not already in the planetsBuffers array)
-    if (updateLatOrLongBands) {
-      planetsBuffers = [];
+    for (let i = 0; i < planetsToCreate; i++) {
+      // New planets go right after the rendered ones, so they are the ones rendered
+      const index = addNew ? currentNumberOfPlanets + i : planetsBuffers.length;
+      planetsBuffers.splice(
+        index,
+        0,
+        toPlanetInfo(
+          generatePlanet({ index, radius, settings: getGenerationSettings() }),
+        ),
+      );
     }
 
+    // Only once they exist, otherwise the "planets" observers create others
     if (addNew) {
-      Observer().notify("planets", currentNumberOfPlanets + planetsToCreate);
-      UI_SETTINGS.planets = currentNumberOfPlanets;
       SetupUI().planetsGUIListener.setValue(
         currentNumberOfPlanets + planetsToCreate,
       );
     }
+  }
+
+  /// Creates a single planet (rendered after the first `index` ones) orbiting
+  /// `parent`, or the central mass if there is none.
+  ///
+  /// Its orientation and where it starts in its orbit are random (from the seed
+  /// and `index`, see `getPlanetRandom`), and moons are smaller than their parent.
+  ///
+  /// @param{index}: where it is inserted, it must be after its parent;
+  /// @param{parent}: what it orbits;
+  /// @param{binary}: it and its parent orbit their common barycenter;
+  /// @param{semiMajorAxis}: size of its orbit;
+  /// @param{eccentricity}: shape of its orbit.
+  //
+  function addPlanet({
+    index,
+    parent,
+    binary,
+    semiMajorAxis,
+    eccentricity,
+  }: {
+    index: number;
+    parent?: PlanetInfo;
+    binary: boolean;
+    semiMajorAxis: number;
+    eccentricity: number;
+  }) {
+    const seed = getPlanetSeed(index);
+    const random = getPlanetRandom(seed, PLANET_SEED_SALT);
+    const radius = parent
+      ? parent.radius * MOON_RADIUS_FACTOR * (random() * 0.5 + 0.5)
+      : random() * 2 + 1;
+
+    const settings = getGenerationSettings();
+    const planet: PlanetInfo = {
+      radius,
+      texture: textures.getTextureBasedOnIndex(
+        getRandomTextureIndex(textures.LENGTH, random),
+      ),
+      mass: massFromRadius(radius),
+      position: vec3.create(),
+      velocity: vec3.create(),
+      acceleration: vec3.create(),
+      orbit: {
+        ...createOrbitalElements({ index, ...settings, random }),
+        semiMajorAxis,
+        eccentricity,
+      },
+      parent,
+      binary,
+      seed,
+      ring: getRing(createRing({ seed, ...settings })),
+      atmosphere: createAtmosphere(seed),
+    };
+
+    const relativeState = orbitalElementsToStateVectors({
+      elements: planet.orbit,
+      centralMass: getOrbitCentralMass({
+        body: planet,
+        centralMass: UI_SETTINGS.centralMass,
+      }),
+    });
+    if (parent) {
+      attachToParent({ body: planet, parent, binary, relativeState });
+    } else {
+      vec3.copy(planet.position, relativeState.position);
+      vec3.copy(planet.velocity, relativeState.velocity);
+    }
 
-    for (let i = 0; i < planetsToCreate; i++) {
-      // TODO: improve this. It is commented out because of
-      // the change in the latBands and lonBands uiSettings
-      // if (i < planetsBuffers.length - 1) {
-      //   continue;
-      // }
+    planetsBuffers.splice(index, 0, planet);
+  }
 
-      radius = radius ?? Math.random() * 2 + 1;
+  /// Spawns a single planet from a given initial state (in world space),
+  /// inserting it at `index` (defaults to the end).
+  /// Its orbit, used by the ellipse motion mode, is the one that the initial
+  /// state describes around the central mass.
+  function spawnPlanet({
+    index = planetsBuffers.length,
+    radius,
+    position,
+    velocity,
+    mass,
+    texture,
+    debrisSpawnedAt,
+  }: PlanetSpawnInfo & { index?: number }) {
+    planetsBuffers.splice(index, 0, {
+      radius,
+      texture:
+        texture ??
+        textures.getTextureBasedOnIndex(getRandomTextureIndex(textures.LENGTH)),
+      mass,
+      position: vec3.clone(position),
+      velocity: vec3.clone(velocity),
+      acceleration: vec3.create(),
+      orbit: stateVectorsToOrbitalElements({
+        position,
+        velocity,
+        centralMass: UI_SETTINGS.centralMass,
+      }),
+      debrisSpawnedAt,
+    });
+  }
 
-      // Create meshes and buffers, randomizing the radius of the planet
-      const { vertexBuffer, indexBuffer, indices } = createPlanetAndItsBuffers({
-        radius,
-      });
+  /// Removes the planets at the given indices.
+  /// The indices of the planets after them shift accordingly.
+  function removePlanets(indices: number[]) {
+    const indicesToRemove = new Set(indices);
+    const removedPlanets = new Set(
+      planetsBuffers.filter((_planet, i) => indicesToRemove.has(i)),
+    );
 
-      // Create texture buffer
-      const texture = textures.getTextureBasedOnIndex(i % textures.LENGTH);
-      console.assert(texture !== null, `Failed to load texture ${i}`);
+    planetsBuffers = planetsBuffers.filter(
+      (planet) => !removedPlanets.has(planet),
+    );
 
-      planetsBuffers.push({
-        vertexBuffer,
-        indexBuffer,
-        indices,
-        radius,
-        texture,
+    // The moons of the removed planets (and the binary companions that are now
+    // on their own) carry on from where they are, in their new orbits
+    const detachedPlanets = detachFromRemovedParents({
+      bodies: planetsBuffers,
+      removedBodies: removedPlanets,
+    });
+    const lostBinaryCompanion = [...removedPlanets].some(
+      ({ binary, parent }) => binary && parent && !removedPlanets.has(parent),
+    );
+    if (detachedPlanets.length > 0 || lostBinaryCompanion) {
+      updateOrbitsFromStateVectors({
+        bodies: planetsBuffers,
+        centralMass: UI_SETTINGS.centralMass,
       });
     }
   }
 
+  /// Replaces all the planets by new ones, generated from `seed`: the same seed
+  /// and UI settings always give the same planets.
+  function regenerate(seed: number) {
+    planetsBuffers = generatePlanets({
+      seed,
+      numberOfPlanets: UI_SETTINGS.planets,
+      settings: getGenerationSettings(),
+    }).map(toPlanetInfo);
+  }
+
   function getPlanetsBuffers(): PlanetInfo[] {
     return planetsBuffers;
   }
 
   return {
+    addPlanet,
     create,
     getPlanetsBuffers,
+    regenerate,
+    updateOrbits,
+    spawnPlanet,
+    removePlanets,
+    updateRings,
   };
 };
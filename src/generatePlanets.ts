@@ -0,0 +1,199 @@
+import { vec3 } from "gl-matrix";
+import {
+  ATMOSPHERE_CHANCE,
+  ATMOSPHERE_COLORS,
+  ATMOSPHERE_SEED_SALT,
+  DEGREE_TO_RAD,
+  MAX_ATMOSPHERE_THICKNESS,
+  MAX_INITIAL_INCLINATION,
+  MAX_RING_INNER_RADIUS,
+  MAX_RING_OPACITY,
+  MAX_RING_TILT,
+  MAX_RING_WIDTH,
+  MIN_ATMOSPHERE_THICKNESS,
+  MIN_RING_INNER_RADIUS,
+  MIN_RING_OPACITY,
+  MIN_RING_WIDTH,
+  PLANET_SEED_SALT,
+  RING_TEXTURE_CHANCE,
+} from "./constants";
+import { massFromRadius } from "./gravity";
+import { orbitalElementsToStateVectors } from "./kepler";
+import { Random, createRandomGenerator } from "./random";
+import { AtmosphereInfo, OrbitalElements, PlanetInfo, RingInfo } from "./types";
+
+/// Planets generation
+///
+/// Pure TypeScript (no WebGPU nor DOM), so the same seed can be checked to
+/// always give the same planets in Node (see `scripts/check-generation.ts`).
+/// The textures are referred to by their index, `createPlanets.ts` turns them
+/// into the loaded ones.
+//
+
+/// UI settings the generated planets depend on
+export type GenerationSettings = {
+  ellipseA: number;
+  eccentricity: number;
+  centralMass: number;
+  ringChance: number;
+  numberOfTextures: number;
+};
+
+export type GeneratedRing = Omit<RingInfo, "texture"> & {
+  textureIndex?: number;
+};
+
+export type GeneratedPlanet = Omit<PlanetInfo, "texture" | "ring"> & {
+  textureIndex: number;
+  ring?: GeneratedRing;
+};
+
+export const getRandomTextureIndex = (
+  numberOfTextures: number,
+  random: () => number = Random().next,
+) => Math.floor(random() * numberOfTextures);
+
+/// Each planet has its own orbit. The size and shape come from the UI settings
+/// (farther planets have bigger orbits), while its orientation and where
+/// the planet starts in it are random.
+export const createOrbitalElements = ({
+  index,
+  ellipseA,
+  eccentricity,
+  random,
+}: {
+  index: number;
+  ellipseA: number;
+  eccentricity: number;
+  random: () => number;
+}): OrbitalElements => ({
+  semiMajorAxis: ellipseA * (index + 1),
+  eccentricity,
+  inclination: random() * MAX_INITIAL_INCLINATION * DEGREE_TO_RAD,
+  longitudeOfAscendingNode: random() * 2 * Math.PI,
+  argumentOfPeriapsis: random() * 2 * Math.PI,
+  meanAnomaly: random() * 2 * Math.PI,
+});
+
+/// Seed of the planet generated at `index`, from the seed and the index. It is
+/// kept in the planet, so its rings and atmosphere stay the same even when the
+/// planets before it are removed (e.g. merged).
+export const getPlanetSeed = (index: number) =>
+  Random().getSeed() * 1000 + index;
+
+/// Generator of the planet with `planetSeed` (or of its rings and atmosphere,
+/// with another `salt`). It doesn't take numbers from `Random()`, so the planet
+/// doesn't depend on what was generated before it: e.g. a planet added later
+/// from the UI is the same one the seed gives at its index from the start, and
+/// changing a decoration only changes that decoration.
+export const getPlanetRandom = (planetSeed: number, salt = 0) =>
+  createRandomGenerator(planetSeed ^ salt);
+
+/// Rings of the planet with `seed`, if it has any (see `ringChance`).
+export const createRing = ({
+  seed,
+  ringChance,
+  numberOfTextures,
+}: {
+  seed: number;
+  ringChance: number;
+  numberOfTextures: number;
+}): GeneratedRing | undefined => {
+  const random = getPlanetRandom(seed);
+  if (random() >= ringChance) {
+    return undefined;
+  }
+
+  const innerRadius =
+    MIN_RING_INNER_RADIUS +
+    random() * (MAX_RING_INNER_RADIUS - MIN_RING_INNER_RADIUS);
+  return {
+    innerRadius,
+    outerRadius:
+      innerRadius +
+      MIN_RING_WIDTH +
+      random() * (MAX_RING_WIDTH - MIN_RING_WIDTH),
+    tilt: (random() * 2 - 1) * MAX_RING_TILT * DEGREE_TO_RAD,
+    opacity:
+      MIN_RING_OPACITY + random() * (MAX_RING_OPACITY - MIN_RING_OPACITY),
+    textureIndex:
+      random() < RING_TEXTURE_CHANCE
+        ? Math.floor(random() * numberOfTextures)
+        : undefined,
+    bandsSeed: random(),
+  };
+};
+
+/// Atmosphere of the planet with `seed`, if it has any
+export const createAtmosphere = (seed: number): AtmosphereInfo | undefined => {
+  const random = getPlanetRandom(seed, ATMOSPHERE_SEED_SALT);
+  if (random() >= ATMOSPHERE_CHANCE) {
+    return undefined;
+  }
+
+  return {
+    color: ATMOSPHERE_COLORS[Math.floor(random() * ATMOSPHERE_COLORS.length)],
+    thickness:
+      MIN_ATMOSPHERE_THICKNESS +
+      random() * (MAX_ATMOSPHERE_THICKNESS - MIN_ATMOSPHERE_THICKNESS),
+  };
+};
+
+/// Generates the planet at `index`, on its own orbit around the central mass.
+///
+/// @param{index}: where it is in the planets, farther ones have bigger orbits;
+/// @param{radius}: its radius, random if not given;
+/// @param{settings}: UI settings it depends on.
+//
+export const generatePlanet = ({
+  index,
+  radius,
+  settings,
+}: {
+  index: number;
+  radius?: number;
+  settings: GenerationSettings;
+}): GeneratedPlanet => {
+  const seed = getPlanetSeed(index);
+  const random = getPlanetRandom(seed, PLANET_SEED_SALT);
+  // Drawn even if it is given, so the rest of the planet is the same
+  const randomRadius = random() * 2 + 1;
+  const textureIndex = getRandomTextureIndex(settings.numberOfTextures, random);
+
+  const orbit = createOrbitalElements({ index, ...settings, random });
+  const { position, velocity } = orbitalElementsToStateVectors({
+    elements: orbit,
+    centralMass: settings.centralMass,
+  });
+
+  return {
+    radius: radius ?? randomRadius,
+    textureIndex,
+    mass: massFromRadius(radius ?? randomRadius),
+    position,
+    velocity,
+    acceleration: vec3.create(),
+    orbit,
+    seed,
+    ring: createRing({ seed, ...settings }),
+    atmosphere: createAtmosphere(seed),
+  };
+};
+
+/// Generates `numberOfPlanets` planets from `seed`: the same seed and settings
+/// always give the same planets. It sets the seed of `Random()`.
+export const generatePlanets = ({
+  seed,
+  numberOfPlanets,
+  settings,
+}: {
+  seed: number;
+  numberOfPlanets: number;
+  settings: GenerationSettings;
+}): GeneratedPlanet[] => {
+  Random().setSeed(seed);
+
+  return Array.from({ length: numberOfPlanets }, (_, index) =>
+    generatePlanet({ index, settings }),
+  );
+};
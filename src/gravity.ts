@@ -0,0 +1,190 @@
+import { vec3 } from "gl-matrix";
+import {
+  DEFAULT_BARNES_HUT_THETA,
+  GRAVITATIONAL_CONSTANT,
+  GRAVITY_SOFTENING,
+  GravitySolverEnum,
+  PLANET_DENSITY,
+} from "./constants";
+import { computeBarnesHutAccelerations } from "./barnesHut";
+import { PlanetInfo } from "./types";
+
+export type GravityBody = Pick<
+  PlanetInfo,
+  "mass" | "radius" | "position" | "velocity" | "acceleration"
+>;
+
+/// Mass of a planet of uniform density.
+export const massFromRadius = (radius: number) =>
+  PLANET_DENSITY * Math.pow(radius, 3);
+
+/// Radius of a planet of uniform density (inverse of `massFromRadius`).
+export const radiusFromMass = (mass: number) =>
+  Math.cbrt(mass / PLANET_DENSITY);
+
+/// Calculates (in place) the acceleration of every body due to all the
+/// other bodies and to a fixed central mass sitting at the origin.
+///
+/// The exact solver uses pairwise summation (O(n²)), exploiting Newton's third
+/// law to visit each pair only once. Barnes–Hut approximates it in O(n log n),
+/// see `barnesHut.ts`. The softening term keeps the acceleration finite when
+/// two bodies (almost) overlap.
+///
+/// @param{bodies}: the bodies to update;
+/// @param{centralMass}: mass of the fixed attractor at the origin (0 disables it);
+/// @param{solver}: how the attraction between the bodies is calculated;
+/// @param{theta}: opening angle of Barnes–Hut (unused by the exact solver).
+//
+export const computeAccelerations = ({
+  bodies,
+  centralMass,
+  solver = GravitySolverEnum.EXACT,
+  theta = DEFAULT_BARNES_HUT_THETA,
+}: {
+  bodies: GravityBody[];
+  centralMass: number;
+  solver?: GravitySolverEnum;
+  theta?: number;
+}) => {
+  const softeningSquared = GRAVITY_SOFTENING * GRAVITY_SOFTENING;
+
+  for (const body of bodies) {
+    const [x, y, z] = body.position;
+    const distanceSquared = x * x + y * y + z * z + softeningSquared;
+    const factor =
+      (-GRAVITATIONAL_CONSTANT * centralMass) /
+      (distanceSquared * Math.sqrt(distanceSquared));
+
+    vec3.set(body.acceleration, x * factor, y * factor, z * factor);
+  }
+
+  if (solver === GravitySolverEnum.BARNES_HUT) {
+    const accelerations = computeBarnesHutAccelerations({
+      centers: new Float32Array(
+        bodies.flatMap(({ position, radius }) => [...position, radius]),
+      ),
+      masses: new Float32Array(bodies.map(({ mass }) => mass)),
+      theta,
+    });
+    bodies.forEach(({ acceleration }, i) => {
+      acceleration[0] += accelerations[3 * i];
+      acceleration[1] += accelerations[3 * i + 1];
+      acceleration[2] += accelerations[3 * i + 2];
+    });
+    return;
+  }
+
+  for (let i = 0; i < bodies.length; i++) {
+    const a = bodies[i];
+
+    for (let j = i + 1; j < bodies.length; j++) {
+      const b = bodies[j];
+
+      const dx = b.position[0] - a.position[0];
+      const dy = b.position[1] - a.position[1];
+      const dz = b.position[2] - a.position[2];
+      const distanceSquared = dx * dx + dy * dy + dz * dz + softeningSquared;
+      const inverseDistanceCubed =
+        GRAVITATIONAL_CONSTANT / (distanceSquared * Math.sqrt(distanceSquared));
+
+      const factorA = b.mass * inverseDistanceCubed;
+      a.acceleration[0] += dx * factorA;
+      a.acceleration[1] += dy * factorA;
+      a.acceleration[2] += dz * factorA;
+
+      const factorB = a.mass * inverseDistanceCubed;
+      b.acceleration[0] -= dx * factorB;
+      b.acceleration[1] -= dy * factorB;
+      b.acceleration[2] -= dz * factorB;
+    }
+  }
+};
+
+/// Advances the bodies by `dt` using the velocity Verlet (kick-drift-kick)
+/// integrator.
+///
+/// It is symplectic, so the energy of the system oscillates around the
+/// correct value instead of drifting away like it would with explicit Euler.
+/// It expects `acceleration` to be up to date with the current positions
+/// (see `computeAccelerations`), and leaves it up to date for the next step.
+//
+export const stepVelocityVerlet = ({
+  bodies,
+  centralMass,
+  solver,
+  theta,
+  dt,
+}: {
+  bodies: GravityBody[];
+  centralMass: number;
+  solver?: GravitySolverEnum;
+  theta?: number;
+  dt: number;
+}) => {
+  const halfDt = dt / 2;
+
+  for (const body of bodies) {
+    vec3.scaleAndAdd(body.velocity, body.velocity, body.acceleration, halfDt);
+    vec3.scaleAndAdd(body.position, body.position, body.velocity, dt);
+  }
+
+  computeAccelerations({ bodies, centralMass, solver, theta });
+
+  for (const body of bodies) {
+    vec3.scaleAndAdd(body.velocity, body.velocity, body.acceleration, halfDt);
+  }
+};
+
+/// Compares the Barnes–Hut accelerations of the bodies with the exact ones
+/// (without changing them), to see how accurate and fast it is for a given θ.
+/// Only the attraction between the bodies is compared, as the central mass
+/// (the same for both) would hide the error.
+///
+/// @returns how long each solver took (ms) and the relative error of the
+/// Barnes–Hut accelerations (max and mean over the bodies).
+//
+export const compareGravitySolvers = ({
+  bodies,
+  theta,
+}: {
+  bodies: GravityBody[];
+  theta: number;
+}) => {
+  const solve = (solver: GravitySolverEnum) => {
+    const copies = bodies.map(({ mass, radius, position, velocity }) => ({
+      mass,
+      radius,
+      position,
+      velocity,
+      acceleration: vec3.create(),
+    }));
+
+    const start = performance.now();
+    computeAccelerations({ bodies: copies, centralMass: 0, solver, theta });
+    const time = performance.now() - start;
+
+    return {
+      time,
+      accelerations: copies.map(({ acceleration }) => acceleration),
+    };
+  };
+
+  const exact = solve(GravitySolverEnum.EXACT);
+  const barnesHut = solve(GravitySolverEnum.BARNES_HUT);
+
+  const errors = exact.accelerations.map((acceleration, i) => {
+    const magnitude = vec3.length(acceleration);
+    const error = vec3.distance(acceleration, barnesHut.accelerations[i]);
+    return magnitude > 0 ? error / magnitude : error;
+  });
+
+  return {
+    exactTime: exact.time,
+    barnesHutTime: barnesHut.time,
+    maxRelativeError: Math.max(0, ...errors),
+    meanRelativeError:
+      errors.length > 0
+        ? errors.reduce((sum, error) => sum + error, 0) / errors.length
+        : 0,
+  };
+};
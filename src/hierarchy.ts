@@ -0,0 +1,297 @@
+import { vec3 } from "gl-matrix";
+import { MAX_HIERARCHY_DEPTH } from "./constants";
+import { stateVectorsToOrbitalElements } from "./kepler";
+import { PlanetInfo, StateVectors } from "./types";
+
+/// Hierarchical orbits (scene graph)
+///
+/// Any planet can have a `parent`, in which case its orbit is around where the
+/// parent is (moons, moons of moons, ...) instead of around the central mass at
+/// the origin. A `binary` planet and its parent orbit their common barycenter
+/// instead, which is what moves along the parent's orbit.
+///
+/// For each planet, its orbit gives its state (position and velocity) relative
+/// to what it orbits (see `orbitalElementsToStateVectors`) and its world space
+/// state is the sum of the relative ones up the hierarchy:
+///
+///   world(p) = anchor(p) + w(p) * relative(p) - companionOffset(p)
+///
+/// where:
+///   - anchor(p) is the world state of the parent (or the origin), or the
+///     barycenter of the parent and `p` if `p` is binary;
+///   - w(p) is 1, or m(parent) / (m(parent) + m(p)) if `p` is binary;
+///   - companionOffset(p) is how much the binary companion `c` of `p` (if any)
+///     pulls it away from their barycenter: (1 - w(c)) * relative(c).
+///
+/// To keep it that simple, a planet can only have a single binary companion and
+/// a binary planet can't have one. Parents are always before their children in
+/// the planets buffers, so the rendered planets never have a parent that isn't.
+//
+
+/// Mass the planet orbits around (relative to its parent).
+export const getOrbitCentralMass = ({
+  body,
+  centralMass,
+}: {
+  body: PlanetInfo;
+  centralMass: number;
+}) => {
+  if (!body.parent) {
+    return centralMass;
+  }
+
+  return body.binary ? body.parent.mass + body.mass : body.parent.mass;
+};
+
+/// How much of the relative state of the pair a binary planet takes (see w(p) above).
+export const getBinaryWeight = (body: PlanetInfo) =>
+  body.binary && body.parent
+    ? body.parent.mass / (body.parent.mass + body.mass)
+    : 1;
+
+/// Binary companion of each planet (that has one).
+export const getBinaryCompanions = (bodies: PlanetInfo[]) =>
+  new Map(
+    bodies.flatMap((body) =>
+      body.binary && body.parent ? [[body.parent, body] as const] : [],
+    ),
+  );
+
+/// Parent of the planet, if it is one of `bodies` (e.g. rendered).
+export const getParentIdx = ({
+  body,
+  indices,
+}: {
+  body: PlanetInfo;
+  indices: Map<PlanetInfo, number>;
+}) => (body.parent ? (indices.get(body.parent) ?? -1) : -1);
+
+/// World space state of each planet, given the state relative to what it
+/// orbits. Same as `resolve_hierarchy` in `orbit.wgsl`.
+///
+/// @param{bodies}: the planets;
+/// @param{relativeStates}: state of each planet relative to what it orbits.
+//
+export const resolveHierarchy = ({
+  bodies,
+  relativeStates,
+}: {
+  bodies: PlanetInfo[];
+  relativeStates: StateVectors[];
+}): StateVectors[] => {
+  const indices = new Map(bodies.map((body, i) => [body, i]));
+  const companions = getBinaryCompanions(bodies);
+
+  // w(p) * relative(p) - companionOffset(p)
+  const addOffset = ({
+    state,
+    idx,
+    withCompanion,
+  }: {
+    state: StateVectors;
+    idx: number;
+    withCompanion: boolean;
+  }) => {
+    const body = bodies[idx];
+    const weight = getBinaryWeight(body);
+    vec3.scaleAndAdd(
+      state.position,
+      state.position,
+      relativeStates[idx].position,
+      weight,
+    );
+    vec3.scaleAndAdd(
+      state.velocity,
+      state.velocity,
+      relativeStates[idx].velocity,
+      weight,
+    );
+
+    const companion = companions.get(body);
+    const companionIdx = companion ? (indices.get(companion) ?? -1) : -1;
+    if (withCompanion && companionIdx >= 0) {
+      const companionWeight = 1 - getBinaryWeight(companion!);
+      vec3.scaleAndAdd(
+        state.position,
+        state.position,
+        relativeStates[companionIdx].position,
+        -companionWeight,
+      );
+      vec3.scaleAndAdd(
+        state.velocity,
+        state.velocity,
+        relativeStates[companionIdx].velocity,
+        -companionWeight,
+      );
+    }
+  };
+
+  return bodies.map((body, i) => {
+    const state = { position: vec3.create(), velocity: vec3.create() };
+    addOffset({ state, idx: i, withCompanion: true });
+
+    // Up the hierarchy: a binary planet is anchored at the barycenter, which
+    // is where its parent would be without it
+    let child = body;
+    let parentIdx = getParentIdx({ body, indices });
+    for (
+      let depth = 0;
+      depth < MAX_HIERARCHY_DEPTH && parentIdx >= 0;
+      depth++
+    ) {
+      addOffset({ state, idx: parentIdx, withCompanion: !child.binary });
+      child = bodies[parentIdx];
+      parentIdx = getParentIdx({ body: child, indices });
+    }
+
+    return state;
+  });
+};
+
+/// State of each planet relative to what it orbits, given the world space ones
+/// (inverse of `resolveHierarchy`).
+export const getRelativeStateVectors = (
+  bodies: PlanetInfo[],
+): StateVectors[] => {
+  const indices = new Map(bodies.map((body, i) => [body, i]));
+  const companions = getBinaryCompanions(bodies);
+
+  return bodies.map((body) => {
+    const parent = getParentIdx({ body, indices }) >= 0 ? body.parent : null;
+
+    // A binary pair orbits its barycenter, whose orbit is the one of the parent
+    const companion = companions.get(body);
+    const position = vec3.clone(body.position);
+    const velocity = vec3.clone(body.velocity);
+    if (companion && indices.has(companion)) {
+      const companionWeight = 1 - getBinaryWeight(companion);
+      vec3.lerp(position, position, companion.position, companionWeight);
+      vec3.lerp(velocity, velocity, companion.velocity, companionWeight);
+    }
+
+    if (parent) {
+      vec3.subtract(position, position, parent.position);
+      vec3.subtract(velocity, velocity, parent.velocity);
+    }
+
+    return { position, velocity };
+  });
+};
+
+/// Calculates (in place) the orbit of each planet from where it is (and how
+/// fast it is going) in world space, e.g. when switching to the ellipse mode.
+export const updateOrbitsFromStateVectors = ({
+  bodies,
+  centralMass,
+}: {
+  bodies: PlanetInfo[];
+  centralMass: number;
+}) => {
+  getRelativeStateVectors(bodies).forEach(({ position, velocity }, i) => {
+    bodies[i].orbit = stateVectorsToOrbitalElements({
+      position,
+      velocity,
+      centralMass: getOrbitCentralMass({ body: bodies[i], centralMass }),
+    });
+  });
+};
+
+/// How many parents there are above the planet.
+export const getHierarchyDepth = (body: PlanetInfo) => {
+  let depth = 0;
+  for (let parent = body.parent; parent; parent = parent.parent) {
+    depth++;
+  }
+  return depth;
+};
+
+/// Whether a new planet can orbit `parent` (see the restrictions above).
+export const canAttachToParent = ({
+  parent,
+  binary,
+  bodies,
+}: {
+  parent: PlanetInfo;
+  binary: boolean;
+  bodies: PlanetInfo[];
+}) => {
+  if (getHierarchyDepth(parent) + 1 > MAX_HIERARCHY_DEPTH) {
+    return false;
+  }
+
+  return (
+    !binary || (!parent.binary && !getBinaryCompanions(bodies).has(parent))
+  );
+};
+
+/// Places a new planet in world space around its parent, from its state
+/// relative to it. A binary planet pulls its parent away from where their
+/// barycenter is (momentum is conserved).
+export const attachToParent = ({
+  body,
+  parent,
+  binary,
+  relativeState,
+}: {
+  body: PlanetInfo;
+  parent: PlanetInfo;
+  binary: boolean;
+  relativeState: StateVectors;
+}) => {
+  body.parent = parent;
+  body.binary = binary;
+
+  const weight = getBinaryWeight(body);
+  const barycenter = vec3.clone(parent.position);
+  const barycenterVelocity = vec3.clone(parent.velocity);
+
+  vec3.scaleAndAdd(body.position, barycenter, relativeState.position, weight);
+  vec3.scaleAndAdd(
+    body.velocity,
+    barycenterVelocity,
+    relativeState.velocity,
+    weight,
+  );
+
+  if (binary) {
+    vec3.scaleAndAdd(
+      parent.position,
+      barycenter,
+      relativeState.position,
+      weight - 1,
+    );
+    vec3.scaleAndAdd(
+      parent.velocity,
+      barycenterVelocity,
+      relativeState.velocity,
+      weight - 1,
+    );
+  }
+};
+
+/// When planets are removed, the ones orbiting them go up the hierarchy (to the
+/// first parent that is not being removed), keeping where they are.
+///
+/// @returns the planets whose parent has changed.
+//
+export const detachFromRemovedParents = ({
+  bodies,
+  removedBodies,
+}: {
+  bodies: PlanetInfo[];
+  removedBodies: Set<PlanetInfo>;
+}) =>
+  bodies.filter((body) => {
+    if (!body.parent || !removedBodies.has(body.parent)) {
+      return false;
+    }
+
+    let parent: PlanetInfo | undefined = body.parent;
+    while (parent && removedBodies.has(parent)) {
+      parent = parent.parent;
+    }
+    body.parent = parent;
+    body.binary = false;
+
+    return true;
+  });
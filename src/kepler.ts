@@ -0,0 +1,218 @@
+import { vec3 } from "gl-matrix";
+import {
+  GRAVITATIONAL_CONSTANT,
+  KEPLER_MAX_ITERATIONS,
+  KEPLER_TOLERANCE,
+  MAX_ECCENTRICITY,
+} from "./constants";
+import { OrbitalElements, StateVectors } from "./types";
+
+const TWO_PI = 2 * Math.PI;
+const EPSILON = 1e-9;
+
+const wrapAngle = (angle: number) => ((angle % TWO_PI) + TWO_PI) % TWO_PI;
+
+/// Mean motion (n), the average angular speed of the body along its orbit.
+///
+///   n = sqrt(G * M / a^3)
+//
+export const meanMotion = ({
+  semiMajorAxis,
+  centralMass,
+}: {
+  semiMajorAxis: number;
+  centralMass: number;
+}) =>
+  Math.sqrt(
+    (GRAVITATIONAL_CONSTANT * centralMass) / Math.pow(semiMajorAxis, 3),
+  );
+
+/// Solves Kepler's equation for the eccentric anomaly (E):
+///
+///   M = E - e * sin(E)
+///
+/// There is no closed form, so it uses Newton-Raphson iterations:
+///
+///   E_{n+1} = E_n - (E_n - e * sin(E_n) - M) / (1 - e * cos(E_n))
+///
+/// Starting from E = π for high eccentricities makes it converge even when
+/// the body is close to the periapsis of very elongated orbits.
+//
+export const solveKeplerEquation = ({
+  meanAnomaly,
+  eccentricity,
+}: {
+  meanAnomaly: number;
+  eccentricity: number;
+}): number => {
+  const M = wrapAngle(meanAnomaly);
+  let E = eccentricity < 0.8 ? M : Math.PI;
+
+  for (let i = 0; i < KEPLER_MAX_ITERATIONS; i++) {
+    const delta =
+      (E - eccentricity * Math.sin(E) - M) / (1 - eccentricity * Math.cos(E));
+    E -= delta;
+
+    if (Math.abs(delta) < KEPLER_TOLERANCE) {
+      break;
+    }
+  }
+
+  return E;
+};
+
+/// Calculates the position and velocity (in world space) of a body given its
+/// orbital elements.
+///
+/// The body is first placed in the perifocal frame (the orbit lies on the
+/// x'y' plane with the periapsis on +x') and then rotated by
+/// Rz(Ω) * Rx(i) * Rz(ω).
+//
+export const orbitalElementsToStateVectors = ({
+  elements,
+  centralMass,
+}: {
+  elements: OrbitalElements;
+  centralMass: number;
+}): StateVectors => {
+  const {
+    semiMajorAxis: a,
+    eccentricity: e,
+    inclination,
+    longitudeOfAscendingNode,
+    argumentOfPeriapsis,
+    meanAnomaly,
+  } = elements;
+
+  const E = solveKeplerEquation({ meanAnomaly, eccentricity: e });
+  const cosE = Math.cos(E);
+  const sinE = Math.sin(E);
+  const b = a * Math.sqrt(1 - e * e);
+  const n = meanMotion({ semiMajorAxis: a, centralMass });
+
+  // Perifocal frame
+  const xP = a * (cosE - e);
+  const yP = b * sinE;
+  const EDot = n / (1 - e * cosE);
+  const vxP = -a * sinE * EDot;
+  const vyP = b * cosE * EDot;
+
+  const cosO = Math.cos(longitudeOfAscendingNode);
+  const sinO = Math.sin(longitudeOfAscendingNode);
+  const cosW = Math.cos(argumentOfPeriapsis);
+  const sinW = Math.sin(argumentOfPeriapsis);
+  const cosI = Math.cos(inclination);
+  const sinI = Math.sin(inclination);
+
+  // Columns of the rotation matrix that take x' and y' into world space
+  const px = cosO * cosW - sinO * sinW * cosI;
+  const py = sinO * cosW + cosO * sinW * cosI;
+  const pz = sinW * sinI;
+  const qx = -cosO * sinW - sinO * cosW * cosI;
+  const qy = -sinO * sinW + cosO * cosW * cosI;
+  const qz = cosW * sinI;
+
+  return {
+    position: vec3.fromValues(
+      xP * px + yP * qx,
+      xP * py + yP * qy,
+      xP * pz + yP * qz,
+    ),
+    velocity: vec3.fromValues(
+      vxP * px + vyP * qx,
+      vxP * py + vyP * qy,
+      vxP * pz + vyP * qz,
+    ),
+  };
+};
+
+/// Calculates the (osculating) orbital elements of a body given its position
+/// and velocity, i.e. the Keplerian orbit it would follow from now on if only
+/// the central mass attracted it.
+///
+/// Unbound (parabolic/hyperbolic) trajectories can't be represented by an ellipse,
+/// so the eccentricity is clamped to `MAX_ECCENTRICITY`.
+//
+export const stateVectorsToOrbitalElements = ({
+  position,
+  velocity,
+  centralMass,
+}: StateVectors & { centralMass: number }): OrbitalElements => {
+  const mu = GRAVITATIONAL_CONSTANT * centralMass;
+  const r = vec3.length(position);
+  const v2 = vec3.squaredLength(velocity);
+  const rDotV = vec3.dot(position, velocity);
+
+  const h = vec3.cross(vec3.create(), position, velocity);
+  const hLength = vec3.length(h);
+  const node = vec3.fromValues(-h[1], h[0], 0); // k × h
+  const nodeLength = vec3.length(node);
+
+  // e = ((v² - μ/r) * r - (r·v) * v) / μ
+  const eccentricityVector = vec3.create();
+  if (mu > 0) {
+    vec3.scale(eccentricityVector, position, v2 - mu / r);
+    vec3.scaleAndAdd(eccentricityVector, eccentricityVector, velocity, -rDotV);
+    vec3.scale(eccentricityVector, eccentricityVector, 1 / mu);
+  }
+  const eccentricity = Math.min(
+    vec3.length(eccentricityVector),
+    MAX_ECCENTRICITY,
+  );
+
+  const energy = v2 / 2 - mu / r;
+  const semiMajorAxis = energy < 0 ? -mu / (2 * energy) : r;
+
+  const inclination = hLength > EPSILON ? Math.acos(h[2] / hLength) : 0;
+
+  const longitudeOfAscendingNode =
+    nodeLength > EPSILON ? wrapAngle(Math.atan2(node[1], node[0])) : 0;
+
+  // Angle from the ascending node (or +X for equatorial orbits) to the position,
+  // measured in the orbital plane
+  const argumentOfLatitude = (() => {
+    if (nodeLength > EPSILON) {
+      const cosU = vec3.dot(node, position) / (nodeLength * r);
+      const u = Math.acos(Math.min(Math.max(cosU, -1), 1));
+      return position[2] < 0 ? TWO_PI - u : u;
+    }
+    const u = Math.atan2(position[1], position[0]);
+    return wrapAngle(h[2] < 0 ? -u : u);
+  })();
+
+  if (eccentricity < EPSILON) {
+    // Circular: the periapsis is anywhere, so put it on the ascending node
+    return {
+      semiMajorAxis,
+      eccentricity,
+      inclination,
+      longitudeOfAscendingNode,
+      argumentOfPeriapsis: 0,
+      meanAnomaly: argumentOfLatitude,
+    };
+  }
+
+  const cosNu =
+    vec3.dot(eccentricityVector, position) /
+    (vec3.length(eccentricityVector) * r);
+  let trueAnomaly = Math.acos(Math.min(Math.max(cosNu, -1), 1));
+  if (rDotV < 0) {
+    trueAnomaly = TWO_PI - trueAnomaly;
+  }
+
+  const E =
+    2 *
+    Math.atan(
+      Math.sqrt((1 - eccentricity) / (1 + eccentricity)) *
+        Math.tan(trueAnomaly / 2),
+    );
+
+  return {
+    semiMajorAxis,
+    eccentricity,
+    inclination,
+    longitudeOfAscendingNode,
+    argumentOfPeriapsis: wrapAngle(argumentOfLatitude - trueAnomaly),
+    meanAnomaly: wrapAngle(E - eccentricity * Math.sin(E)),
+  };
+};
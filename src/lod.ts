@@ -0,0 +1,549 @@
+import { vec3 } from "gl-matrix";
+import {
+  FIELD_OF_VIEW,
+  LOD_HYSTERESIS,
+  LOD_LEVELS,
+  LOD_SCREEN_RADII,
+  LOD_UNIFORM_BYTE_LENGTH,
+  MIN_LAT_BANDS,
+  MIN_LONG_BANDS,
+  WORKGROUP_SIZE,
+} from "./constants";
+import { Observer } from "./observer";
+import { PlanetInfo } from "./types";
+import { UI_SETTINGS } from "./ui";
+import { createSphereMesh, growCapacity } from "./utils";
+import lodWGSL from "./shaders/lod.wgsl?raw";
+
+const DRAW_ARGUMENTS = 5; // indexCount, instanceCount, firstIndex, baseVertex, firstInstance
+
+/// Same as `is_in_frustum` in `lod.wgsl`
+const isInFrustum = ({
+  center,
+  radius,
+  frustumPlanes,
+}: {
+  center: vec3;
+  radius: number;
+  frustumPlanes: Float32Array;
+}) => {
+  for (let i = 0; i < 6; i++) {
+    const [a, b, c, d] = frustumPlanes.subarray(i * 4, i * 4 + 4);
+    if (a * center[0] + b * center[1] + c * center[2] + d < -radius) {
+      return false;
+    }
+  }
+  return true;
+};
+
+/// Same as `select_lod` in `lod.wgsl`
+const selectLod = (screenRadius: number, previousLod: number) => {
+  let lod = 0;
+  LOD_SCREEN_RADII.forEach((threshold, i) => {
+    const hysteresis = previousLod > i ? LOD_HYSTERESIS : -LOD_HYSTERESIS;
+    if (screenRadius < threshold * (1 + hysteresis)) {
+      lod = i + 1;
+    }
+  });
+  return lod;
+};
+
+type LodMesh = {
+  vertexBuffer: GPUBuffer; // position, texCoords and normals
+  indexBuffer: GPUBuffer;
+  indexCount: number;
+};
+
+/// Instanced draw of the planets of a texture at a level of detail. Its
+/// instance count is written by the GPU (or by the CPU fallback).
+export type LodDraw = {
+  lod: number;
+  texture: GPUTexture;
+  instancesOffset: number; // bytes, in the instances buffer
+  drawArgumentsOffset: number; // bytes, in the indirect draw arguments buffer
+};
+
+/// Levels of detail of the planets
+///
+/// All the planets share the same unit sphere meshes: LOD 0 has `latBands` ×
+/// `longBands` and each LOD after it has half the bands of the previous one.
+/// Every frame, a compute pass (see `lod.wgsl`) culls the planets out of the
+/// view frustum (bounding spheres) and chooses the LOD of the others from their
+/// radius on screen, with some hysteresis so planets don't pop back and forth.
+/// Then it writes the instances and the (indirect) arguments of the draws: one
+/// per texture and LOD.
+///
+/// The CPU fallback does the same with where the planets are on the CPU, and
+/// writes the results to the same buffers.
+///
+/// Only the planet draws (and the atmospheres, which reuse them) are culled.
+/// The tails are not: a tail goes back along the whole path of its planet, so
+/// most of it can be on screen while the planet is not. The collisions are not
+/// either: they are about the whole simulation, and the planets off screen
+/// still collide.
+//
+export const LevelsOfDetail = ({ device }: { device: GPUDevice }) => {
+  let meshes: LodMesh[] = [];
+
+  // How many planets fit in the buffers (only grows)
+  let capacity = 0;
+  let instancesBuffer: GPUBuffer;
+  let groupFirstInstanceBuffer: GPUBuffer;
+  let planetLodsBuffer: GPUBuffer;
+  let lodInstancesBuffer: GPUBuffer;
+  let drawArgumentsBuffer: GPUBuffer;
+  let planetLods = new Uint32Array(); // of the CPU fallback
+
+  let draws: LodDraw[] = [];
+
+  // The draw arguments of a frame are read back to count the visible planets
+  const stagingBuffer: { buffer: GPUBuffer | null; inFlight: boolean } = {
+    buffer: null,
+    inFlight: false,
+  };
+  let pendingReadBack: {
+    size: number;
+    numberOfPlanets: number;
+  } | null = null;
+
+  const getMesh = (lod: number) => meshes[lod];
+  const getDraws = () => draws;
+  const getLodInstancesBuffer = () => lodInstancesBuffer;
+  const getDrawArgumentsBuffer = () => drawArgumentsBuffer;
+  const getPlanetLodsBuffer = () => planetLodsBuffer;
+
+  /// Pixels of something of size 1 at distance 1
+  const getProjectionScale = (viewportHeight: number) =>
+    viewportHeight / 2 / Math.tan(FIELD_OF_VIEW / 2);
+
+  /// Set observers
+  (["latBands", "longBands"] as const).forEach((topic) => {
+    Observer().subscribe(topic, {
+      id: "lod.ts",
+      callback: (_bands) => {
+        createMeshes();
+      },
+    });
+  });
+
+  const paramsBuffer = device.createBuffer({
+    label: "lod params buffer",
+    size: LOD_UNIFORM_BYTE_LENGTH,
+    usage: GPUBufferUsage.UNIFORM | GPUBufferUsage.COPY_DST,
+  });
+
+  const bindGroupLayout = device.createBindGroupLayout({
+    label: "lod bind group layout",
+    entries: [
+      {
+        binding: 0, // params
+        visibility: GPUShaderStage.COMPUTE,
+        buffer: { type: "uniform" },
+      },
+      {
+        binding: 1, // planet and group of each instance
+        visibility: GPUShaderStage.COMPUTE,
+        buffer: { type: "read-only-storage" },
+      },
+      {
+        binding: 2, // first instance of each group
+        visibility: GPUShaderStage.COMPUTE,
+        buffer: { type: "read-only-storage" },
+      },
+      {
+        binding: 3, // Planets center point in world space + radius
+        visibility: GPUShaderStage.COMPUTE,
+        buffer: { type: "read-only-storage" },
+      },
+      {
+        binding: 4, // LOD of each planet
+        visibility: GPUShaderStage.COMPUTE,
+        buffer: { type: "storage" },
+      },
+      {
+        binding: 5, // planet of each instance, LOD after LOD
+        visibility: GPUShaderStage.COMPUTE,
+        buffer: { type: "storage" },
+      },
+      {
+        binding: 6, // indirect draw arguments
+        visibility: GPUShaderStage.COMPUTE,
+        buffer: { type: "storage" },
+      },
+    ],
+  });
+
+  const pipeline = device.createComputePipeline({
+    label: "lod select_levels_of_detail pipeline",
+    layout: device.createPipelineLayout({
+      bindGroupLayouts: [bindGroupLayout],
+    }),
+    compute: {
+      module: device.createShaderModule({ code: lodWGSL }),
+      entryPoint: "select_levels_of_detail",
+    },
+  });
+
+  function createMeshes() {
+    meshes.forEach(({ vertexBuffer, indexBuffer }) => {
+      vertexBuffer.destroy();
+      indexBuffer.destroy();
+    });
+
+    meshes = Array.from({ length: LOD_LEVELS }, (_, lod) => {
+      const { vertices, indices } = createSphereMesh({
+        radius: 1,
+        latBands: Math.max(MIN_LAT_BANDS, UI_SETTINGS.latBands >> lod),
+        longBands: Math.max(MIN_LONG_BANDS, UI_SETTINGS.longBands >> lod),
+      });
+
+      const vertexBuffer = device.createBuffer({
+        label: `sphere LOD ${lod} vertices buffer`,
+        size: vertices.length * Float32Array.BYTES_PER_ELEMENT,
+        usage: GPUBufferUsage.VERTEX,
+        mappedAtCreation: true,
+      });
+      new Float32Array(vertexBuffer.getMappedRange()).set(vertices);
+      vertexBuffer.unmap();
+
+      const indexBuffer = device.createBuffer({
+        label: `sphere LOD ${lod} index buffer`,
+        size: indices.length * Uint32Array.BYTES_PER_ELEMENT,
+        usage: GPUBufferUsage.INDEX,
+        mappedAtCreation: true,
+      });
+      new Uint32Array(indexBuffer.getMappedRange()).set(indices);
+      indexBuffer.unmap();
+
+      return { vertexBuffer, indexBuffer, indexCount: indices.length };
+    });
+  }
+  createMeshes();
+
+  /// Makes room for (at least) `numberOfPlanets` (see `growCapacity`)
+  function ensureCapacity(numberOfPlanets: number) {
+    const newCapacity = growCapacity({
+      count: numberOfPlanets,
+      capacity,
+      buffers: [
+        instancesBuffer,
+        groupFirstInstanceBuffer,
+        planetLodsBuffer,
+        lodInstancesBuffer,
+        drawArgumentsBuffer,
+      ],
+    });
+    if (newCapacity === null) {
+      return;
+    }
+
+    capacity = newCapacity;
+    planetLods = new Uint32Array(capacity);
+
+    instancesBuffer = device.createBuffer({
+      label: "lod instances buffer",
+      size: capacity * Uint32Array.BYTES_PER_ELEMENT * 2, // (planet, group) * instances
+      usage: GPUBufferUsage.STORAGE | GPUBufferUsage.COPY_DST,
+    });
+
+    // There are at most as many groups (textures) as planets
+    groupFirstInstanceBuffer = device.createBuffer({
+      label: "lod group first instance buffer",
+      size: capacity * Uint32Array.BYTES_PER_ELEMENT,
+      usage: GPUBufferUsage.STORAGE | GPUBufferUsage.COPY_DST,
+    });
+
+    // Starts at LOD 0 (the finest mesh)
+    planetLodsBuffer = device.createBuffer({
+      label: "lod planet lods buffer",
+      size: capacity * Uint32Array.BYTES_PER_ELEMENT,
+      usage: GPUBufferUsage.STORAGE | GPUBufferUsage.COPY_DST, // written by the CPU fallback
+    });
+
+    lodInstancesBuffer = device.createBuffer({
+      label: "lod planet of each instance buffer",
+      size: LOD_LEVELS * capacity * Uint32Array.BYTES_PER_ELEMENT,
+      usage:
+        GPUBufferUsage.STORAGE |
+        GPUBufferUsage.VERTEX |
+        GPUBufferUsage.COPY_DST, // written by the compute pass (or the CPU fallback), instance step of the render pass
+    });
+
+    drawArgumentsBuffer = device.createBuffer({
+      label: "lod indirect draw arguments buffer",
+      size:
+        LOD_LEVELS * capacity * DRAW_ARGUMENTS * Uint32Array.BYTES_PER_ELEMENT,
+      usage:
+        GPUBufferUsage.STORAGE |
+        GPUBufferUsage.INDIRECT |
+        GPUBufferUsage.COPY_DST,
+    });
+  }
+
+  /// Encodes the compute pass that culls the planets and chooses the LOD of
+  /// the visible ones, and writes the draws of the current frame (see
+  /// `getDraws`). With `onGPU` off, it is done on the CPU instead.
+  ///
+  /// @param{commandEncoder}: encoder of the current frame, before the render pass;
+  /// @param{planetsBuffers}: the planets, the first `numberOfPlanets` are drawn;
+  /// @param{numberOfPlanets}: how many planets are drawn;
+  /// @param{planetsCentersBuffer}: where the planets are in the current frame (and their radius);
+  /// @param{cameraPosition}: where the planets are seen from (world space);
+  /// @param{viewportHeight}: in pixels;
+  /// @param{frustumPlanes}: of the camera (see `getFrustumPlanes`);
+  /// @param{cull}: planets out of the view frustum are not drawn;
+  /// @param{onGPU}: the CPU fallback uses where the planets are on the CPU, which must be up to date.
+  //
+  function selectLevelsOfDetail({
+    commandEncoder,
+    planetsBuffers,
+    numberOfPlanets,
+    planetsCentersBuffer,
+    cameraPosition,
+    viewportHeight,
+    frustumPlanes,
+    cull,
+    onGPU,
+  }: {
+    commandEncoder: GPUCommandEncoder;
+    planetsBuffers: PlanetInfo[];
+    numberOfPlanets: number;
+    planetsCentersBuffer: GPUBuffer;
+    cameraPosition: vec3;
+    viewportHeight: number;
+    frustumPlanes: Float32Array;
+    cull: boolean;
+    onGPU: boolean;
+  }) {
+    draws = [];
+    if (numberOfPlanets === 0) {
+      Observer().notify("visiblePlanets", { visible: 0, total: 0 });
+      return;
+    }
+    ensureCapacity(numberOfPlanets);
+
+    // Group the planets by texture, so each texture is a single instanced draw (per LOD)
+    const planetsByTexture = new Map<GPUTexture, number[]>();
+    for (let i = 0; i < numberOfPlanets; i++) {
+      const texture = planetsBuffers[i].texture!;
+      const planets = planetsByTexture.get(texture);
+      if (planets) {
+        planets.push(i);
+      } else {
+        planetsByTexture.set(texture, [i]);
+      }
+    }
+
+    const numberOfGroups = planetsByTexture.size;
+    const instances = new Uint32Array(numberOfPlanets * 2);
+    const groupFirstInstance = new Uint32Array(numberOfGroups);
+    const textures: GPUTexture[] = [];
+    let firstInstance = 0;
+    planetsByTexture.forEach((planets, texture) => {
+      planets.forEach((planet, i) => {
+        instances.set([planet, textures.length], (firstInstance + i) * 2);
+      });
+      groupFirstInstance[textures.length] = firstInstance;
+      textures.push(texture);
+      firstInstance += planets.length;
+    });
+
+    // Every draw starts with no instances, the compute pass adds them
+    const drawArguments = new Uint32Array(
+      LOD_LEVELS * numberOfGroups * DRAW_ARGUMENTS,
+    );
+    for (let lod = 0; lod < LOD_LEVELS; lod++) {
+      textures.forEach((texture, group) => {
+        const draw = lod * numberOfGroups + group;
+        drawArguments[draw * DRAW_ARGUMENTS] = meshes[lod].indexCount;
+        draws.push({
+          lod,
+          texture,
+          instancesOffset:
+            (lod * numberOfPlanets + groupFirstInstance[group]) *
+            Uint32Array.BYTES_PER_ELEMENT,
+          drawArgumentsOffset:
+            draw * DRAW_ARGUMENTS * Uint32Array.BYTES_PER_ELEMENT,
+        });
+      });
+    }
+
+    if (!onGPU) {
+      selectLevelsOfDetailOnCPU({
+        planetsBuffers,
+        numberOfPlanets,
+        numberOfGroups,
+        instances,
+        groupFirstInstance,
+        drawArguments,
+        cameraPosition,
+        viewportHeight,
+        frustumPlanes,
+        cull,
+      });
+      return;
+    }
+
+    const params = new ArrayBuffer(LOD_UNIFORM_BYTE_LENGTH);
+    new Float32Array(params, 0, 8).set([
+      ...cameraPosition,
+      getProjectionScale(viewportHeight),
+      ...LOD_SCREEN_RADII,
+      LOD_HYSTERESIS,
+    ]);
+    new Uint32Array(params, 8 * 4, 3).set([
+      numberOfPlanets,
+      numberOfGroups,
+      cull ? 1 : 0,
+    ]);
+    new Float32Array(params, 12 * 4, 6 * 4).set(frustumPlanes);
+
+    device.queue.writeBuffer(paramsBuffer, 0, params);
+    device.queue.writeBuffer(instancesBuffer, 0, instances);
+    device.queue.writeBuffer(groupFirstInstanceBuffer, 0, groupFirstInstance);
+    device.queue.writeBuffer(drawArgumentsBuffer, 0, drawArguments);
+
+    // The centers buffer is recreated when it grows
+    const bindGroup = device.createBindGroup({
+      label: "lod bind group",
+      layout: bindGroupLayout,
+      entries: [
+        { binding: 0, resource: { buffer: paramsBuffer } },
+        { binding: 1, resource: { buffer: instancesBuffer } },
+        { binding: 2, resource: { buffer: groupFirstInstanceBuffer } },
+        { binding: 3, resource: { buffer: planetsCentersBuffer } },
+        { binding: 4, resource: { buffer: planetLodsBuffer } },
+        { binding: 5, resource: { buffer: lodInstancesBuffer } },
+        { binding: 6, resource: { buffer: drawArgumentsBuffer } },
+      ],
+    });
+
+    const computePass = commandEncoder.beginComputePass({
+      label: "lod compute pass",
+    });
+    computePass.setPipeline(pipeline);
+    computePass.setBindGroup(0, bindGroup);
+    computePass.dispatchWorkgroups(Math.ceil(numberOfPlanets / WORKGROUP_SIZE));
+    computePass.end();
+
+    // Only one read back at a time, the count skips the frames in between
+    if (!stagingBuffer.inFlight) {
+      const size = drawArguments.byteLength;
+      if (!stagingBuffer.buffer || stagingBuffer.buffer.size < size) {
+        stagingBuffer.buffer?.destroy();
+        stagingBuffer.buffer = device.createBuffer({
+          label: "lod draw arguments staging buffer",
+          size: drawArgumentsBuffer.size,
+          usage: GPUBufferUsage.COPY_DST | GPUBufferUsage.MAP_READ,
+        });
+      }
+      commandEncoder.copyBufferToBuffer(
+        drawArgumentsBuffer,
+        0,
+        stagingBuffer.buffer,
+        0,
+        size,
+      );
+      pendingReadBack = { size, numberOfPlanets };
+    }
+  }
+
+  /// Same as the compute pass, with where the planets are on the CPU. The
+  /// results are written to the same buffers, so the render pass is the same.
+  function selectLevelsOfDetailOnCPU({
+    planetsBuffers,
+    numberOfPlanets,
+    numberOfGroups,
+    instances,
+    groupFirstInstance,
+    drawArguments,
+    cameraPosition,
+    viewportHeight,
+    frustumPlanes,
+    cull,
+  }: {
+    planetsBuffers: PlanetInfo[];
+    numberOfPlanets: number;
+    numberOfGroups: number;
+    instances: Uint32Array;
+    groupFirstInstance: Uint32Array;
+    drawArguments: Uint32Array;
+    cameraPosition: vec3;
+    viewportHeight: number;
+    frustumPlanes: Float32Array;
+    cull: boolean;
+  }) {
+    const projectionScale = getProjectionScale(viewportHeight);
+    const lodInstances = new Uint32Array(LOD_LEVELS * numberOfPlanets);
+    let visible = 0;
+
+    for (let i = 0; i < numberOfPlanets; i++) {
+      const planet = instances[i * 2];
+      const group = instances[i * 2 + 1];
+      const { position, radius } = planetsBuffers[planet];
+
+      if (cull && !isInFrustum({ center: position, radius, frustumPlanes })) {
+        continue;
+      }
+      visible++;
+
+      const distance = vec3.distance(position, cameraPosition);
+      const screenRadius =
+        distance <= radius ? Infinity : (radius / distance) * projectionScale;
+      const lod = selectLod(screenRadius, planetLods[planet]);
+      planetLods[planet] = lod;
+
+      const draw = lod * numberOfGroups + group;
+      const slot = drawArguments[draw * DRAW_ARGUMENTS + 1]++;
+      lodInstances[lod * numberOfPlanets + groupFirstInstance[group] + slot] =
+        planet;
+    }
+
+    device.queue.writeBuffer(lodInstancesBuffer, 0, lodInstances);
+    device.queue.writeBuffer(planetLodsBuffer, 0, planetLods);
+    device.queue.writeBuffer(drawArgumentsBuffer, 0, drawArguments);
+
+    pendingReadBack = null;
+    Observer().notify("visiblePlanets", { visible, total: numberOfPlanets });
+  }
+
+  /// Reads back the draw arguments of the frame (once it is submitted) and
+  /// notifies how many planets are drawn. The CPU fallback already has.
+  async function countVisiblePlanets() {
+    if (!pendingReadBack || stagingBuffer.inFlight) {
+      return;
+    }
+    const { size, numberOfPlanets } = pendingReadBack;
+    const buffer = stagingBuffer.buffer!;
+    pendingReadBack = null;
+    stagingBuffer.inFlight = true;
+
+    try {
+      await buffer.mapAsync(GPUMapMode.READ, 0, size);
+    } catch (error) {
+      console.error("Failed to read the draw arguments back", error);
+      stagingBuffer.inFlight = false;
+      return;
+    }
+
+    const drawArguments = new Uint32Array(buffer.getMappedRange(0, size));
+    let visible = 0;
+    for (let i = 1; i < drawArguments.length; i += DRAW_ARGUMENTS) {
+      visible += drawArguments[i]; // instance count
+    }
+    buffer.unmap();
+    stagingBuffer.inFlight = false;
+
+    Observer().notify("visiblePlanets", { visible, total: numberOfPlanets });
+  }
+
+  return {
+    countVisiblePlanets,
+    getDrawArgumentsBuffer,
+    getDraws,
+    getLodInstancesBuffer,
+    getMesh,
+    getPlanetLodsBuffer,
+    selectLevelsOfDetail,
+  };
+};
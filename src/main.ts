@@ -1,5 +1,3 @@
-// import { initScatteredPoints } from "./scattered-points";
-// initScatteredPoints();
 // import { init } from "./example";
 // init();
 import { initPlanet } from "./planet";
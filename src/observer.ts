@@ -1,19 +1,52 @@
 export type Topic =
+  | "seed" // Seed of the random generator: all the planets are generated again from it
   | "planets" // Number of planets
+  | "addPlanet" // Add a single planet, orbiting the one chosen in the UI (if any)
   | "renderPlanets"
+  | "rings" // UI setting of the chance of a planet to have rings, they are generated again
+  | "renderRings" // Actually render the rings of the planets (see-through, after everything opaque)
+  | "updateModelMatrices" // Actually move the planets and compute their model matrices (and center points) in the current frame
+  | "selectLevelsOfDetail" // Actually cull the planets and choose the mesh (LOD) of the others in the current frame, from how big they are on screen
+  | "countVisiblePlanets" // Actually read back how many planets are drawn in the current frame (once it is submitted)
+  | "visiblePlanets" // How many planets are drawn (not culled) and in total
   | "eccentricity"
   | "ellipseA"
   | "topology"
   | "latBands"
   | "longBands"
   | "enableArmor"
+  | "enableAtmosphere" // UI setting to enable the rendering of the atmospheres of the planets
+  | "renderAtmospheres" // Actually render the atmospheres of the planets (see-through, after everything opaque)
   | "enableTail" // UI setting to enable the rendering of tail
+  | "sampleTail" // Actually add the current center points of the planets to the tail
   | "renderTail" // Actually render the tail
+  | "starfield" // UI settings of the spiral galaxy in the background (arms, winding, ...), it is generated again
+  | "renderStarfield" // Actually render the spiral galaxy in the background
+  | "skybox" // UI setting of the environment around the scene, it is generated (or loaded) again
+  | "renderSkybox" // Actually render the environment around the scene, behind everything else
+  | "renderStar" // Actually render the star at the center of the orbits
+  | "renderBloom" // Actually draw the (HDR) scene on the canvas, with the bloom (if setting is activated)
   | "collisions" // Number of collisions found
   | "enableCollisions" // UI settings to enable the collisions
+  | "collisionResponse" // UI settings of what to do with planets that collided
+  | "collisionDetection" // UI settings of how collisions are detected (grid, brute force or CPU)
+  | "verifyCollisions" // UI settings to compare the GPU collisions with the CPU ones
+  | "restitution" // UI settings of how elastic the bounce between planets is
+  | "debrisCount" // UI settings of how many debris a fragmented collision creates
+  | "fragmentationSpeed" // UI settings of the impact speed above which planets shatter
   | "checkCollisions" // Actually check the collision in the current frame
   | "pointerEvents" // What has actually changed from the camera parameters (zoom, pan, rotation)
-  | "translationSpeed"; // planets translation speed
+  | "paused" // UI setting to pause the simulation clock
+  | "stepSimulation" // Advance the (paused) simulation by a single fixed step
+  | "timeScale" // How fast the simulated time goes in relation to real time
+  | "simulationStep" // Actually advance the physics by a fixed step (value is the dt)
+  | "simulationTime" // Current simulated time, in seconds
+  | "motionMode" // How planets move: along a fixed ellipse or under gravity
+  | "centralMass" // Mass of the fixed attractor at the origin (gravity mode)
+  | "gravitySolver" // How the planets attract each other: exact summation or Barnes–Hut (gravity mode)
+  | "barnesHutTheta" // Opening angle of Barnes–Hut: the larger, the faster and less accurate
+  | "compareGravitySolvers" // Log the error (and time) of Barnes–Hut against the exact summation
+  | "computeOrbitsOnGPU"; // UI setting to move the planets (and compute their model matrices) on the GPU or on the CPU
 
 type Subscriber = {
   id: string;
@@ -0,0 +1,287 @@
+import {
+  GRAVITATIONAL_CONSTANT,
+  MAT4X4_BYTE_LENGTH,
+  WORKGROUP_SIZE,
+} from "./constants";
+import {
+  getBinaryCompanions,
+  getBinaryWeight,
+  getOrbitCentralMass,
+  getParentIdx,
+} from "./hierarchy";
+import { PlanetInfo } from "./types";
+import { growCapacity } from "./utils";
+import orbitWGSL from "./shaders/orbit.wgsl?raw";
+
+/// GPU orbits
+///
+/// Orbital elements (or center points, in the gravity motion mode) of the
+/// planets live in storage buffers and a compute pass writes their center points
+/// and model matrices (see `orbit.wgsl`), going up the hierarchy of orbits (see
+/// `hierarchy.ts`) so they are in world space. The model matrices are laid out
+/// one after the other, same as the CPU ones, so the render pipelines read them
+/// as they are.
+//
+export const Orbits = ({ device }: { device: GPUDevice }) => {
+  // How many planets fit in the buffers (only grows)
+  let capacity = 0;
+  let orbitsBuffer: GPUBuffer;
+  let relativeCentersBuffer: GPUBuffer;
+  let planetsCentersBuffer: GPUBuffer;
+  let modelMatricesBuffer: GPUBuffer;
+  let bindGroup: GPUBindGroup;
+
+  const getPlanetsCentersBuffer = () => planetsCentersBuffer;
+  const getModelMatricesBuffer = () => modelMatricesBuffer;
+
+  const paramsBuffer = device.createBuffer({
+    label: "orbits params buffer",
+    size: 4 * 4, // elapsedTime, rotation: f32, numberOfPlanets: u32 (+ padding)
+    usage: GPUBufferUsage.UNIFORM | GPUBufferUsage.COPY_DST,
+  });
+
+  const shaderModule = device.createShaderModule({ code: orbitWGSL });
+
+  const bindGroupLayout = device.createBindGroupLayout({
+    label: "orbits bind group layout",
+    entries: [
+      {
+        binding: 0, // params
+        visibility: GPUShaderStage.COMPUTE,
+        buffer: {
+          type: "uniform",
+        },
+      },
+      {
+        binding: 1, // orbital elements, radius and hierarchy
+        visibility: GPUShaderStage.COMPUTE,
+        buffer: {
+          type: "read-only-storage",
+        },
+      },
+      {
+        binding: 2, // Planets center point in world space + radius
+        visibility: GPUShaderStage.COMPUTE,
+        buffer: {
+          type: "storage",
+        },
+      },
+      {
+        binding: 3, // model matrices
+        visibility: GPUShaderStage.COMPUTE,
+        buffer: {
+          type: "storage",
+        },
+      },
+      {
+        binding: 4, // Planets center point relative to what they orbit + radius
+        visibility: GPUShaderStage.COMPUTE,
+        buffer: {
+          type: "storage",
+        },
+      },
+    ],
+  });
+
+  const pipelineLayout = device.createPipelineLayout({
+    bindGroupLayouts: [bindGroupLayout],
+  });
+
+  function createComputeShaderPipeline(entryPoint: string) {
+    return device.createComputePipeline({
+      label: `orbits ${entryPoint} pipeline`,
+      layout: pipelineLayout,
+      compute: {
+        module: shaderModule,
+        entryPoint,
+      },
+    });
+  }
+
+  const advanceKeplerOrbitsPipeline = createComputeShaderPipeline(
+    "advance_kepler_orbits",
+  );
+  const resolveHierarchyPipeline =
+    createComputeShaderPipeline("resolve_hierarchy");
+  const computeModelMatricesPipeline = createComputeShaderPipeline(
+    "compute_model_matrices",
+  );
+
+  /// Makes room for (at least) `numberOfPlanets` (see `growCapacity`)
+  function ensureCapacity(numberOfPlanets: number) {
+    const newCapacity = growCapacity({
+      count: numberOfPlanets,
+      capacity,
+      buffers: [
+        orbitsBuffer,
+        relativeCentersBuffer,
+        planetsCentersBuffer,
+        modelMatricesBuffer,
+      ],
+    });
+    if (newCapacity === null) {
+      return;
+    }
+
+    capacity = newCapacity;
+
+    orbitsBuffer = device.createBuffer({
+      label: "orbits orbital elements buffer",
+      size: capacity * Float32Array.BYTES_PER_ELEMENT * 12, // (a, e, i, Ω, ω, M, radius, mu, parent, companion, binary, weight) * planets
+      usage: GPUBufferUsage.STORAGE | GPUBufferUsage.COPY_DST,
+    });
+
+    relativeCentersBuffer = device.createBuffer({
+      label: "orbits planets relative center points and radius buffer",
+      size: capacity * Float32Array.BYTES_PER_ELEMENT * 4, // (x, y, z, r) * planets
+      usage: GPUBufferUsage.STORAGE,
+    });
+
+    planetsCentersBuffer = device.createBuffer({
+      label: "orbits planets center points and radius buffer",
+      size: capacity * Float32Array.BYTES_PER_ELEMENT * 4, // (x, y, z, r) * planets
+      usage:
+        GPUBufferUsage.STORAGE |
+        GPUBufferUsage.COPY_SRC |
+        GPUBufferUsage.COPY_DST, // INFO: COPY_SRC is used by the collisions and the tail, COPY_DST by the gravity mode
+    });
+
+    modelMatricesBuffer = device.createBuffer({
+      label: "orbits model matrices buffer",
+      size: capacity * MAT4X4_BYTE_LENGTH,
+      usage: GPUBufferUsage.STORAGE, // written by the compute pass, read by the render pass
+    });
+
+    bindGroup = device.createBindGroup({
+      label: "orbits bind group",
+      layout: bindGroupLayout,
+      entries: [
+        { binding: 0, resource: { buffer: paramsBuffer } },
+        { binding: 1, resource: { buffer: orbitsBuffer } },
+        { binding: 2, resource: { buffer: planetsCentersBuffer } },
+        { binding: 3, resource: { buffer: modelMatricesBuffer } },
+        { binding: 4, resource: { buffer: relativeCentersBuffer } },
+      ],
+    });
+  }
+
+  /// Uploads the orbits the planets are in right now (and what they orbit).
+  /// `elapsedTime` (see `computeModelMatrices`) is counted from here on.
+  ///
+  /// @param{bodies}: the planets to be moved;
+  /// @param{centralMass}: mass at the origin, orbited by the planets without a parent.
+  //
+  function uploadOrbits({
+    bodies,
+    centralMass,
+  }: {
+    bodies: PlanetInfo[];
+    centralMass: number;
+  }) {
+    ensureCapacity(bodies.length);
+
+    const indices = new Map(bodies.map((body, i) => [body, i]));
+    const companions = getBinaryCompanions(bodies);
+
+    const data = new ArrayBuffer(bodies.length * 12 * 4);
+    const floats = new Float32Array(data);
+    const integers = new Int32Array(data);
+    bodies.forEach((body, i) => {
+      const { orbit, radius } = body;
+      const companion = companions.get(body);
+
+      floats.set(
+        [
+          orbit.semiMajorAxis,
+          orbit.eccentricity,
+          orbit.inclination,
+          orbit.longitudeOfAscendingNode,
+          orbit.argumentOfPeriapsis,
+          orbit.meanAnomaly,
+          radius,
+          GRAVITATIONAL_CONSTANT * getOrbitCentralMass({ body, centralMass }),
+        ],
+        i * 12,
+      );
+      integers.set(
+        [
+          getParentIdx({ body, indices }),
+          companion ? (indices.get(companion) ?? -1) : -1,
+          body.binary ? 1 : 0,
+        ],
+        i * 12 + 8,
+      );
+      floats[i * 12 + 11] = getBinaryWeight(body);
+    });
+
+    device.queue.writeBuffer(orbitsBuffer, 0, data);
+  }
+
+  /// Uploads where the planets are right now (moved by the CPU).
+  function uploadPlanetsCenters(bodies: PlanetInfo[]) {
+    ensureCapacity(bodies.length);
+    device.queue.writeBuffer(
+      planetsCentersBuffer,
+      0,
+      new Float32Array(
+        bodies.flatMap(({ position, radius }) => [...position, radius]),
+      ),
+    );
+  }
+
+  /// Encodes the compute pass that writes the planets center points (if
+  /// `advanceOrbits`) and model matrices.
+  ///
+  /// @param{commandEncoder}: encoder of the current frame, before the render pass;
+  /// @param{numberOfPlanets}: how many planets are moved;
+  /// @param{advanceOrbits}: moves the planets along their uploaded orbits, otherwise the uploaded centers are used;
+  /// @param{elapsedTime}: simulated time since the orbits were uploaded;
+  /// @param{rotation}: angle (radians) of every planet around its own Z axis.
+  //
+  function computeModelMatrices({
+    commandEncoder,
+    numberOfPlanets,
+    advanceOrbits,
+    elapsedTime,
+    rotation,
+  }: {
+    commandEncoder: GPUCommandEncoder;
+    numberOfPlanets: number;
+    advanceOrbits: boolean;
+    elapsedTime: number;
+    rotation: number;
+  }) {
+    ensureCapacity(numberOfPlanets);
+
+    const params = new ArrayBuffer(paramsBuffer.size);
+    new Float32Array(params, 0, 2).set([elapsedTime, rotation % (2 * Math.PI)]);
+    new Uint32Array(params, 2 * 4, 1)[0] = numberOfPlanets;
+    device.queue.writeBuffer(paramsBuffer, 0, params);
+
+    const numberOfWorkgroups = Math.ceil(numberOfPlanets / WORKGROUP_SIZE);
+    const computePass = commandEncoder.beginComputePass({
+      label: "orbits compute pass",
+    });
+    computePass.setBindGroup(0, bindGroup);
+
+    if (advanceOrbits) {
+      computePass.setPipeline(advanceKeplerOrbitsPipeline);
+      computePass.dispatchWorkgroups(numberOfWorkgroups);
+
+      computePass.setPipeline(resolveHierarchyPipeline);
+      computePass.dispatchWorkgroups(numberOfWorkgroups);
+    }
+
+    computePass.setPipeline(computeModelMatricesPipeline);
+    computePass.dispatchWorkgroups(numberOfWorkgroups);
+    computePass.end();
+  }
+
+  return {
+    computeModelMatrices,
+    getModelMatricesBuffer,
+    getPlanetsCentersBuffer,
+    uploadOrbits,
+    uploadPlanetsCenters,
+  };
+};
@@ -1,44 +1,261 @@
 import {
-  CHECK_COLLISION_FREQUENCY,
+  CHECK_COLLISION_INTERVAL,
   COLLISION_CREATED_PLANET_RADIUS,
-  RENDER_TAIL_FREQUENCY,
+  CollisionResponseEnum,
+  DEBRIS_LIFETIME,
+  HDR_FORMAT,
+  MAX_PLANETS,
+  MIN_DEBRIS_RADIUS,
+  MIN_PLANETS,
+  MotionModeEnum,
+  RENDER_TAIL_INTERVAL,
 } from "./constants";
-import { getPlanetsCenterPointAndRadius } from "./utils";
 import { initWebGPUAndCanvas } from "./webgpu";
-import { vec4 } from "gl-matrix";
+import { vec3, vec4 } from "gl-matrix";
 import planetWGSL from "./shaders/planet.wgsl?raw";
 import Stats from "stats.js";
 import { SetupUI, UI_SETTINGS } from "./ui";
-import { CollisionPair } from "./types";
+import { CollisionPair, PlanetSpawnInfo } from "./types";
 import { Collisions } from "./collision";
 import { Tail } from "./tail";
+import { Starfield } from "./scattered-points";
+import { Skybox } from "./skybox";
+import { Star } from "./star";
+import { Bloom } from "./bloom";
 import { Render } from "./render";
 import { Observer } from "./observer";
 import { CreatePlanets } from "./createPlanets";
 import { SetupCamera } from "./camera";
+import { compareGravitySolvers, computeAccelerations } from "./gravity";
+import { canAttachToParent, updateOrbitsFromStateVectors } from "./hierarchy";
+import { IntervalTrigger, SimulationClock } from "./clock";
+import {
+  fragmentPlanets,
+  getImpactSpeed,
+  groupCollidingPlanets,
+  mergePlanets,
+  resolveBounces,
+} from "./collisionResponse";
 
 /// Setup observers
 const OBSERVER_ID = "planet.ts";
-const resetTailVariables = () => {
-  resetTailCenterPositionsComplete();
-  resetCoordinatesPerPlanet();
+/// The planets might have been moved by the GPU: the CPU must catch up before
+/// reading or changing them.
+const syncPlanetsWithGPU = () => {
+  syncPlanets({ planetsBuffers: getPlanetsBuffers() });
 };
 const updatePlanetsForComputeShaderCollision = () => {
   if (!UI_SETTINGS.enableCollisions) {
     return;
   }
 
-  const planetsCenterPointsAndRadius = getPlanetsCenterPointAndRadius({
-    numberOfPlanets: getNumberOfPlanets(),
-    planetsBuffers: getPlanetsBuffers(),
-    modelMatrixUniformBufferSize: getModelMatrixUniformBufferSize(),
-    allModelMatrices: getAllModelMatrices(),
-  }).map((item) => vec4.fromValues(item.x, item.y, item.z, item.radius));
+  const planets = getPlanetsBuffers().slice(0, getNumberOfPlanets());
+  const planetsCenterPointsAndRadius = planets.map(({ position, radius }) =>
+    vec4.fromValues(position[0], position[1], position[2], radius),
+  );
+
+  // Planets that didn't exist at the previous check are not swept
+  const planetsPreviousCenterPoints = planets.map(
+    ({ sweptPath, position }) => sweptPath?.from ?? position,
+  );
 
   recreateComputeShaderBuffers({
     numberOfPlanets: getNumberOfPlanets(),
     planetsCenterPointsAndRadius,
+    planetsPreviousCenterPoints,
+    planetsVelocities: planets.map(({ velocity }) => velocity),
+    planetsCentersBuffer: getPlanetsCentersBuffer(),
+  });
+};
+/// The planets jump to their new orbits: that is not a path they went through
+const resetSweptPaths = () => {
+  getPlanetsBuffers().forEach((planet) => {
+    planet.sweptPath = undefined;
+  });
+};
+/// Keeps where each planet was at the previous and at this collision check
+const updateSweptPaths = () => {
+  getPlanetsBuffers()
+    .slice(0, getNumberOfPlanets())
+    .forEach((planet) => {
+      planet.sweptPath = {
+        from: planet.sweptPath?.to ?? vec3.clone(planet.position),
+        to: vec3.clone(planet.position),
+      };
+    });
+};
+const spawnPlanetsForCollisions = (collisions: CollisionPair[]) => {
+  // Create a new planet for each collision found.
+  createPlanets({
+    planetsToCreate: collisions.length,
+    currentNumberOfPlanets: getNumberOfPlanets(),
+    radius: COLLISION_CREATED_PLANET_RADIUS,
+    addNew: true,
+  });
+};
+/// Replaces the planets that collided by new ones (at the end of the rendered planets)
+const replaceCollidedPlanets = ({
+  collidedPlanets,
+  newPlanets,
+}: {
+  collidedPlanets: number[];
+  newPlanets: PlanetSpawnInfo[];
+}) => {
+  const firstNewPlanetIdx = getNumberOfPlanets() - collidedPlanets.length;
+
+  removePlanets(collidedPlanets);
+  newPlanets.forEach((newPlanet, i) => {
+    spawnPlanet({ index: firstNewPlanetIdx + i, ...newPlanet });
+
+    // They start here: the next checks don't sweep them from the planets they replace
+    getPlanetsBuffers()[firstNewPlanetIdx + i].sweptPath = {
+      from: vec3.clone(newPlanet.position),
+      to: vec3.clone(newPlanet.position),
+    };
+  });
+
+  SetupUI().planetsGUIListener.setValue(firstNewPlanetIdx + newPlanets.length);
+};
+/// Planets are only merged (or fragmented) with the ones they collided with (directly or not)
+const getCollidedGroups = (collisions: CollisionPair[]) => {
+  const numberOfPlanets = getNumberOfPlanets();
+  return groupCollidingPlanets(collisions).filter((group) =>
+    group.every((idx) => idx < numberOfPlanets),
+  );
+};
+const mergeCollidedPlanets = (collisions: CollisionPair[]) => {
+  const planetsBuffers = getPlanetsBuffers();
+  const groups = getCollidedGroups(collisions);
+  if (groups.length === 0) {
+    return;
+  }
+
+  replaceCollidedPlanets({
+    collidedPlanets: groups.flat(),
+    newPlanets: groups.map((group) =>
+      mergePlanets(group.map((idx) => planetsBuffers[idx])),
+    ),
+  });
+};
+const fragmentCollidedPlanets = (collisions: CollisionPair[]) => {
+  const planetsBuffers = getPlanetsBuffers();
+  const groups = getCollidedGroups(collisions);
+  if (groups.length === 0) {
+    return;
+  }
+
+  const collidedPlanets = groups.flat();
+  let numberOfPlanets = getNumberOfPlanets() - collidedPlanets.length;
+  const newPlanets = groups.flatMap((group) => {
+    const planets = group.map((idx) => planetsBuffers[idx]);
+    const impactSpeed = getImpactSpeed(
+      collisions.filter(({ a }) => group.includes(a)),
+    );
+
+    // Slow impacts (or no room for more planets) just merge them
+    if (
+      impactSpeed < UI_SETTINGS.fragmentationSpeed ||
+      numberOfPlanets + UI_SETTINGS.debrisCount > MAX_PLANETS
+    ) {
+      numberOfPlanets++;
+      return [mergePlanets(planets)];
+    }
+
+    numberOfPlanets += UI_SETTINGS.debrisCount;
+    return fragmentPlanets({
+      planets,
+      debrisCount: UI_SETTINGS.debrisCount,
+      impactSpeed,
+      simulatedTime: getSimulatedTime(),
+    });
   });
+
+  replaceCollidedPlanets({ collidedPlanets, newPlanets });
+};
+/// Small debris don't last forever
+const cullDebris = (simulatedTime: number) => {
+  const numberOfPlanets = getNumberOfPlanets();
+  const expiredDebris = getPlanetsBuffers()
+    .slice(0, numberOfPlanets)
+    .flatMap(({ debrisSpawnedAt, radius }, idx) =>
+      debrisSpawnedAt !== undefined &&
+      radius < MIN_DEBRIS_RADIUS &&
+      Math.abs(simulatedTime - debrisSpawnedAt) >= DEBRIS_LIFETIME
+        ? [idx]
+        : [],
+    )
+    // There must always be at least one planet
+    .slice(0, numberOfPlanets - MIN_PLANETS);
+
+  if (expiredDebris.length === 0) {
+    return;
+  }
+
+  syncPlanetsWithGPU();
+  removePlanets(expiredDebris);
+  SetupUI().planetsGUIListener.setValue(numberOfPlanets - expiredDebris.length);
+};
+const bounceCollidedPlanets = (collisions: CollisionPair[]) => {
+  const bodies = getPlanetsBuffers().slice(0, getNumberOfPlanets());
+
+  resolveBounces({
+    planets: bodies,
+    collisions,
+    restitution: UI_SETTINGS.restitution,
+  });
+
+  // The planets are now going elsewhere
+  if (UI_SETTINGS.motionMode === MotionModeEnum.GRAVITY) {
+    computeAccelerations({
+      bodies,
+      centralMass: UI_SETTINGS.centralMass,
+      solver: UI_SETTINGS.gravitySolver,
+      theta: UI_SETTINGS.barnesHutTheta,
+    });
+  } else {
+    updateOrbitsFromStateVectors({
+      bodies,
+      centralMass: UI_SETTINGS.centralMass,
+    });
+  }
+};
+/// Adds a single planet with the UI settings of the new planet, orbiting the
+/// chosen parent (if any).
+const addPlanetFromUI = () => {
+  const numberOfPlanets = getNumberOfPlanets();
+  const planets = getPlanetsBuffers().slice(0, numberOfPlanets);
+  const { newPlanetParent: parentIdx, newPlanetBinary: binary } = UI_SETTINGS;
+  const parent = parentIdx >= 0 ? planets[parentIdx] : undefined;
+
+  if (numberOfPlanets >= MAX_PLANETS) {
+    console.warn(`There can't be more than ${MAX_PLANETS} planets`);
+    return;
+  }
+  if (parentIdx >= 0 && !parent) {
+    console.warn(`There is no planet ${parentIdx} to orbit`);
+    return;
+  }
+  if (binary && !parent) {
+    console.warn("A binary planet needs a parent");
+    return;
+  }
+  if (parent && !canAttachToParent({ parent, binary, bodies: planets })) {
+    console.warn(
+      `Planet ${parentIdx} can't have another ${binary ? "binary companion" : "moon"}`,
+    );
+    return;
+  }
+
+  // Right after the rendered planets, so it is rendered as well
+  addPlanet({
+    index: numberOfPlanets,
+    parent,
+    binary,
+    semiMajorAxis: UI_SETTINGS.newPlanetSemiMajorAxis,
+    eccentricity: UI_SETTINGS.newPlanetEccentricity,
+  });
+
+  SetupUI().planetsGUIListener.setValue(numberOfPlanets + 1);
 };
 (() => {
   const observer = Observer();
@@ -46,20 +263,79 @@ const updatePlanetsForComputeShaderCollision = () => {
   observer.subscribe("planets", {
     id: OBSERVER_ID,
     callback: (planets) => {
-      createPlanets({
-        planetsToCreate: planets as number,
-        currentNumberOfPlanets: getNumberOfPlanets(),
-      });
+      syncPlanetsWithGPU();
+
+      // Planets that are not rendered anymore are kept, so only create the missing ones
+      const missingPlanets = (planets as number) - getPlanetsBuffers().length;
+      if (missingPlanets > 0) {
+        createPlanets({
+          planetsToCreate: missingPlanets,
+          currentNumberOfPlanets: getNumberOfPlanets(),
+        });
+      }
 
-      if (UI_SETTINGS.enableTail) {
-        resetTailVariables();
-        updateVariableTailBuffers({
-          numberOfPlanets: planets as number,
-          planetsBuffers: getPlanetsBuffers(),
-          modelMatrixUniformBufferSize: getModelMatrixUniformBufferSize(),
-          allModelMatrices: getAllModelMatrices(),
+      // New planets also pull (and are pulled by) the others
+      if (UI_SETTINGS.motionMode === MotionModeEnum.GRAVITY) {
+        computeAccelerations({
+          bodies: getPlanetsBuffers().slice(0, planets as number),
+          centralMass: UI_SETTINGS.centralMass,
+          solver: UI_SETTINGS.gravitySolver,
+          theta: UI_SETTINGS.barnesHutTheta,
         });
       }
+
+      // The tail starts over (in the next frame)
+      resetTail();
+    },
+  });
+
+  observer.subscribe("seed", {
+    id: OBSERVER_ID,
+    callback: (seed) => {
+      syncPlanetsWithGPU();
+      regeneratePlanets(seed as number);
+      resetSweptPaths();
+
+      // Same as changing the number of planets (tail, accelerations, ...)
+      observer.notify("planets", UI_SETTINGS.planets);
+      updatePlanetsForComputeShaderCollision();
+    },
+  });
+
+  observer.subscribe("updateModelMatrices", {
+    id: OBSERVER_ID,
+    callback: (commandEncoder) => {
+      updateModelMatrices({
+        commandEncoder: commandEncoder as GPUCommandEncoder,
+        planetsBuffers: getPlanetsBuffers(),
+        simulatedTime: getSimulatedTime(),
+      });
+    },
+  });
+
+  observer.subscribe("selectLevelsOfDetail", {
+    id: OBSERVER_ID,
+    callback: (commandEncoder) => {
+      // The CPU fallback needs where the planets are in the current frame
+      if (!UI_SETTINGS.cullOnGPU) {
+        syncPlanetsWithGPU();
+      }
+      selectLevelsOfDetail({
+        commandEncoder: commandEncoder as GPUCommandEncoder,
+        planetsBuffers: getPlanetsBuffers(),
+        cameraPosition: getCameraPosition(),
+        viewportHeight: canvas.height,
+        frustumPlanes: getViewFrustumPlanes(),
+        cull: UI_SETTINGS.enableCulling,
+        onGPU: UI_SETTINGS.cullOnGPU,
+      });
+    },
+  });
+
+  observer.subscribe("countVisiblePlanets", {
+    id: OBSERVER_ID,
+    callback: (_countVisiblePlanets) => {
+      countVisiblePlanets();
     },
   });
 
@@ -69,19 +345,39 @@ const updatePlanetsForComputeShaderCollision = () => {
       renderPlanets({
         renderPass,
         enableArmor: UI_SETTINGS.enableArmor,
-        ellipse_a: UI_SETTINGS.ellipseA,
-        eccentricity: UI_SETTINGS.eccentricity,
         topology: UI_SETTINGS.topology,
         viewProjectionMatrixUniformBuffer:
           getViewProjectionMatrixUniformBuffer(),
         planetsBuffers: getPlanetsBuffers(),
+        simulatedTime: getSimulatedTime(),
+        cameraPosition: getCameraPosition(),
       });
     },
   });
 
+  observer.subscribe("simulationStep", {
+    id: OBSERVER_ID,
+    callback: (dt) => {
+      stepSimulation({
+        planetsBuffers: getPlanetsBuffers(),
+        dt: dt as number,
+      });
+    },
+  });
+
+  observer.subscribe("simulationTime", {
+    id: OBSERVER_ID,
+    callback: (simulatedTime) => {
+      cullDebris(simulatedTime as number);
+    },
+  });
+
   observer.subscribe("eccentricity", {
     id: OBSERVER_ID,
     callback: (_eccentricity) => {
+      syncPlanetsWithGPU();
+      updateOrbits();
+      resetSweptPaths();
       updatePlanetsForComputeShaderCollision();
     },
   });
@@ -89,76 +385,223 @@ const updatePlanetsForComputeShaderCollision = () => {
   observer.subscribe("ellipseA", {
     id: OBSERVER_ID,
     callback: (_eccentricity) => {
+      syncPlanetsWithGPU();
+      updateOrbits();
+      resetSweptPaths();
       updatePlanetsForComputeShaderCollision();
     },
   });
 
+  observer.subscribe("motionMode", {
+    id: OBSERVER_ID,
+    callback: (motionMode) => {
+      syncPlanetsWithGPU();
+      const bodies = getPlanetsBuffers().slice(0, getNumberOfPlanets());
+
+      // Either way, the planets carry on from where they are (and how fast they are going)
+      if (motionMode === MotionModeEnum.GRAVITY) {
+        computeAccelerations({
+          bodies,
+          centralMass: UI_SETTINGS.centralMass,
+          solver: UI_SETTINGS.gravitySolver,
+          theta: UI_SETTINGS.barnesHutTheta,
+        });
+      } else {
+        updateOrbitsFromStateVectors({
+          bodies,
+          centralMass: UI_SETTINGS.centralMass,
+        });
+      }
+    },
+  });
+
+  observer.subscribe("addPlanet", {
+    id: OBSERVER_ID,
+    callback: (_addPlanet) => {
+      syncPlanetsWithGPU();
+      addPlanetFromUI();
+    },
+  });
+
+  observer.subscribe("centralMass", {
+    id: OBSERVER_ID,
+    callback: (centralMass) => {
+      syncPlanetsWithGPU();
+      computeAccelerations({
+        bodies: getPlanetsBuffers().slice(0, getNumberOfPlanets()),
+        centralMass: centralMass as number,
+        solver: UI_SETTINGS.gravitySolver,
+        theta: UI_SETTINGS.barnesHutTheta,
+      });
+    },
+  });
+
+  // The accelerations are kept up to date with the solver (see `stepVelocityVerlet`)
+  (["gravitySolver", "barnesHutTheta"] as const).forEach((topic) => {
+    observer.subscribe(topic, {
+      id: OBSERVER_ID,
+      callback: (_gravitySolver) => {
+        if (UI_SETTINGS.motionMode !== MotionModeEnum.GRAVITY) {
+          return;
+        }
+
+        computeAccelerations({
+          bodies: getPlanetsBuffers().slice(0, getNumberOfPlanets()),
+          centralMass: UI_SETTINGS.centralMass,
+          solver: UI_SETTINGS.gravitySolver,
+          theta: UI_SETTINGS.barnesHutTheta,
+        });
+      },
+    });
+  });
+
+  observer.subscribe("compareGravitySolvers", {
+    id: OBSERVER_ID,
+    callback: (_compareGravitySolvers) => {
+      syncPlanetsWithGPU();
+      const { exactTime, barnesHutTime, maxRelativeError, meanRelativeError } =
+        compareGravitySolvers({
+          bodies: getPlanetsBuffers().slice(0, getNumberOfPlanets()),
+          theta: UI_SETTINGS.barnesHutTheta,
+        });
+
+      console.info(
+        `Gravity solvers (${getNumberOfPlanets()} planets, θ = ${UI_SETTINGS.barnesHutTheta}): ` +
+          `exact ${exactTime.toFixed(2)}ms, Barnes–Hut ${barnesHutTime.toFixed(2)}ms, ` +
+          `relative error ${meanRelativeError.toExponential(2)} (mean) and ${maxRelativeError.toExponential(2)} (max)`,
+      );
+    },
+  });
+
   observer.subscribe("enableTail", {
     id: OBSERVER_ID,
     callback: (enableTail) => {
+      // Sampled again from the next frame on
       if (!enableTail) {
-        resetTailVariables();
-      } else {
-        updateVariableTailBuffers({
-          numberOfPlanets: getNumberOfPlanets(),
-          planetsBuffers: getPlanetsBuffers(),
-          modelMatrixUniformBufferSize: getModelMatrixUniformBufferSize(),
-          allModelMatrices: getAllModelMatrices(),
-        });
+        resetTail();
       }
     },
   });
 
-  observer.subscribe("renderTail", {
+  observer.subscribe("sampleTail", {
     id: OBSERVER_ID,
-    callback: (renderTailInfo) => {
-      renderTail({
+    callback: (sampleTailInfo) => {
+      const { commandEncoder, recalculateTailBuffer } = sampleTailInfo as {
+        commandEncoder: GPUCommandEncoder;
+        recalculateTailBuffer: boolean;
+      };
+
+      sampleTail({
+        commandEncoder,
         numberOfPlanets: getNumberOfPlanets(),
-        planetsBuffers: getPlanetsBuffers(),
-        modelMatrixUniformBufferSize: getModelMatrixUniformBufferSize(),
-        allModelMatrices: getAllModelMatrices(),
+        planetsCentersBuffer: getPlanetsCentersBuffer(),
+        recalculateTailBuffer,
+      });
+    },
+  });
+
+  observer.subscribe("renderStarfield", {
+    id: OBSERVER_ID,
+    callback: (_renderStarfield) => {
+      renderStarfield({
         viewProjectionMatrixUniformBuffer:
           getViewProjectionMatrixUniformBuffer(),
         renderPass,
-        recalculateTailBuffer: (
-          renderTailInfo as { recalculateTailBuffer: boolean }
-        ).recalculateTailBuffer,
       });
     },
   });
 
-  observer.subscribe("enableCollisions", {
+  observer.subscribe("rings", {
     id: OBSERVER_ID,
-    callback: (_enableCollisions) => {
-      updatePlanetsForComputeShaderCollision();
+    callback: (_ringChance) => {
+      updateRings();
     },
   });
 
-  observer.subscribe("topology", {
+  observer.subscribe("renderRings", {
     id: OBSERVER_ID,
-    callback: (_topology) => {
-      updatePlanetsForComputeShaderCollision();
+    callback: (_renderRings) => {
+      renderRings({
+        renderPass,
+        planetsBuffers: getPlanetsBuffers(),
+      });
     },
   });
 
-  observer.subscribe("latBands", {
+  observer.subscribe("renderAtmospheres", {
     id: OBSERVER_ID,
-    callback: (_latBands) => {
-      createPlanets({
-        currentNumberOfPlanets: getNumberOfPlanets(),
-        updateLatOrLongBands: true,
+    callback: (_renderAtmospheres) => {
+      renderAtmospheres({
+        renderPass,
+        planetsBuffers: getPlanetsBuffers(),
+      });
+    },
+  });
+
+  observer.subscribe("renderSkybox", {
+    id: OBSERVER_ID,
+    callback: (_renderSkybox) => {
+      renderSkybox({
+        viewDirectionProjectionInverseUniformBuffer:
+          getViewDirectionProjectionInverseUniformBuffer(),
+        renderPass,
+      });
+    },
+  });
+
+  observer.subscribe("renderStar", {
+    id: OBSERVER_ID,
+    callback: (_renderStar) => {
+      renderStar({
+        viewProjectionMatrixUniformBuffer:
+          getViewProjectionMatrixUniformBuffer(),
+        renderPass,
+        cameraPosition: getCameraPosition(),
       });
-      updatePlanetsForComputeShaderCollision();
     },
   });
 
-  observer.subscribe("longBands", {
+  observer.subscribe("renderBloom", {
     id: OBSERVER_ID,
-    callback: (_longBands) => {
-      createPlanets({
-        currentNumberOfPlanets: getNumberOfPlanets(),
-        updateLatOrLongBands: true,
+    callback: (commandEncoder) => {
+      renderBloom({
+        commandEncoder: commandEncoder as GPUCommandEncoder,
+        targetView: context.getCurrentTexture().createView(),
       });
+    },
+  });
+
+  observer.subscribe("renderTail", {
+    id: OBSERVER_ID,
+    callback: (_renderTail) => {
+      renderTail({
+        viewProjectionMatrixUniformBuffer:
+          getViewProjectionMatrixUniformBuffer(),
+        renderPass,
+        viewportWidth: canvas.width,
+        viewportHeight: canvas.height,
+      });
+    },
+  });
+
+  observer.subscribe("computeOrbitsOnGPU", {
+    id: OBSERVER_ID,
+    callback: (_computeOrbitsOnGPU) => {
+      // The CPU carries on from where the GPU left the planets (and vice versa)
+      syncPlanetsWithGPU();
+    },
+  });
+
+  observer.subscribe("enableCollisions", {
+    id: OBSERVER_ID,
+    callback: (_enableCollisions) => {
+      updatePlanetsForComputeShaderCollision();
+    },
+  });
+
+  observer.subscribe("topology", {
+    id: OBSERVER_ID,
+    callback: (_topology) => {
       updatePlanetsForComputeShaderCollision();
     },
   });
@@ -166,21 +609,42 @@ const updatePlanetsForComputeShaderCollision = () => {
   observer.subscribe("collisions", {
     id: OBSERVER_ID,
     callback: (collisions) => {
-      // Create a new planet for each collision found.
-      createPlanets({
-        planetsToCreate: (collisions as CollisionPair[]).length,
-        currentNumberOfPlanets: getNumberOfPlanets(),
-        radius: COLLISION_CREATED_PLANET_RADIUS,
-        addNew: true,
-      });
+      syncPlanetsWithGPU();
+      switch (UI_SETTINGS.collisionResponse) {
+        case CollisionResponseEnum.NONE: {
+          break;
+        }
+        case CollisionResponseEnum.SPAWN: {
+          spawnPlanetsForCollisions(collisions as CollisionPair[]);
+          break;
+        }
+        case CollisionResponseEnum.MERGE: {
+          mergeCollidedPlanets(collisions as CollisionPair[]);
+          break;
+        }
+        case CollisionResponseEnum.BOUNCE: {
+          bounceCollidedPlanets(collisions as CollisionPair[]);
+          break;
+        }
+        case CollisionResponseEnum.FRAGMENT: {
+          fragmentCollidedPlanets(collisions as CollisionPair[]);
+          break;
+        }
+      }
     },
   });
 
   observer.subscribe("checkCollisions", {
     id: OBSERVER_ID,
     callback: (_checkCollisions) => {
+      // Planets have moved (and might have been merged) since the last check
+      syncPlanetsWithGPU();
+      updateSweptPaths();
+      updatePlanetsForComputeShaderCollision();
       checkCollisionViaComputeShader({
         numberOfPlanets: getNumberOfPlanets(),
+        collisionDetection: UI_SETTINGS.collisionDetection,
+        verify: UI_SETTINGS.verifyCollisions,
       });
     },
   });
@@ -196,7 +660,12 @@ document.body.appendChild(stats.dom);
 const { canvas, context, device, format } = await initWebGPUAndCanvas();
 
 // Setup camera
-const { getViewProjectionMatrixUniformBuffer } = SetupCamera({
+const {
+  getCameraPosition,
+  getViewDirectionProjectionInverseUniformBuffer,
+  getViewFrustumPlanes,
+  getViewProjectionMatrixUniformBuffer,
+} = SetupCamera({
   device,
   canvas,
 });
@@ -204,41 +673,77 @@ const { getViewProjectionMatrixUniformBuffer } = SetupCamera({
 /// Setup UI
 SetupUI();
 
+/// Simulation clock
+const { tick, getSimulatedTime } = SimulationClock();
+const shouldRecalculateTail = IntervalTrigger(RENDER_TAIL_INTERVAL);
+const shouldCheckCollisions = IntervalTrigger(CHECK_COLLISION_INTERVAL);
+
 /// Create Shader Module from WGSL file
 const shaderModule = device.createShaderModule({ code: planetWGSL });
 console.assert(shaderModule !== null, "Failed to compile shader code");
 
 /// Collision computation
 const { checkCollisionViaComputeShader, recreateComputeShaderBuffers } =
-  Collisions({ device, shaderModule });
+  Collisions({ device });
+
+// The scene is rendered in HDR (see `bloom.ts`): everything in its render pass
+// targets `HDR_FORMAT`, not the one of the canvas
+const hdrTexture = device.createTexture({
+  label: "HDR scene texture",
+  size: [canvas.width, canvas.height],
+  format: HDR_FORMAT,
+  usage: GPUTextureUsage.RENDER_ATTACHMENT | GPUTextureUsage.TEXTURE_BINDING,
+});
+
+/// Bloom, and draws the HDR scene on the canvas
+const { renderBloom } = Bloom({ device, format, sceneTexture: hdrTexture });
+
+/// Spiral galaxy in the background
+const { renderStarfield } = Starfield({ device, format: HDR_FORMAT });
+
+/// Star at the center of the orbits
+const { renderStar } = Star({ device, format: HDR_FORMAT });
+
+/// Environment around the scene
+const { renderSkybox } = Skybox({ device, format: HDR_FORMAT });
 
 /// Tail computation
-const {
-  renderTail,
-  resetCoordinatesPerPlanet,
-  resetTailCenterPositionsComplete,
-  updateVariableTailBuffers,
-} = Tail({ device, shaderModule, format });
+const { renderTail, resetTail, sampleTail } = Tail({
+  device,
+  format: HDR_FORMAT,
+});
 
 /// Render the planets
 const {
+  countVisiblePlanets,
+  renderAtmospheres,
   renderPlanets,
-  getModelMatrixUniformBufferSize,
-  getAllModelMatrices,
+  renderRings,
+  selectLevelsOfDetail,
   getNumberOfPlanets,
+  getPlanetsCentersBuffer,
+  stepSimulation,
+  syncPlanets,
+  updateModelMatrices,
 } = Render({
   device,
   shaderModule,
-  format,
+  format: HDR_FORMAT,
   numberOfPlanets: UI_SETTINGS.planets,
 });
 
 /// Create the planets
-const { create: createPlanets, getPlanetsBuffers } =
-  await CreatePlanets(device);
-createPlanets({
-  currentNumberOfPlanets: getNumberOfPlanets(),
-});
+const {
+  addPlanet,
+  create: createPlanets,
+  getPlanetsBuffers,
+  regenerate: regeneratePlanets,
+  updateOrbits,
+  spawnPlanet,
+  removePlanets,
+  updateRings,
+} = await CreatePlanets(device);
+regeneratePlanets(UI_SETTINGS.seed);
 
 //// VERTEX AND FRAGMENT SHADER STUFF ///////
 //
@@ -255,7 +760,7 @@ const passDescriptor: GPURenderPassDescriptor = {
   label: "pass descriptor element",
   colorAttachments: [
     {
-      view: context.getCurrentTexture().createView(), // assigned later
+      view: hdrTexture.createView(),
       clearValue: { r: 0, g: 0, b: 0, a: 1 },
       loadOp: "clear",
       storeOp: "store",
@@ -272,49 +777,90 @@ const passDescriptor: GPURenderPassDescriptor = {
 // Renders on the same frame must use the same render pass, otherwise
 // it switches (either one or the other, not both)
 let renderPass: GPURenderPassEncoder;
-let currentFrame = 1;
-function frame() {
+function frame(timestamp: DOMHighResTimeStamp) {
   stats.begin();
 
-  // Update Texture View
-  const colorAttachmentsArray = Array.from(passDescriptor.colorAttachments);
-  colorAttachmentsArray[0]!.view = context.getCurrentTexture().createView();
-  passDescriptor.colorAttachments = colorAttachmentsArray;
+  // Advance the physics in fixed steps of simulated time
+  const { steps, dt } = tick(timestamp);
+  for (let i = 0; i < steps; i++) {
+    Observer().notify("simulationStep", dt);
+  }
+  const simulatedTime = getSimulatedTime();
+  if (steps > 0) {
+    Observer().notify("simulationTime", simulatedTime);
+  }
 
   const commandEncoder = device.createCommandEncoder({
     label: "vertex/fragment shaders common command encoder",
   });
 
+  // Move the planets and compute their model matrices (compute shader), which
+  // the render pass below reads
+  Observer().notify("updateModelMatrices", commandEncoder);
+
+  // Choose the mesh of each planet from how big it is on screen (compute shader)
+  Observer().notify("selectLevelsOfDetail", commandEncoder);
+
+  // Add the planets' current center points to the tail (if setting is activated)
+  if (UI_SETTINGS.enableTail) {
+    Observer().notify("sampleTail", {
+      commandEncoder,
+      recalculateTailBuffer: shouldRecalculateTail(simulatedTime),
+    });
+  }
+
   // Create a render pass that is common to all renders,
   // be them vertex/fragment shaders (not compute shaders)
   renderPass = commandEncoder.beginRenderPass(passDescriptor);
 
+  // Render the spiral galaxy in the background (if setting is activated)
+  if (UI_SETTINGS.enableStarfield) {
+    Observer().notify("renderStarfield", true);
+  }
+
+  // Render the star at the center of the orbits (if setting is activated)
+  if (UI_SETTINGS.enableStar) {
+    Observer().notify("renderStar", true);
+  }
+
   // Render the planets
   Observer().notify("renderPlanets", true);
 
-  // Render the tail (if setting is activated)
-  if (UI_SETTINGS.enableTail) {
-    Observer().notify("renderTail", {
-      recalculateTailBuffer: currentFrame % RENDER_TAIL_FREQUENCY === 0,
-    });
+  // Render the environment where nothing (opaque) was drawn
+  Observer().notify("renderSkybox", true);
+
+  // Render the atmospheres of the planets (if setting is activated), over everything opaque
+  if (UI_SETTINGS.enableAtmosphere) {
+    Observer().notify("renderAtmospheres", true);
   }
 
-  // Only check for collisions every so often
-  if (
-    currentFrame % CHECK_COLLISION_FREQUENCY === 0 &&
-    UI_SETTINGS.enableCollisions
-  ) {
-    Observer().notify("checkCollisions", true);
+  // Render the rings of the planets (if setting is activated), over everything opaque
+  if (UI_SETTINGS.enableRings) {
+    Observer().notify("renderRings", true);
+  }
+
+  // Render the tail (if setting is activated)
+  if (UI_SETTINGS.enableTail) {
+    Observer().notify("renderTail", true);
   }
 
   // Finalise render pass (common to all vertex/fragment shaders, not compute shader)
   renderPass.end();
 
+  // Draw the HDR scene on the canvas, with the bloom (if setting is activated)
+  Observer().notify("renderBloom", commandEncoder);
+
   // Submit Commands
   device.queue.submit([commandEncoder.finish()]);
 
-  // Update current frame
-  currentFrame++;
+  // How many planets were drawn, once the frame is submitted
+  Observer().notify("countVisiblePlanets", true);
+
+  // Only check for collisions every so often (of simulated time). After the
+  // frame is submitted, so it checks the center points computed in it.
+  if (UI_SETTINGS.enableCollisions && shouldCheckCollisions(simulatedTime)) {
+    Observer().notify("checkCollisions", true);
+  }
 
   stats.end();
 
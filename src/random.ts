@@ -0,0 +1,56 @@
+import { DEFAULT_SEED } from "./constants";
+
+/// Seeded randomness
+///
+/// Every random choice made when generating the galaxy (planets, debris, stars,
+/// ...) comes from here instead of `Math.random()`, so the same seed (and UI
+/// settings) always gives the same galaxy and bugs can be reproduced.
+//
+
+/// Mulberry32: 32 bits of state, fast and good enough for what it is used here.
+///
+/// @param{seed}: any integer (only its lower 32 bits are used);
+/// @returns a function that, like `Math.random()`, returns numbers in [0, 1).
+//
+export const createRandomGenerator = (seed: number) => {
+  let state = seed >>> 0;
+
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+interface IRandom {
+  next(): number;
+  getSeed(): number;
+  setSeed(seed: number): void;
+}
+
+/// Random generator shared by the whole simulation. Setting the seed starts the
+/// sequence over.
+export const Random = (() => {
+  let singleton: IRandom | null = null;
+
+  return () => {
+    if (singleton) {
+      return singleton;
+    }
+
+    let seed = DEFAULT_SEED;
+    let generator = createRandomGenerator(seed);
+    singleton = {
+      next: () => generator(),
+      getSeed: () => seed,
+      setSeed: (newSeed: number) => {
+        seed = newSeed;
+        generator = createRandomGenerator(seed);
+      },
+    };
+
+    return singleton;
+  };
+})();
@@ -1,20 +1,66 @@
-import { mat4, vec3 } from "gl-matrix";
+import { vec3 } from "gl-matrix";
 import {
-  EMPTY_VECTOR,
-  FULL_CIRCUMFERENCE,
+  ATMOSPHERE_BYTE_LENGTH,
+  KEPLER_GPU_SYNC_INTERVAL,
+  LIGHTING_UNIFORM_BYTE_LENGTH,
   MAT4X4_BYTE_LENGTH,
+  MAX_LIGHTS,
+  MotionModeEnum,
+  RING_BYTE_LENGTH,
+  RING_SEGMENTS,
   ROTATION_SPEED_SENSITIVITY,
   TopologyEnum,
-  TRANSLATION_SPEED_SENSITIVITY,
 } from "./constants";
-import {
-  calculateXYZEllipseCoordinates,
-  getModelMatrix,
-  roundUp,
-} from "./utils";
+import { createAnnulusMesh, getModelMatrix, growCapacity } from "./utils";
 import { PlanetInfo } from "./types";
 import { Observer } from "./observer";
 import { UI_SETTINGS } from "./ui";
+import { stepVelocityVerlet } from "./gravity";
+import { meanMotion, orbitalElementsToStateVectors } from "./kepler";
+import { Orbits } from "./orbits";
+import { getOrbitCentralMass, resolveHierarchy } from "./hierarchy";
+import { getStarLight } from "./star";
+import { LevelsOfDetail } from "./lod";
+
+/// Vertices of the meshes drawn with `planet.wgsl`, as `createSphereMesh` and
+/// `createAnnulusMesh` write them. Shared by all its pipelines, so their
+/// layouts can't drift apart.
+const MESH_VERTEX_BUFFER_LAYOUT: GPUVertexBufferLayout = {
+  arrayStride: 8 * Float32Array.BYTES_PER_ELEMENT, // 3 position + 2 texCoord + 3 normal
+  attributes: [
+    // position
+    {
+      shaderLocation: 0,
+      format: "float32x3",
+      offset: 0,
+    },
+    // texCoord
+    {
+      shaderLocation: 1,
+      format: "float32x2",
+      offset: 3 * Float32Array.BYTES_PER_ELEMENT,
+    },
+    // normal (unused by the rings, it is the same for the whole ring)
+    {
+      shaderLocation: 2,
+      format: "float32x3",
+      offset: 5 * Float32Array.BYTES_PER_ELEMENT,
+    },
+  ],
+};
+
+/// Planet (index) of each instance, for the pipelines that draw one per planet
+const INSTANCE_PLANET_BUFFER_LAYOUT: GPUVertexBufferLayout = {
+  arrayStride: Uint32Array.BYTES_PER_ELEMENT,
+  stepMode: "instance",
+  attributes: [
+    {
+      shaderLocation: 3,
+      format: "uint32",
+      offset: 0,
+    },
+  ],
+};
 
 export const Render = ({
   format,
@@ -35,36 +81,57 @@ export const Render = ({
     minFilter: "linear",
   });
 
-  // Model Matrix Uniform Buffer
-  let modelMatrixUniformBufferSize = MAT4X4_BYTE_LENGTH; // for each planet, we have only a MVP matrix (mat4)
-  modelMatrixUniformBufferSize = roundUp(
-    modelMatrixUniformBufferSize,
-    device.limits.minUniformBufferOffsetAlignment,
-  ); // uniform buffer needs to be aligned correctly (it works without it if you don't use dynamic offsets)
-
-  // Fill in all uniform MVP matrices beforehand so you don't have to
-  // `device.queue.writeBuffer` (or direct mapping) for each one of the planets.
-  let allModelMatrices = new Float32Array(
-    (modelMatrixUniformBufferSize * planetsCount) /
-      Float32Array.BYTES_PER_ELEMENT,
-  );
-  const lastAngleOfPlanet: Record<number, number> = {};
+  // Orbits advanced (and model matrices computed) on the GPU
+  const {
+    computeModelMatrices,
+    getModelMatricesBuffer,
+    getPlanetsCentersBuffer,
+    uploadOrbits,
+    uploadPlanetsCenters,
+  } = Orbits({ device });
+
+  // All the planets share the same unit sphere meshes (one per LOD), each
+  // instance scales it by the radius of its planet (see `planet.wgsl`)
+  const {
+    countVisiblePlanets,
+    getDrawArgumentsBuffer,
+    getDraws,
+    getLodInstancesBuffer,
+    getMesh,
+    getPlanetLodsBuffer,
+    selectLevelsOfDetail: selectLevelsOfDetailOnGPU,
+  } = LevelsOfDetail({ device });
+
+  // Textures are shared between planets, and so are their bind groups
+  const textureBindGroups = new Map<GPUTexture, GPUBindGroup>();
+
+  // Model matrices of the CPU reference path, see `setModelMatricesBuffer`
+  let cpuModelMatricesBuffer: GPUBuffer | null = null;
+
+  // Set by `renderPlanets`, the rings are drawn with it later in the same pass
+  let planetsBindGroup: GPUBindGroup | null = null;
+
+  // While the GPU advances the Kepler orbits, the CPU ones are left where they
+  // were uploaded and only the simulated time since then (and the central mass
+  // they were going around) is kept, see `syncPlanets`.
+  let keplerTimeSinceSync = 0;
+  let keplerCentralMass = UI_SETTINGS.centralMass;
+  let shouldUploadOrbits = true;
 
   const getNumberOfPlanets = () => planetsCount;
-  const getAllModelMatrices = () => allModelMatrices;
-  const getModelMatrixUniformBufferSize = () => modelMatrixUniformBufferSize;
 
   /// Set observers
   Observer().subscribe("planets", {
     id: "render.ts",
     callback: (planets) => {
       planetsCount = planets as number;
+      shouldUploadOrbits = true;
     },
   });
 
-  // Custom bind group that sets model matrix uniform buffer with a dynamic offset
+  // Common to all the planets (group 0) and the texture of each draw (group 1)
   const bindGroupLayout = device.createBindGroupLayout({
-    label: "custom bind group layout",
+    label: "planets bind group layout",
     entries: [
       {
         binding: 0, // View-Projection matrix buffer
@@ -74,11 +141,10 @@ export const Render = ({
         },
       },
       {
-        binding: 1, // Model matrix buffer
+        binding: 1, // Model matrices (one per planet)
         visibility: GPUShaderStage.VERTEX,
         buffer: {
-          type: "uniform",
-          hasDynamicOffset: true, // Enable dynamic offsets
+          type: "read-only-storage",
         },
       },
       {
@@ -87,41 +153,108 @@ export const Render = ({
         sampler: {},
       },
       {
-        binding: 3, // Texture
+        binding: 4, // Lighting (camera position, ambient and point lights)
+        visibility: GPUShaderStage.FRAGMENT,
+        buffer: {
+          type: "uniform",
+        },
+      },
+      {
+        binding: 5, // Planets center point in world space + radius
+        visibility: GPUShaderStage.VERTEX,
+        buffer: {
+          type: "read-only-storage",
+        },
+      },
+      {
+        binding: 6, // LOD of each planet (debug colours)
+        visibility: GPUShaderStage.VERTEX,
+        buffer: {
+          type: "read-only-storage",
+        },
+      },
+    ],
+  });
+  const textureBindGroupLayout = device.createBindGroupLayout({
+    label: "planets texture bind group layout",
+    entries: [
+      {
+        binding: 0, // Texture
         visibility: GPUShaderStage.FRAGMENT,
         texture: {},
       },
     ],
   });
+  const pipelineLayout = device.createPipelineLayout({
+    bindGroupLayouts: [bindGroupLayout, textureBindGroupLayout],
+  });
+  const ringsBindGroupLayout = device.createBindGroupLayout({
+    label: "rings bind group layout",
+    entries: [
+      {
+        binding: 0, // Rings (only the planets that have them)
+        visibility: GPUShaderStage.VERTEX | GPUShaderStage.FRAGMENT,
+        buffer: {
+          type: "read-only-storage",
+        },
+      },
+    ],
+  });
+  const atmospheresBindGroupLayout = device.createBindGroupLayout({
+    label: "atmospheres bind group layout",
+    entries: [
+      {
+        binding: 0, // Atmospheres (one per planet)
+        visibility: GPUShaderStage.VERTEX | GPUShaderStage.FRAGMENT,
+        buffer: {
+          type: "read-only-storage",
+        },
+      },
+    ],
+  });
+
+  const lightingUniformBuffer = device.createBuffer({
+    label: "lighting uniform buffer",
+    size: LIGHTING_UNIFORM_BYTE_LENGTH,
+    usage: GPUBufferUsage.UNIFORM | GPUBufferUsage.COPY_DST,
+  });
+
+  /// Uploads the lighting UI settings (only the enabled lights) along with
+  /// where the camera is, for the specular highlights, and whether the planets
+  /// are coloured by their LOD.
+  function updateLighting(cameraPosition: vec3) {
+    const lighting = new ArrayBuffer(LIGHTING_UNIFORM_BYTE_LENGTH);
+    const floats = new Float32Array(lighting);
+    // The star (if any) lights the planets first
+    const starLight = getStarLight();
+    const lights = [
+      ...(starLight ? [starLight] : []),
+      ...UI_SETTINGS.lights.filter(({ enabled }) => enabled),
+    ].slice(0, MAX_LIGHTS);
+
+    floats.set([...cameraPosition, UI_SETTINGS.ambientLight]);
+    new Uint32Array(lighting, 4 * 4, 2).set([
+      lights.length,
+      UI_SETTINGS.debugLod ? 1 : 0,
+    ]);
+    lights.forEach(({ x, y, z, intensity, color }, i) => {
+      floats.set(
+        [x, y, z, intensity, ...color.map((channel) => channel / 255)],
+        8 + i * 8,
+      );
+    });
+
+    device.queue.writeBuffer(lightingUniformBuffer, 0, lighting);
+  }
 
   // Armor pipeline
   const armorPipeline = device.createRenderPipeline({
     label: "armor render pipeline",
-    layout: device.createPipelineLayout({
-      bindGroupLayouts: [bindGroupLayout],
-    }),
+    layout: pipelineLayout,
     vertex: {
       module: shaderModule,
       entryPoint: "main",
-      buffers: [
-        {
-          arrayStride: 5 * Float32Array.BYTES_PER_ELEMENT, // 3 position + 2 texCoord
-          attributes: [
-            // position
-            {
-              shaderLocation: 0,
-              format: "float32x3",
-              offset: 0,
-            },
-            // texCoord
-            {
-              shaderLocation: 1,
-              format: "float32x2",
-              offset: 3 * Float32Array.BYTES_PER_ELEMENT,
-            },
-          ],
-        },
-      ],
+      buffers: [MESH_VERTEX_BUFFER_LAYOUT, INSTANCE_PLANET_BUFFER_LAYOUT],
     },
     fragment: {
       module: shaderModule,
@@ -136,104 +269,202 @@ export const Render = ({
     },
   });
 
-  function setModelMatrixUniformBuffer({
-    ellipse_a,
-    eccentricity,
+  /// Moves the planets along their own Keplerian orbit around the central mass
+  /// (or their parent, see `hierarchy.ts`), advancing the mean anomaly
+  /// (M = M0 + n * dt) and solving Kepler's equation for their position. Their
+  /// world space `position` and `velocity` are kept in sync so the gravity mode
+  /// can pick up from where they are.
+  function advanceKeplerOrbits({
+    bodies,
+    dt,
+    centralMass = UI_SETTINGS.centralMass,
   }: {
-    ellipse_a: number;
-    eccentricity: number;
-  }): GPUBuffer {
-    const zAxisRotation = new Date().getTime() * ROTATION_SPEED_SENSITIVITY;
+    bodies: PlanetInfo[];
+    dt: number;
+    centralMass?: number;
+  }) {
+    const relativeStates = bodies.map((body) => {
+      const { orbit } = body;
+      const orbitCentralMass = getOrbitCentralMass({ body, centralMass });
+      orbit.meanAnomaly +=
+        meanMotion({
+          semiMajorAxis: orbit.semiMajorAxis,
+          centralMass: orbitCentralMass,
+        }) * dt;
+      orbit.meanAnomaly %= 2 * Math.PI;
 
-    allModelMatrices = new Float32Array(
-      (modelMatrixUniformBufferSize * planetsCount) /
-        Float32Array.BYTES_PER_ELEMENT,
+      return orbitalElementsToStateVectors({
+        elements: orbit,
+        centralMass: orbitCentralMass,
+      });
+    });
+
+    resolveHierarchy({ bodies, relativeStates }).forEach(
+      ({ position, velocity }, i) => {
+        vec3.copy(bodies[i].position, position);
+        vec3.copy(bodies[i].velocity, velocity);
+      },
     );
+  }
 
-    let previousTranslation: vec3 = [0, 0, 0];
-    for (let i = 0; i < planetsCount; i++) {
-      const angle =
-        ((lastAngleOfPlanet[i] ?? 0) + UI_SETTINGS.translationSpeed) %
-        FULL_CIRCUMFERENCE;
-      lastAngleOfPlanet[i] = angle;
-
-      const { x, y, z } = calculateXYZEllipseCoordinates({
-        degreeAngle: angle,
-        ellipse_a: ellipse_a,
-        ellipse_eccentricity: eccentricity,
+  /// Brings the CPU state (orbits, `position` and `velocity`) of the planets up to
+  /// date with the GPU one, so it can be read or changed. It must be called
+  /// before anything on the CPU relies on where the planets are (collisions,
+  /// changing their orbits, switching the motion mode, ...), and the orbits are
+  /// uploaded again in the next frame.
+  ///
+  /// When the orbits are not advanced on the GPU, the CPU is always up to date.
+  function syncPlanets({ planetsBuffers }: { planetsBuffers: PlanetInfo[] }) {
+    if (keplerTimeSinceSync !== 0) {
+      advanceKeplerOrbits({
+        bodies: planetsBuffers.slice(0, planetsCount),
+        dt: keplerTimeSinceSync,
+        centralMass: keplerCentralMass,
       });
+    }
 
-      previousTranslation = vec3.add(EMPTY_VECTOR, previousTranslation, [
-        x,
-        y,
-        z,
-      ]);
+    keplerTimeSinceSync = 0;
+    keplerCentralMass = UI_SETTINGS.centralMass;
+    shouldUploadOrbits = true;
+  }
 
-      // Matrix responsible for the planet movement of translation
-      const translation = TRANSLATION_SPEED_SENSITIVITY + i;
-      const translationMatrix = mat4.rotateZ(
-        mat4.create(),
-        mat4.create(),
-        translation,
-      );
+  /// Advances the planets by a single fixed step of the simulation clock.
+  /// `dt` is negative when the simulation runs backwards.
+  function stepSimulation({
+    planetsBuffers,
+    dt,
+  }: {
+    planetsBuffers: PlanetInfo[];
+    dt: number;
+  }) {
+    const bodies = planetsBuffers.slice(0, planetsCount);
 
-      let modelMatrix = getModelMatrix({
-        modelTranslation: previousTranslation,
-        modelRotationZ: zAxisRotation,
+    if (UI_SETTINGS.motionMode === MotionModeEnum.GRAVITY) {
+      // Moves the planets under their mutual attraction (and the central mass)
+      stepVelocityVerlet({
+        bodies,
+        centralMass: UI_SETTINGS.centralMass,
+        solver: UI_SETTINGS.gravitySolver,
+        theta: UI_SETTINGS.barnesHutTheta,
+        dt,
       });
+    } else if (UI_SETTINGS.computeOrbitsOnGPU) {
+      // Moved by `computeModelMatrices`. Synced every so often, as the GPU
+      // (32-bit floats) loses precision the farther it is from the orbits it got.
+      keplerTimeSinceSync += dt;
+      if (Math.abs(keplerTimeSinceSync) >= KEPLER_GPU_SYNC_INTERVAL) {
+        syncPlanets({ planetsBuffers });
+      }
+    } else {
+      advanceKeplerOrbits({ bodies, dt });
+    }
+  }
 
-      modelMatrix = new Float32Array(
-        mat4.multiply(mat4.create(), translationMatrix, modelMatrix),
-      );
+  /// Encodes the compute pass that moves the planets (ellipse motion mode) and
+  /// computes their model matrices and center points for the current frame.
+  ///
+  /// With `computeOrbitsOnGPU` off, the CPU (reference) path is used instead:
+  /// the model matrices are calculated in `renderPlanets` and only the center
+  /// points are uploaded, as the tail and the collisions read them from the GPU.
+  function updateModelMatrices({
+    commandEncoder,
+    planetsBuffers,
+    simulatedTime,
+  }: {
+    commandEncoder: GPUCommandEncoder;
+    planetsBuffers: PlanetInfo[];
+    simulatedTime: number;
+  }) {
+    const bodies = planetsBuffers.slice(0, planetsCount);
+    const advanceOrbits =
+      UI_SETTINGS.computeOrbitsOnGPU &&
+      UI_SETTINGS.motionMode === MotionModeEnum.ELLIPSE;
+
+    if (!advanceOrbits) {
+      uploadPlanetsCenters(bodies);
+      if (!UI_SETTINGS.computeOrbitsOnGPU) {
+        return;
+      }
+    } else if (shouldUploadOrbits) {
+      uploadOrbits({ bodies, centralMass: keplerCentralMass });
+      shouldUploadOrbits = false;
+    }
+
+    computeModelMatrices({
+      commandEncoder,
+      numberOfPlanets: planetsCount,
+      advanceOrbits,
+      elapsedTime: keplerTimeSinceSync,
+      rotation: simulatedTime * ROTATION_SPEED_SENSITIVITY,
+    });
+  }
+
+  function setModelMatricesBuffer({
+    planetsBuffers,
+    simulatedTime,
+  }: {
+    planetsBuffers: PlanetInfo[];
+    simulatedTime: number;
+  }): GPUBuffer {
+    const zAxisRotation = simulatedTime * ROTATION_SPEED_SENSITIVITY;
+
+    // Fill in all model matrices beforehand so you don't have to
+    // `device.queue.writeBuffer` (or direct mapping) for each one of the planets.
+    const allModelMatrices = new Float32Array(
+      (MAT4X4_BYTE_LENGTH * planetsCount) / Float32Array.BYTES_PER_ELEMENT,
+    );
+
+    for (let i = 0; i < planetsCount; i++) {
+      const modelMatrix = getModelMatrix({
+        modelTranslation: planetsBuffers[i].position,
+        modelRotationZ: zAxisRotation,
+      });
 
       allModelMatrices.set(
         modelMatrix,
-        i * (modelMatrixUniformBufferSize / Float32Array.BYTES_PER_ELEMENT),
+        (i * MAT4X4_BYTE_LENGTH) / Float32Array.BYTES_PER_ELEMENT,
       );
     }
 
-    // Add those matrices to the uniform buffer
-    const modelMatrixUniformBuffer = device.createBuffer({
-      label: "model matrix uniform coordinates buffer",
-      size: modelMatrixUniformBufferSize * planetsCount,
-      usage: GPUBufferUsage.UNIFORM,
-      mappedAtCreation: true,
+    // Add those matrices to the storage buffer, reused from frame to frame
+    const capacity = growCapacity({
+      count: planetsCount,
+      capacity: (cpuModelMatricesBuffer?.size ?? 0) / MAT4X4_BYTE_LENGTH,
+      buffers: [cpuModelMatricesBuffer],
     });
-    new Float32Array(modelMatrixUniformBuffer.getMappedRange()).set(
-      allModelMatrices,
-    );
-    modelMatrixUniformBuffer.unmap();
+    if (capacity !== null) {
+      cpuModelMatricesBuffer = device.createBuffer({
+        label: "model matrices buffer",
+        size: MAT4X4_BYTE_LENGTH * capacity,
+        usage: GPUBufferUsage.STORAGE | GPUBufferUsage.COPY_DST,
+      });
+    }
+    device.queue.writeBuffer(cpuModelMatricesBuffer!, 0, allModelMatrices);
+
+    return cpuModelMatricesBuffer!;
+  }
+
+  function getTextureBindGroup(texture: GPUTexture): GPUBindGroup {
+    let textureBindGroup = textureBindGroups.get(texture);
+    if (!textureBindGroup) {
+      textureBindGroup = device.createBindGroup({
+        label: `texture bind group (${texture.label})`,
+        layout: textureBindGroupLayout,
+        entries: [{ binding: 0, resource: texture.createView() }],
+      });
+      textureBindGroups.set(texture, textureBindGroup);
+    }
 
-    return modelMatrixUniformBuffer;
+    return textureBindGroup;
   }
 
   const baseRenderPipeline: GPURenderPipelineDescriptor = {
     label: "render pipeline",
-    layout: device.createPipelineLayout({
-      bindGroupLayouts: [bindGroupLayout],
-    }),
+    layout: pipelineLayout,
     vertex: {
       module: shaderModule,
       entryPoint: "main",
-      buffers: [
-        {
-          arrayStride: 5 * Float32Array.BYTES_PER_ELEMENT, // 3 position + 2 texCoord
-          attributes: [
-            // position
-            {
-              shaderLocation: 0,
-              format: "float32x3",
-              offset: 0,
-            },
-            // texCoord
-            {
-              shaderLocation: 1,
-              format: "float32x2",
-              offset: 3 * Float32Array.BYTES_PER_ELEMENT,
-            },
-          ],
-        },
-      ],
+      buffers: [MESH_VERTEX_BUFFER_LAYOUT, INSTANCE_PLANET_BUFFER_LAYOUT],
     },
     fragment: {
       module: shaderModule,
@@ -277,74 +508,413 @@ export const Render = ({
     }
   }
 
-  async function renderPlanets({
+  function renderPlanets({
     renderPass,
     enableArmor,
-    ellipse_a,
-    eccentricity,
     topology,
     viewProjectionMatrixUniformBuffer,
     planetsBuffers,
+    simulatedTime,
+    cameraPosition,
   }: {
     enableArmor: boolean;
     renderPass: GPURenderPassEncoder;
-    ellipse_a: number;
-    eccentricity: number;
     topology: TopologyEnum;
     viewProjectionMatrixUniformBuffer: GPUBuffer;
     planetsBuffers: PlanetInfo[];
+    simulatedTime: number;
+    cameraPosition: vec3;
   }) {
-    const modelMatrixUniformBuffer = setModelMatrixUniformBuffer({
-      ellipse_a,
-      eccentricity,
-    });
+    if (planetsCount === 0) {
+      return;
+    }
+
+    updateLighting(cameraPosition);
+
+    const modelMatricesBuffer = UI_SETTINGS.computeOrbitsOnGPU
+      ? getModelMatricesBuffer()
+      : setModelMatricesBuffer({
+          planetsBuffers,
+          simulatedTime,
+        });
     const pipeline = getPipelineBasedOnCurrentTopology(topology);
 
-    for (let i = 0; i < planetsCount; i++) {
-      const dynamicOffset = i * modelMatrixUniformBufferSize;
-
-      const { vertexBuffer, indexBuffer, indices, texture } = planetsBuffers[i];
-
-      // Bind Group
-      const bindGroup = device.createBindGroup({
-        label: "bind group element",
-        layout: pipeline.getBindGroupLayout(0),
-        entries: [
-          {
-            binding: 0,
-            resource: {
-              buffer: viewProjectionMatrixUniformBuffer,
+    // Bind Group
+    const bindGroup = device.createBindGroup({
+      label: "planets bind group",
+      layout: bindGroupLayout,
+      entries: [
+        {
+          binding: 0,
+          resource: {
+            buffer: viewProjectionMatrixUniformBuffer,
+          },
+        },
+        {
+          binding: 1,
+          resource: {
+            buffer: modelMatricesBuffer,
+            size: MAT4X4_BYTE_LENGTH * planetsCount,
+          },
+        },
+        { binding: 2, resource: sampler },
+        { binding: 4, resource: { buffer: lightingUniformBuffer } },
+        { binding: 5, resource: { buffer: getPlanetsCentersBuffer() } },
+        { binding: 6, resource: { buffer: getPlanetLodsBuffer() } },
+      ],
+    });
+    renderPass.setBindGroup(0, bindGroup);
+    planetsBindGroup = bindGroup;
+
+    // A single instanced draw per texture and LOD, its instances were chosen by
+    // `selectLevelsOfDetail`
+    getDraws().forEach(
+      ({ lod, texture, instancesOffset, drawArgumentsOffset }) => {
+        const { vertexBuffer, indexBuffer } = getMesh(lod);
+        renderPass.setVertexBuffer(0, vertexBuffer); // position, texCoords and normals
+        renderPass.setVertexBuffer(1, getLodInstancesBuffer(), instancesOffset);
+        renderPass.setIndexBuffer(indexBuffer, "uint32");
+        renderPass.setBindGroup(1, getTextureBindGroup(texture));
+
+        renderPass.setPipeline(pipeline);
+        renderPass.drawIndexedIndirect(
+          getDrawArgumentsBuffer(),
+          drawArgumentsOffset,
+        );
+
+        if (enableArmor) {
+          renderPass.setPipeline(armorPipeline);
+          renderPass.drawIndexedIndirect(
+            getDrawArgumentsBuffer(),
+            drawArgumentsOffset,
+          );
+        }
+      },
+    );
+  }
+
+  // All the rings share the same annulus mesh, each instance stretches it
+  // between the radii of its ring (see `ring_vertex`)
+  const ringMesh = (() => {
+    const { vertices, indices } = createAnnulusMesh({
+      innerRadius: 1,
+      outerRadius: 2,
+      segments: RING_SEGMENTS,
+    });
+
+    const vertexBuffer = device.createBuffer({
+      label: "ring vertices buffer",
+      size: vertices.length * Float32Array.BYTES_PER_ELEMENT,
+      usage: GPUBufferUsage.VERTEX,
+      mappedAtCreation: true,
+    });
+    new Float32Array(vertexBuffer.getMappedRange()).set(vertices);
+    vertexBuffer.unmap();
+
+    const indexBuffer = device.createBuffer({
+      label: "ring index buffer",
+      size: indices.length * Uint32Array.BYTES_PER_ELEMENT,
+      usage: GPUBufferUsage.INDEX,
+      mappedAtCreation: true,
+    });
+    new Uint32Array(indexBuffer.getMappedRange()).set(indices);
+    indexBuffer.unmap();
+
+    return { vertexBuffer, indexBuffer, indexCount: indices.length };
+  })();
+
+  let ringsBuffer: GPUBuffer | null = null;
+  let ringsBindGroup: GPUBindGroup | null = null;
+
+  // Rings pipeline: see-through, so it is drawn after the opaque objects and
+  // doesn't hide what is behind it. Both faces are seen.
+  const ringsPipeline = device.createRenderPipeline({
+    label: "rings render pipeline",
+    layout: device.createPipelineLayout({
+      bindGroupLayouts: [
+        bindGroupLayout,
+        textureBindGroupLayout,
+        ringsBindGroupLayout,
+      ],
+    }),
+    vertex: {
+      module: shaderModule,
+      entryPoint: "ring_vertex",
+      buffers: [MESH_VERTEX_BUFFER_LAYOUT], // one instance per ring, not per planet
+    },
+    fragment: {
+      module: shaderModule,
+      entryPoint: "ring_fragment",
+      targets: [
+        {
+          format,
+          blend: {
+            color: {
+              srcFactor: "src-alpha",
+              dstFactor: "one-minus-src-alpha",
+              operation: "add",
+            },
+            alpha: {
+              srcFactor: "one",
+              dstFactor: "one-minus-src-alpha",
+              operation: "add",
             },
           },
-          {
-            binding: 1,
-            resource: {
-              buffer: modelMatrixUniformBuffer,
-              size: modelMatrixUniformBufferSize,
+        },
+      ],
+    },
+    primitive: { topology: "triangle-list" },
+    depthStencil: {
+      format: "depth24plus",
+      depthWriteEnabled: false,
+      depthCompare: "less",
+    },
+  });
+
+  /// Makes room for (at least) `numberOfRings` (see `growCapacity`)
+  function ensureRingsCapacity(numberOfRings: number) {
+    const capacity = growCapacity({
+      count: numberOfRings,
+      capacity: (ringsBuffer?.size ?? 0) / RING_BYTE_LENGTH,
+      buffers: [ringsBuffer],
+    });
+    if (capacity === null) {
+      return;
+    }
+
+    ringsBuffer = device.createBuffer({
+      label: "rings buffer",
+      size: capacity * RING_BYTE_LENGTH,
+      usage: GPUBufferUsage.STORAGE | GPUBufferUsage.COPY_DST,
+    });
+    ringsBindGroup = device.createBindGroup({
+      label: "rings bind group",
+      layout: ringsBindGroupLayout,
+      entries: [{ binding: 0, resource: { buffer: ringsBuffer } }],
+    });
+  }
+
+  /// Draws the rings of the planets that have them (see `RingInfo`), one
+  /// instance each. It must come after `renderPlanets` in the same render pass,
+  /// and after everything opaque, as they are blended with what is behind them.
+  function renderRings({
+    renderPass,
+    planetsBuffers,
+  }: {
+    renderPass: GPURenderPassEncoder;
+    planetsBuffers: PlanetInfo[];
+  }) {
+    if (planetsCount === 0 || !planetsBindGroup) {
+      return;
+    }
+
+    const ringedPlanets = planetsBuffers
+      .slice(0, planetsCount)
+      .flatMap((planet, i) => (planet.ring ? [{ planet, i }] : []));
+    if (ringedPlanets.length === 0) {
+      return;
+    }
+    ensureRingsCapacity(ringedPlanets.length);
+
+    const rings = new ArrayBuffer(ringedPlanets.length * RING_BYTE_LENGTH);
+    ringedPlanets.forEach(({ planet, i }, ring) => {
+      const { innerRadius, outerRadius, tilt, opacity, texture, bandsSeed } =
+        planet.ring!;
+      const offset = ring * RING_BYTE_LENGTH;
+      new Uint32Array(rings, offset, 1).set([i]);
+      new Float32Array(rings, offset + 4, 4).set([
+        innerRadius,
+        outerRadius,
+        tilt,
+        opacity,
+      ]);
+      new Uint32Array(rings, offset + 5 * 4, 1).set([texture ? 1 : 0]);
+      new Float32Array(rings, offset + 6 * 4, 1).set([bandsSeed]);
+    });
+    device.queue.writeBuffer(ringsBuffer!, 0, rings);
+
+    renderPass.setPipeline(ringsPipeline);
+    renderPass.setBindGroup(0, planetsBindGroup);
+    renderPass.setBindGroup(2, ringsBindGroup);
+    renderPass.setVertexBuffer(0, ringMesh.vertexBuffer);
+    renderPass.setIndexBuffer(ringMesh.indexBuffer, "uint32");
+
+    // The procedural rings don't use the texture, but one must be bound
+    ringedPlanets.forEach(({ planet }, ring) => {
+      renderPass.setBindGroup(
+        1,
+        getTextureBindGroup(planet.ring!.texture ?? planet.texture!),
+      );
+      renderPass.drawIndexed(ringMesh.indexCount, 1, 0, 0, ring);
+    });
+  }
+
+  let atmospheresBuffer: GPUBuffer | null = null;
+  let atmospheresBindGroup: GPUBindGroup | null = null;
+
+  // Atmospheres pipeline: the same sphere meshes as the planets, blended
+  // (premultiplied) over what is behind them without hiding it
+  const atmospheresPipeline = device.createRenderPipeline({
+    ...baseRenderPipeline,
+    label: "atmospheres render pipeline",
+    layout: device.createPipelineLayout({
+      bindGroupLayouts: [
+        bindGroupLayout,
+        textureBindGroupLayout,
+        atmospheresBindGroupLayout,
+      ],
+    }),
+    vertex: {
+      ...baseRenderPipeline.vertex,
+      entryPoint: "atmosphere_vertex",
+    },
+    fragment: {
+      module: shaderModule,
+      entryPoint: "atmosphere_fragment",
+      targets: [
+        {
+          format,
+          blend: {
+            color: {
+              srcFactor: "one",
+              dstFactor: "one-minus-src-alpha",
+              operation: "add",
+            },
+            alpha: {
+              srcFactor: "one",
+              dstFactor: "one-minus-src-alpha",
+              operation: "add",
             },
           },
-          { binding: 2, resource: sampler },
-          { binding: 3, resource: texture!.createView() },
-        ],
-      });
+        },
+      ],
+    },
+    primitive: { topology: "triangle-list" },
+    depthStencil: {
+      format: "depth24plus",
+      depthWriteEnabled: false,
+      depthCompare: "less",
+    },
+  });
 
-      renderPass.setPipeline(pipeline);
-      renderPass.setVertexBuffer(0, vertexBuffer); // position and texCoords
-      renderPass.setIndexBuffer(indexBuffer, "uint32");
-      renderPass.setBindGroup(0, bindGroup, [dynamicOffset]);
-      renderPass.drawIndexed(indices.length);
+  /// Makes room for (at least) `numberOfPlanets` (see `growCapacity`)
+  function ensureAtmospheresCapacity(numberOfPlanets: number) {
+    const capacity = growCapacity({
+      count: numberOfPlanets,
+      capacity: (atmospheresBuffer?.size ?? 0) / ATMOSPHERE_BYTE_LENGTH,
+      buffers: [atmospheresBuffer],
+    });
+    if (capacity === null) {
+      return;
+    }
 
-      if (enableArmor) {
-        renderPass.setPipeline(armorPipeline);
-        renderPass.drawIndexed(indices.length);
-      }
+    atmospheresBuffer = device.createBuffer({
+      label: "atmospheres buffer",
+      size: capacity * ATMOSPHERE_BYTE_LENGTH,
+      usage: GPUBufferUsage.STORAGE | GPUBufferUsage.COPY_DST,
+    });
+    atmospheresBindGroup = device.createBindGroup({
+      label: "atmospheres bind group",
+      layout: atmospheresBindGroupLayout,
+      entries: [{ binding: 0, resource: { buffer: atmospheresBuffer } }],
+    });
+  }
+
+  /// Draws the atmospheres of the planets that have them (see
+  /// `AtmosphereInfo`): a shell around each one, with the same draws (meshes
+  /// and instances) as `renderPlanets`. Planets without one get a shell of no
+  /// thickness, which draws nothing. It must come after `renderPlanets` in the
+  /// same render pass, and after everything opaque.
+  function renderAtmospheres({
+    renderPass,
+    planetsBuffers,
+  }: {
+    renderPass: GPURenderPassEncoder;
+    planetsBuffers: PlanetInfo[];
+  }) {
+    const planets = planetsBuffers.slice(0, planetsCount);
+    if (
+      !planetsBindGroup ||
+      !planets.some(({ atmosphere }) => atmosphere !== undefined)
+    ) {
+      return;
     }
+    ensureAtmospheresCapacity(planets.length);
+
+    const atmospheres = new Float32Array(
+      (planets.length * ATMOSPHERE_BYTE_LENGTH) /
+        Float32Array.BYTES_PER_ELEMENT,
+    );
+    planets.forEach(({ atmosphere }, i) => {
+      if (atmosphere) {
+        atmospheres.set([...atmosphere.color, atmosphere.thickness], i * 4);
+      }
+    });
+    device.queue.writeBuffer(atmospheresBuffer!, 0, atmospheres);
+
+    renderPass.setPipeline(atmospheresPipeline);
+    renderPass.setBindGroup(0, planetsBindGroup);
+    renderPass.setBindGroup(2, atmospheresBindGroup);
+
+    getDraws().forEach(
+      ({ lod, texture, instancesOffset, drawArgumentsOffset }) => {
+        const { vertexBuffer, indexBuffer } = getMesh(lod);
+        renderPass.setVertexBuffer(0, vertexBuffer);
+        renderPass.setVertexBuffer(1, getLodInstancesBuffer(), instancesOffset);
+        renderPass.setIndexBuffer(indexBuffer, "uint32");
+        renderPass.setBindGroup(1, getTextureBindGroup(texture));
+        renderPass.drawIndexedIndirect(
+          getDrawArgumentsBuffer(),
+          drawArgumentsOffset,
+        );
+      },
+    );
+  }
+
+  /// Encodes the compute pass that culls the planets out of the view frustum
+  /// and chooses the mesh (LOD) of the others for the current frame, from how
+  /// big they are on screen (see `lod.ts`). It must come after
+  /// `updateModelMatrices`, which moves the planets.
+  function selectLevelsOfDetail({
+    commandEncoder,
+    planetsBuffers,
+    cameraPosition,
+    viewportHeight,
+    frustumPlanes,
+    cull,
+    onGPU,
+  }: {
+    commandEncoder: GPUCommandEncoder;
+    planetsBuffers: PlanetInfo[];
+    cameraPosition: vec3;
+    viewportHeight: number;
+    frustumPlanes: Float32Array;
+    cull: boolean;
+    onGPU: boolean;
+  }) {
+    selectLevelsOfDetailOnGPU({
+      commandEncoder,
+      planetsBuffers,
+      numberOfPlanets: planetsCount,
+      planetsCentersBuffer: getPlanetsCentersBuffer(),
+      cameraPosition,
+      viewportHeight,
+      frustumPlanes,
+      cull,
+      onGPU,
+    });
   }
 
   return {
+    countVisiblePlanets,
     getNumberOfPlanets,
+    getPlanetsCentersBuffer,
+    renderAtmospheres,
     renderPlanets,
-    getAllModelMatrices,
-    getModelMatrixUniformBufferSize,
+    renderRings,
+    selectLevelsOfDetail,
+    stepSimulation,
+    syncPlanets,
+    updateModelMatrices,
   };
 };
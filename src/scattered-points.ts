@@ -1,192 +1,263 @@
-import { vec3 } from "gl-matrix";
+import { mat4, vec3 } from "gl-matrix";
+import {
+  MAT4X4_BYTE_LENGTH,
+  STARFIELD_ARM_SPREAD,
+  STARFIELD_BULGE_STARS,
+  STARFIELD_CENTER,
+  STARFIELD_RADIUS,
+  STARFIELD_THICKNESS,
+} from "./constants";
+import { Observer } from "./observer";
+import { createRandomGenerator } from "./random";
+import { UI_SETTINGS } from "./ui";
+import { temperatureToColor } from "./utils";
 import scatteredPointsWGSL from "./shaders/scattered-points.wgsl?raw";
-import { MAT4X4_BYTE_LENGTH } from "./constants";
-import { initWebGPUAndCanvas } from "./webgpu";
-import { getModelViewProjectionMatrix } from "./utils";
-
-const { canvas, context, device, format } = await initWebGPUAndCanvas();
-
-// Vertex Data (3D Galaxy)
-const vertexData = [];
-const starCount = 1000;
-
-for (let i = 0; i < starCount; i++) {
-  const angle = Math.random() * 2 * Math.PI;
-  const radius = Math.random();
-  const height = (Math.random() - 0.5) * 0.2; // Spread stars in the Z-axis
-
-  const x = Math.cos(angle) * radius;
-  const y = Math.sin(angle) * radius;
-  const z = height;
-  const w = 1;
-
-  const r = Math.random();
-  const g = Math.random();
-  const b = Math.random();
-  const a = 1;
-
-  vertexData.push(x, y, z, w, r, g, b, a);
-}
-
-const vertexBuffer = device.createBuffer({
-  label: "stars vertices buffer",
-  size: vertexData.length * Float32Array.BYTES_PER_ELEMENT,
-  usage: GPUBufferUsage.VERTEX | GPUBufferUsage.COPY_DST,
-  mappedAtCreation: true,
-});
-new Float32Array(vertexBuffer.getMappedRange()).set(vertexData);
-vertexBuffer.unmap();
-
-// Uniform Buffer (Projection and View Matrix)
-const uniformBuffer = device.createBuffer({
-  label: "uniform buffer",
-  size: MAT4X4_BYTE_LENGTH,
-  usage: GPUBufferUsage.UNIFORM | GPUBufferUsage.COPY_DST,
-});
-
-// Load Texture
-const TEXTURE_WIDTH = 128;
-const TEXTURE_HEIGHT = 128;
-const texture = device.createTexture({
-  size: [TEXTURE_WIDTH, TEXTURE_HEIGHT],
-  format: "rgba8unorm",
-  usage:
-    GPUTextureUsage.TEXTURE_BINDING |
-    GPUTextureUsage.COPY_DST |
-    GPUTextureUsage.RENDER_ATTACHMENT,
-});
-
-// Fill texture with random star patterns
-const textureData = new Uint8Array(TEXTURE_WIDTH * TEXTURE_HEIGHT * 4);
-for (let i = 0; i < textureData.length; i += 4) {
-  const brightness = Math.random() < 0.95 ? 255 : 0; // Sparse stars
-  textureData[i] = brightness;
-  textureData[i + 1] = brightness;
-  textureData[i + 2] = brightness;
-  textureData[i + 3] = 255;
-}
-device.queue.writeTexture(
-  { texture },
-  textureData,
-  { bytesPerRow: TEXTURE_WIDTH * 4 },
-  { width: TEXTURE_WIDTH, height: TEXTURE_HEIGHT, depthOrArrayLayers: 1 },
-);
-
-const sampler = device.createSampler({
-  magFilter: "linear",
-  minFilter: "linear",
-});
-
-const shaderModel = device.createShaderModule({ code: scatteredPointsWGSL });
-
-// Pipeline
-const DEPTH_FORMAT = "depth24plus";
-const pipeline = device.createRenderPipeline({
-  layout: "auto",
-  vertex: {
-    module: shaderModel,
-    entryPoint: "main",
-    buffers: [
-      {
-        arrayStride: Float32Array.BYTES_PER_ELEMENT * 8, // 4 (position) + 4 (color) * 4 bytes
-        attributes: [
-          { shaderLocation: 0, format: "float32x4", offset: 0 }, // position
-          {
-            shaderLocation: 1,
-            format: "float32x4",
-            offset: Float32Array.BYTES_PER_ELEMENT * 4,
-          }, // color
-        ],
-      },
-    ],
-  },
-  fragment: {
-    module: shaderModel,
-    entryPoint: "main_fragment",
-    targets: [{ format }],
-  },
-  primitive: { topology: "point-list" },
-  depthStencil: {
-    format: DEPTH_FORMAT,
-    depthWriteEnabled: true,
-    depthCompare: "less",
-  },
-});
-
-// Depth Buffer
-const depthTexture = device.createTexture({
-  size: [canvas.width, canvas.height],
-  format: DEPTH_FORMAT,
-  usage: GPUTextureUsage.RENDER_ATTACHMENT,
-});
-
-// Bind Group
-const bindGroup = device.createBindGroup({
-  layout: pipeline.getBindGroupLayout(0),
-  entries: [
-    { binding: 0, resource: { buffer: uniformBuffer } },
-    { binding: 1, resource: texture.createView() },
-    { binding: 2, resource: sampler },
-  ],
-});
-
-const passDescriptor: GPURenderPassDescriptor = {
-  colorAttachments: [
-    {
-      view: context.getCurrentTexture().createView(),
-      loadOp: "clear",
-      storeOp: "store",
-      clearValue: { r: 0, g: 0.2, b: 0, a: 1 },
-    },
-  ],
-  depthStencilAttachment: {
-    view: depthTexture.createView(),
-    depthLoadOp: "clear",
-    depthStoreOp: "store",
-    depthClearValue: 1.0,
-  },
+
+export type SpiralGalaxySettings = {
+  seed: number;
+  stars: number;
+  arms: number;
+  winding: number; // turns of each arm from the bulge to the edge
+  bulgeSize: number; // radius of the bulge, in relation to the one of the galaxy
+  temperature: number; // mean colour temperature of the stars (Kelvin)
+  temperatureSpread: number; // standard deviation of the colour temperature
+};
+
+/// Generates the stars of a spiral galaxy (in the XY plane, centered at the
+/// origin, of radius 1).
+///
+/// Some stars are in the bulge, a flattened ball in the center, and the rest are
+/// along the arms: each star is at a random distance from the center and its
+/// arm winds `winding` turns from the bulge to the edge (the farther, the more
+/// the arm has turned). Stars are scattered around the center of their arm, less
+/// so the farther they are, so the arms are sharper at the edge.
+///
+/// The colour of each star is the one of a black body at a (normally
+/// distributed) random temperature. Bulge stars are older, so cooler (redder).
+///
+/// @returns (x, y, z, w, r, g, b, a) * stars, as the vertices of the starfield.
+//
+export const createSpiralGalaxyStars = ({
+  seed,
+  stars,
+  arms,
+  winding,
+  bulgeSize,
+  temperature,
+  temperatureSpread,
+}: SpiralGalaxySettings) => {
+  // Its own sequence, so the planets are the same whether the stars are generated or not
+  const random = createRandomGenerator(seed);
+
+  // Approximately normal (mean 0, standard deviation 1), sum of uniforms
+  const randomNormal = () =>
+    (random() + random() + random() + random() - 2) * Math.sqrt(3);
+
+  const vertices = new Float32Array(stars * 8);
+  for (let i = 0; i < stars; i++) {
+    const isInBulge = bulgeSize > 0 && random() < STARFIELD_BULGE_STARS;
+    const position = vec3.create();
+
+    if (isInBulge) {
+      // Denser in the center
+      const distance = bulgeSize * Math.pow(random(), 2);
+      const azimuth = random() * 2 * Math.PI;
+      const polar = Math.acos(2 * random() - 1);
+      vec3.set(
+        position,
+        distance * Math.sin(polar) * Math.cos(azimuth),
+        distance * Math.sin(polar) * Math.sin(azimuth),
+        distance * Math.cos(polar) * 0.5,
+      );
+    } else {
+      const distance = bulgeSize + (1 - bulgeSize) * random();
+      const alongArm = (distance - bulgeSize) / Math.max(1 - bulgeSize, 1e-6);
+      const arm = Math.floor(random() * arms);
+      const angle =
+        (arm * 2 * Math.PI) / arms +
+        winding * 2 * Math.PI * alongArm +
+        randomNormal() * STARFIELD_ARM_SPREAD * (1 - alongArm / 2);
+      vec3.set(
+        position,
+        distance * Math.cos(angle),
+        distance * Math.sin(angle),
+        randomNormal() * STARFIELD_THICKNESS * (1 - alongArm / 2),
+      );
+    }
+
+    const color = temperatureToColor(
+      temperature +
+        randomNormal() * temperatureSpread -
+        (isInBulge ? temperatureSpread : 0),
+    );
+    const brightness = 0.3 + 0.7 * Math.pow(random(), 2); // Most stars are faint
+
+    vertices.set(
+      [
+        ...position,
+        1,
+        color[0] * brightness,
+        color[1] * brightness,
+        color[2] * brightness,
+        1,
+      ],
+      i * 8,
+    );
+  }
+
+  return vertices;
 };
 
-const perspectiveAspectRatio = canvas.width / canvas.height;
+/// Spiral galaxy in the background of the planets, drawn (as points) in the
+/// same render pass and with the same view-projection matrix (camera) as them.
+/// It is generated again whenever its UI settings (or the seed) change.
+//
+export const Starfield = ({
+  format,
+  device,
+}: {
+  format: GPUTextureFormat;
+  device: GPUDevice;
+}) => {
+  let vertexBuffer: GPUBuffer | null = null;
+  let numberOfStars = 0;
+
+  /// Set observers
+  (["starfield", "seed"] as const).forEach((topic) => {
+    Observer().subscribe(topic, {
+      id: "scattered-points.ts",
+      callback: (_value) => {
+        createStars();
+      },
+    });
+  });
 
-// Animation Loop
-let time = 0;
+  const shaderModule = device.createShaderModule({ code: scatteredPointsWGSL });
 
-function frame() {
-  time += 0.001;
+  // Moves the galaxy (of radius 1 at the origin) to where it is in the world
+  const modelMatrixUniformBuffer = device.createBuffer({
+    label: "starfield model matrix uniform buffer",
+    size: MAT4X4_BYTE_LENGTH,
+    usage: GPUBufferUsage.UNIFORM,
+    mappedAtCreation: true,
+  });
+  new Float32Array(modelMatrixUniformBuffer.getMappedRange()).set(
+    mat4.scale(
+      mat4.create(),
+      mat4.fromTranslation(mat4.create(), STARFIELD_CENTER),
+      [STARFIELD_RADIUS, STARFIELD_RADIUS, STARFIELD_RADIUS],
+    ),
+  );
+  modelMatrixUniformBuffer.unmap();
 
-  const cameraEye: vec3 = [0, 3, 3];
-  const cameraLookupCenter: vec3 = [0, 0, 0];
-  const cameraUp: vec3 = [0, 1, 0];
+  const bindGroupLayout = device.createBindGroupLayout({
+    label: "starfield bind group layout",
+    entries: [
+      {
+        binding: 0, // View-Projection matrix buffer
+        visibility: GPUShaderStage.VERTEX,
+        buffer: {
+          type: "uniform",
+        },
+      },
+      {
+        binding: 1, // Model matrix buffer
+        visibility: GPUShaderStage.VERTEX,
+        buffer: {
+          type: "uniform",
+        },
+      },
+    ],
+  });
 
-  const mvpMatrix = getModelViewProjectionMatrix({
-    cameraEye,
-    cameraLookupCenter,
-    cameraUp,
-    perspectiveAspectRatio,
-    modelRotationZ: time,
+  const pipeline = device.createRenderPipeline({
+    label: "starfield render pipeline",
+    layout: device.createPipelineLayout({
+      bindGroupLayouts: [bindGroupLayout],
+    }),
+    vertex: {
+      module: shaderModule,
+      entryPoint: "main",
+      buffers: [
+        {
+          arrayStride: Float32Array.BYTES_PER_ELEMENT * 8, // 4 (position) + 4 (color) * 4 bytes
+          attributes: [
+            { shaderLocation: 0, format: "float32x4", offset: 0 }, // position
+            {
+              shaderLocation: 1,
+              format: "float32x4",
+              offset: Float32Array.BYTES_PER_ELEMENT * 4,
+            }, // color
+          ],
+        },
+      ],
+    },
+    fragment: {
+      module: shaderModule,
+      entryPoint: "main_fragment",
+      targets: [{ format }],
+    },
+    primitive: { topology: "point-list" },
+    depthStencil: {
+      format: "depth24plus",
+      depthWriteEnabled: true,
+      depthCompare: "less",
+    },
   });
 
-  device.queue.writeBuffer(uniformBuffer, 0, mvpMatrix);
+  function createStars() {
+    const vertices = createSpiralGalaxyStars({
+      seed: UI_SETTINGS.seed,
+      stars: UI_SETTINGS.starfieldStars,
+      arms: UI_SETTINGS.starfieldArms,
+      winding: UI_SETTINGS.starfieldWinding,
+      bulgeSize: UI_SETTINGS.starfieldBulgeSize,
+      temperature: UI_SETTINGS.starfieldTemperature,
+      temperatureSpread: UI_SETTINGS.starfieldTemperatureSpread,
+    });
+
+    vertexBuffer?.destroy();
+    vertexBuffer = device.createBuffer({
+      label: "stars vertices buffer",
+      size: vertices.byteLength,
+      usage: GPUBufferUsage.VERTEX,
+      mappedAtCreation: true,
+    });
+    new Float32Array(vertexBuffer.getMappedRange()).set(vertices);
+    vertexBuffer.unmap();
+
+    numberOfStars = UI_SETTINGS.starfieldStars;
+  }
+  createStars();
 
-  // Update Texture View
-  const colorAttachmentsArray = Array.from(passDescriptor.colorAttachments);
-  colorAttachmentsArray[0]!.view = context.getCurrentTexture().createView();
-  passDescriptor.colorAttachments = colorAttachmentsArray;
+  function renderStarfield({
+    viewProjectionMatrixUniformBuffer,
+    renderPass,
+  }: {
+    viewProjectionMatrixUniformBuffer: GPUBuffer;
+    renderPass: GPURenderPassEncoder;
+  }) {
+    if (!vertexBuffer || numberOfStars === 0) {
+      return;
+    }
 
-  // Command encoder
-  const commandEncoder = device.createCommandEncoder();
-  const passEncoder = commandEncoder.beginRenderPass(passDescriptor);
-  passEncoder.setPipeline(pipeline);
-  passEncoder.setVertexBuffer(0, vertexBuffer);
-  passEncoder.setBindGroup(0, bindGroup);
-  passEncoder.draw(starCount);
-  passEncoder.end();
+    // The view-projection matrix buffer is recreated when the camera moves
+    const bindGroup = device.createBindGroup({
+      label: "starfield bind group",
+      layout: bindGroupLayout,
+      entries: [
+        { binding: 0, resource: { buffer: viewProjectionMatrixUniformBuffer } },
+        { binding: 1, resource: { buffer: modelMatrixUniformBuffer } },
+      ],
+    });
 
-  device.queue.submit([commandEncoder.finish()]);
-  requestAnimationFrame(frame);
-}
+    renderPass.setPipeline(pipeline);
+    renderPass.setVertexBuffer(0, vertexBuffer);
+    renderPass.setBindGroup(0, bindGroup);
+    renderPass.draw(numberOfStars);
+  }
 
-export const initScatteredPoints = () => {
-  requestAnimationFrame(frame);
+  return {
+    renderStarfield,
+  };
 };
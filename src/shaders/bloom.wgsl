@@ -0,0 +1,96 @@
+struct FullscreenOutput {
+  @builtin(position) position: vec4<f32>,
+  @location(0) uv: vec2<f32>,
+}
+
+struct BloomParams {
+  threshold: f32, // how bright (the brightest channel) a pixel must be to bloom
+  intensity: f32, // how much of the bloom is added to the scene
+}
+
+const BLOOM_LEVELS = 5; // same as in `constants.ts`
+
+@group(0) @binding(0)
+var inputTexture: texture_2d<f32>;
+@group(0) @binding(1)
+var inputSampler: sampler;
+@group(0) @binding(2)
+var<uniform> params: BloomParams;
+
+// Blurred bright parts of the scene, each level half the size of the previous one (composite only)
+@group(0) @binding(3)
+var bloom0: texture_2d<f32>;
+@group(0) @binding(4)
+var bloom1: texture_2d<f32>;
+@group(0) @binding(5)
+var bloom2: texture_2d<f32>;
+@group(0) @binding(6)
+var bloom3: texture_2d<f32>;
+@group(0) @binding(7)
+var bloom4: texture_2d<f32>;
+
+/// A single triangle that covers the whole screen (no vertex buffer)
+@vertex
+fn fullscreen_vertex(@builtin(vertex_index) vertexIndex: u32) -> FullscreenOutput {
+  var output: FullscreenOutput;
+  let uv = vec2<f32>(f32((vertexIndex << 1u) & 2u), f32(vertexIndex & 2u));
+  output.position = vec4<f32>(uv * vec2<f32>(2.0, -2.0) + vec2<f32>(-1.0, 1.0), 0.0, 1.0);
+  output.uv = uv;
+  return output;
+}
+
+/// Keeps only what is brighter than the threshold (and by how much)
+@fragment
+fn bright_pass_fragment(input: FullscreenOutput) -> @location(0) vec4<f32> {
+  let color = textureSample(inputTexture, inputSampler, input.uv).rgb;
+  let brightness = max(color.r, max(color.g, color.b));
+  let contribution = max(brightness - params.threshold, 0.0) / max(brightness, 1e-4);
+  return vec4<f32>(color * contribution, 1.0);
+}
+
+/// Copies the input into a smaller texture (the sampler filters it)
+@fragment
+fn downsample_fragment(input: FullscreenOutput) -> @location(0) vec4<f32> {
+  return vec4<f32>(textureSample(inputTexture, inputSampler, input.uv).rgb, 1.0);
+}
+
+/// 9-tap Gaussian blur along the direction, in 5 samples: the taps in between
+/// two texels are taken at once by the linear filtering of the sampler.
+fn gaussian_blur(uv: vec2<f32>, direction: vec2<f32>) -> vec4<f32> {
+  let texel = direction / vec2<f32>(textureDimensions(inputTexture));
+  let near = texel * 1.3846153846;
+  let far = texel * 3.2307692308;
+
+  var color = textureSample(inputTexture, inputSampler, uv).rgb * 0.2270270270;
+  color += textureSample(inputTexture, inputSampler, uv + near).rgb * 0.3162162162;
+  color += textureSample(inputTexture, inputSampler, uv - near).rgb * 0.3162162162;
+  color += textureSample(inputTexture, inputSampler, uv + far).rgb * 0.0702702703;
+  color += textureSample(inputTexture, inputSampler, uv - far).rgb * 0.0702702703;
+  return vec4<f32>(color, 1.0);
+}
+
+@fragment
+fn blur_horizontal_fragment(input: FullscreenOutput) -> @location(0) vec4<f32> {
+  return gaussian_blur(input.uv, vec2<f32>(1.0, 0.0));
+}
+
+@fragment
+fn blur_vertical_fragment(input: FullscreenOutput) -> @location(0) vec4<f32> {
+  return gaussian_blur(input.uv, vec2<f32>(0.0, 1.0));
+}
+
+/// Scene + bloom (the average of its levels, upsampled by the sampler). There
+/// is no tone mapping: what is still brighter than the screen can show is
+/// clipped, so the rest of the scene looks the same as without HDR.
+@fragment
+fn composite_fragment(input: FullscreenOutput) -> @location(0) vec4<f32> {
+  let scene = textureSample(inputTexture, inputSampler, input.uv).rgb;
+  let bloom = (
+    textureSample(bloom0, inputSampler, input.uv).rgb +
+    textureSample(bloom1, inputSampler, input.uv).rgb +
+    textureSample(bloom2, inputSampler, input.uv).rgb +
+    textureSample(bloom3, inputSampler, input.uv).rgb +
+    textureSample(bloom4, inputSampler, input.uv).rgb
+  ) / f32(BLOOM_LEVELS);
+  return vec4<f32>(clamp(scene + params.intensity * bloom, vec3<f32>(0.0), vec3<f32>(1.0)), 1.0);
+}
@@ -0,0 +1,375 @@
+///////////////// Compute shader step ///////////////////////
+//
+// Broad phase: the planets are bucketed into the cells of a uniform grid
+// (a spatial hash, so the world doesn't need to be bounded) using a counting
+// sort. Each planet goes into every cell its swept bounds (the box around it at
+// the previous and at the current check) overlap:
+//
+//   1. `count_planets_per_cell`: each planet finds its cells and counts itself in;
+//   2. `prefix_sum_cells`: exclusive prefix sum of the counts, i.e. where each
+//      cell starts in the sorted planets array;
+//   3. `sort_planets_by_cell`: each planet writes its index in its cells slots;
+//   4. `compute_collision`: each planet only checks the planets that share one
+//      of its cells. A pair sharing more than one cell is only checked in the
+//      cell where their swept bounds start overlapping.
+//
+// The cell size comes from the swept bounds of most planets (see
+// `SPATIAL_HASH_CELL_PERCENTILE`), so a few fast ones don't make the cells as
+// wide as the whole system. The bounds that don't fit in a cell (they span more
+// than 2 cells in some axis) are not bucketed: those planets are checked against
+// all the others instead.
+//
+// Collisions are continuous (swept spheres): the planets move in a straight
+// line from their center at the previous check to the current one, and the
+// earliest time of impact in between is reported. Two planets can only touch in
+// between if their swept bounds overlap, i.e. if they share a cell.
+//
+// `collisions.count` is the number of pairs found, even the ones that didn't fit
+// in `collisions.data` (overflow), so the buffer can be grown for the next check.
+
+struct CollisionPair {
+  a: u32,
+  b: u32,
+  time: f32, // 0: previous check, 1: current check
+  contactX: f32,
+  contactY: f32,
+  contactZ: f32,
+  normalX: f32, // from a to b, at `time`
+  normalY: f32,
+  normalZ: f32,
+  penetration: f32, // how much they overlap at `time`
+  relativeSpeed: f32, // |vB - vA|
+}
+
+struct Collision {
+  count: atomic<u32>,
+  data: array<CollisionPair>,
+}
+
+struct CenterAndRadius {
+  x: f32,
+  y: f32,
+  z: f32,
+  r: f32,
+}
+
+struct PlanetMotion {
+  previousCenter: vec4f, // x, y, z (world space) at the previous check, unused
+  velocity: vec4f, // x, y, z, unused
+}
+
+struct GridParams {
+  cellSize: f32,
+  hashTableSize: u32, // power of two
+}
+
+struct PlanetCell {
+  hash: u32,
+  offset: u32, // position of the planet inside its cell
+}
+
+struct CellEntry {
+  cell: vec3i, // different cells can share the same hash
+  planet: u32,
+}
+
+struct Bounds {
+  lower: vec3f,
+  upper: vec3f,
+}
+
+struct CellRange {
+  first: vec3i,
+  last: vec3i,
+}
+
+const SCAN_WORKGROUP_SIZE = 256u;
+const MAX_CELLS_PER_PLANET = 8u; // same as in `constants.ts`
+
+@group(0) @binding(0) var<storage, read> planetsCenterPointInWorldSpaceAndRadius: array<CenterAndRadius>;
+@group(0) @binding(1) var<storage, read_write> collisions: Collision;
+@group(0) @binding(2) var<uniform> grid: GridParams;
+@group(0) @binding(3) var<storage, read_write> cellCounts: array<atomic<u32>>;
+@group(0) @binding(4) var<storage, read_write> cellStarts: array<u32>; // hashTableSize + 1
+@group(0) @binding(5) var<storage, read_write> planetCells: array<PlanetCell>; // MAX_CELLS_PER_PLANET per planet
+@group(0) @binding(6) var<storage, read_write> sortedPlanets: array<CellEntry>;
+@group(0) @binding(7) var<storage, read> planetsMotion: array<PlanetMotion>;
+
+var<workgroup> partialSums: array<u32, SCAN_WORKGROUP_SIZE>;
+
+fn get_center(planet: CenterAndRadius) -> vec3f {
+  return vec3f(planet.x, planet.y, planet.z);
+}
+
+/// Earliest time, in [0, 1], at which the planets touch while moving in a
+/// straight line from their previous to their current center, or -1 if they
+/// don't. Their distance is |s + v * t|, where `s` is the distance at the
+/// previous check and `v` the relative displacement, so they touch when
+///
+///   (v·v) * t² + 2 * (s·v) * t + (s·s - R²) = 0
+///
+/// where R is the sum of the radii. Planets that were already touching at the
+/// previous check only collide (at 0) if they are not moving apart.
+fn time_of_impact(a: u32, b: u32) -> f32 {
+  let planetA = planetsCenterPointInWorldSpaceAndRadius[a];
+  let planetB = planetsCenterPointInWorldSpaceAndRadius[b];
+  let previousA = planetsMotion[a].previousCenter.xyz;
+  let previousB = planetsMotion[b].previousCenter.xyz;
+
+  let s = previousB - previousA;
+  let v = (get_center(planetB) - previousB) - (get_center(planetA) - previousA);
+  let sumOfRadius = planetA.r + planetB.r;
+
+  let c = dot(s, s) - sumOfRadius * sumOfRadius;
+  let vv = dot(v, v);
+  let sv = dot(s, v);
+  if (c <= 0.0) {
+    return select(0.0, -1.0, sv > 0.0); // already touching at the previous check
+  }
+
+  if (sv >= 0.0 || vv == 0.0) {
+    return -1.0; // moving apart (or not moving at all)
+  }
+
+  let discriminant = sv * sv - vv * c;
+  if (discriminant < 0.0) {
+    return -1.0;
+  }
+
+  let time = (-sv - sqrt(discriminant)) / vv;
+  return select(-1.0, time, time <= 1.0);
+}
+
+fn check_collision(a: u32, b: u32) {
+  let time = time_of_impact(a, b);
+  if (time < 0.0) {
+    return;
+  }
+
+  let index = atomicAdd(&collisions.count, 1); // Atomically get the next index
+  if (index >= arrayLength(&collisions.data)) {
+    return; // overflow: only counted
+  }
+
+  let planetA = planetsCenterPointInWorldSpaceAndRadius[a];
+  let planetB = planetsCenterPointInWorldSpaceAndRadius[b];
+  let centerA = mix(planetsMotion[a].previousCenter.xyz, get_center(planetA), time);
+  let centerB = mix(planetsMotion[b].previousCenter.xyz, get_center(planetB), time);
+
+  let distance = length(centerB - centerA);
+  // Same center: any direction will do
+  let normal = select(vec3f(1.0, 0.0, 0.0), (centerB - centerA) / distance, distance > 0.0);
+  let penetration = max(planetA.r + planetB.r - distance, 0.0);
+  let relativeSpeed = length(planetsMotion[b].velocity.xyz - planetsMotion[a].velocity.xyz);
+
+  // On the segment between both centers (at `time`), at radius of `a`
+  let contactPoint = centerA + normal * (planetA.r - penetration / 2.0);
+
+  let pair = CollisionPair(
+    a,
+    b,
+    time,
+    contactPoint.x,
+    contactPoint.y,
+    contactPoint.z,
+    normal.x,
+    normal.y,
+    normal.z,
+    penetration,
+    relativeSpeed,
+  );
+  collisions.data[index] = pair;
+}
+
+/// Box around the planet at the previous and at the current check
+fn get_swept_bounds(idx: u32) -> Bounds {
+  let planet = planetsCenterPointInWorldSpaceAndRadius[idx];
+  let current = get_center(planet);
+  let previous = planetsMotion[idx].previousCenter.xyz;
+  let radius = abs(planet.r);
+
+  return Bounds(min(previous, current) - radius, max(previous, current) + radius);
+}
+
+fn get_cell(point: vec3f) -> vec3i {
+  return vec3i(floor(point / grid.cellSize));
+}
+
+fn get_cells(bounds: Bounds) -> CellRange {
+  return CellRange(get_cell(bounds.lower), get_cell(bounds.upper));
+}
+
+/// Doesn't fit in a cell: it would take more than `MAX_CELLS_PER_PLANET` cells
+fn is_oversized(cells: CellRange) -> bool {
+  return any(cells.last - cells.first > vec3i(1));
+}
+
+fn hash_cell(cell: vec3i) -> u32 {
+  let c = bitcast<vec3u>(cell);
+  return ((c.x * 73856093u) ^ (c.y * 19349663u) ^ (c.z * 83492791u)) & (grid.hashTableSize - 1u);
+}
+
+@compute @workgroup_size(64)
+fn count_planets_per_cell(@builtin(global_invocation_id) globalID: vec3u) {
+  let currentIdx = globalID.x;
+
+  if (currentIdx >= arrayLength(&planetsCenterPointInWorldSpaceAndRadius)) {
+    return;
+  }
+
+  let cells = get_cells(get_swept_bounds(currentIdx));
+  if (is_oversized(cells)) {
+    return;
+  }
+
+  var k = currentIdx * MAX_CELLS_PER_PLANET;
+  for (var z = cells.first.z; z <= cells.last.z; z++) {
+    for (var y = cells.first.y; y <= cells.last.y; y++) {
+      for (var x = cells.first.x; x <= cells.last.x; x++) {
+        let hash = hash_cell(vec3i(x, y, z));
+        let offset = atomicAdd(&cellCounts[hash], 1u);
+        planetCells[k] = PlanetCell(hash, offset);
+        k++;
+      }
+    }
+  }
+}
+
+/// Single workgroup scan: each invocation sums a contiguous chunk of cells, the
+/// chunk totals are scanned in workgroup memory (Hillis-Steele) and then each
+/// invocation writes the starts of its chunk.
+@compute @workgroup_size(SCAN_WORKGROUP_SIZE)
+fn prefix_sum_cells(@builtin(local_invocation_index) localIdx: u32) {
+  let cellsPerInvocation = (grid.hashTableSize + SCAN_WORKGROUP_SIZE - 1u) / SCAN_WORKGROUP_SIZE;
+  let firstCell = localIdx * cellsPerInvocation;
+  let lastCell = min(firstCell + cellsPerInvocation, grid.hashTableSize);
+
+  var chunkSum = 0u;
+  for (var cell = firstCell; cell < lastCell; cell++) {
+    chunkSum += atomicLoad(&cellCounts[cell]);
+  }
+  partialSums[localIdx] = chunkSum;
+  workgroupBarrier();
+
+  for (var stride = 1u; stride < SCAN_WORKGROUP_SIZE; stride *= 2u) {
+    var value = 0u;
+    if (localIdx >= stride) {
+      value = partialSums[localIdx - stride];
+    }
+    workgroupBarrier();
+    partialSums[localIdx] += value;
+    workgroupBarrier();
+  }
+
+  var start = partialSums[localIdx] - chunkSum; // inclusive -> exclusive
+  for (var cell = firstCell; cell < lastCell; cell++) {
+    cellStarts[cell] = start;
+    start += atomicLoad(&cellCounts[cell]);
+  }
+
+  if (localIdx == SCAN_WORKGROUP_SIZE - 1u) {
+    cellStarts[grid.hashTableSize] = partialSums[localIdx];
+  }
+}
+
+@compute @workgroup_size(64)
+fn sort_planets_by_cell(@builtin(global_invocation_id) globalID: vec3u) {
+  let currentIdx = globalID.x;
+
+  if (currentIdx >= arrayLength(&planetsCenterPointInWorldSpaceAndRadius)) {
+    return;
+  }
+
+  let cells = get_cells(get_swept_bounds(currentIdx));
+  if (is_oversized(cells)) {
+    return;
+  }
+
+  var k = currentIdx * MAX_CELLS_PER_PLANET;
+  for (var z = cells.first.z; z <= cells.last.z; z++) {
+    for (var y = cells.first.y; y <= cells.last.y; y++) {
+      for (var x = cells.first.x; x <= cells.last.x; x++) {
+        let planetCell = planetCells[k];
+        sortedPlanets[cellStarts[planetCell.hash] + planetCell.offset] = CellEntry(vec3i(x, y, z), currentIdx);
+        k++;
+      }
+    }
+  }
+}
+
+/// Checks the planet against all the others. Only for the oversized ones, which
+/// are not in the grid.
+fn check_collision_with_all(currentIdx: u32) {
+  for (var i = 0u; i < arrayLength(&planetsCenterPointInWorldSpaceAndRadius); i++) {
+    if (i == currentIdx) {
+      continue;
+    }
+
+    // Both oversized: checked by the first one
+    if (i < currentIdx && is_oversized(get_cells(get_swept_bounds(i)))) {
+      continue;
+    }
+
+    check_collision(min(currentIdx, i), max(currentIdx, i));
+  }
+}
+
+@compute @workgroup_size(64)
+fn compute_collision(@builtin(global_invocation_id) globalID: vec3u) {
+  let currentIdx = globalID.x;
+
+  if (currentIdx >= arrayLength(&planetsCenterPointInWorldSpaceAndRadius)) {
+    return;
+  }
+
+  let bounds = get_swept_bounds(currentIdx);
+  let cells = get_cells(bounds);
+  if (is_oversized(cells)) {
+    check_collision_with_all(currentIdx);
+    return;
+  }
+
+  for (var z = cells.first.z; z <= cells.last.z; z++) {
+    for (var y = cells.first.y; y <= cells.last.y; y++) {
+      for (var x = cells.first.x; x <= cells.last.x; x++) {
+        let cell = vec3i(x, y, z);
+        let hash = hash_cell(cell);
+
+        for (var s = cellStarts[hash]; s < cellStarts[hash + 1u]; s++) {
+          let entry = sortedPlanets[s];
+          let i = entry.planet;
+
+          // Same as the brute force: only report (a, b) with a < b
+          if (i <= currentIdx || any(entry.cell != cell)) {
+            continue;
+          }
+
+          // Only in the cell where their bounds start overlapping, so a pair
+          // sharing more than one cell is reported once
+          let otherBounds = get_swept_bounds(i);
+          let overlapStart = max(bounds.lower, otherBounds.lower);
+          let overlapEnd = min(bounds.upper, otherBounds.upper);
+          if (any(overlapStart > overlapEnd) || any(get_cell(overlapStart) != cell)) {
+            continue;
+          }
+
+          check_collision(currentIdx, i);
+        }
+      }
+    }
+  }
+}
+
+/// Reference O(n²) path: each planet checks every later one.
+@compute @workgroup_size(64)
+fn compute_collision_brute_force(@builtin(global_invocation_id) globalID: vec3u) {
+  let currentIdx = globalID.x;
+
+  if (currentIdx >= arrayLength(&planetsCenterPointInWorldSpaceAndRadius)) {
+    return;
+  }
+
+  for (var i = currentIdx+1; i < arrayLength(&planetsCenterPointInWorldSpaceAndRadius); i++) {
+    check_collision(currentIdx, i);
+  }
+}
@@ -0,0 +1,92 @@
+///////////////// Compute shader step ///////////////////////
+//
+// Culls the planets out of the view frustum, chooses the mesh (level of detail)
+// of the others from how big they are on screen, and lays out the instanced
+// draws of the planets accordingly:
+//
+// The instances come grouped by texture (one group per texture, see `lod.ts`).
+// Each visible planet goes into the instances of its group and LOD, and the
+// instance count of that draw (indirect draw arguments) goes up by one. LOD 0
+// is the finest mesh.
+
+struct LodParams {
+  cameraPosition: vec3f, // world space
+  projectionScale: f32, // pixels of something of size 1 at distance 1
+  thresholds: vec3f, // pixels: screen radius below which a planet uses a coarser mesh than LOD i
+  hysteresis: f32, // how far (in relation) past a threshold the screen radius must go to switch
+  numberOfInstances: u32,
+  numberOfGroups: u32,
+  cull: u32, // planets out of the view frustum are not drawn
+  frustumPlanes: array<vec4f, 6>, // normal (pointing inside) and distance, see `getFrustumPlanes`
+}
+
+const LOD_LEVELS = 4u; // same as in `constants.ts`
+const DRAW_ARGUMENTS = 5u; // indexCount, instanceCount, firstIndex, baseVertex, firstInstance
+
+@group(0) @binding(0) var<uniform> params: LodParams;
+@group(0) @binding(1) var<storage, read> instances: array<vec2u>; // planet, group
+@group(0) @binding(2) var<storage, read> groupFirstInstance: array<u32>;
+@group(0) @binding(3) var<storage, read> planetsCenterPointInWorldSpaceAndRadius: array<vec4f>; // x, y, z, r
+@group(0) @binding(4) var<storage, read_write> planetLods: array<u32>; // the one of the previous frame, for the hysteresis
+@group(0) @binding(5) var<storage, read_write> lodInstances: array<u32>; // planet of each instance, LOD after LOD
+@group(0) @binding(6) var<storage, read_write> drawArguments: array<atomic<u32>>; // LOD after LOD, group after group
+
+/// Bounding sphere test: the planet is out if it is entirely behind a plane
+fn is_in_frustum(centerAndRadius: vec4f) -> bool {
+  for (var i = 0; i < 6; i++) {
+    let plane = params.frustumPlanes[i];
+    if (dot(plane.xyz, centerAndRadius.xyz) + plane.w < -centerAndRadius.w) {
+      return false;
+    }
+  }
+  return true;
+}
+
+/// Radius of the planet on screen, in pixels
+fn get_screen_radius(centerAndRadius: vec4f) -> f32 {
+  let distance = length(centerAndRadius.xyz - params.cameraPosition);
+  if (distance <= centerAndRadius.w) {
+    return 3.402823e38; // The camera is inside the planet
+  }
+  return centerAndRadius.w / distance * params.projectionScale;
+}
+
+/// A planet is past a threshold (so it uses a coarser mesh) once it is smaller
+/// than it by the hysteresis, and it is not back until it is bigger than it by
+/// the hysteresis.
+fn select_lod(screenRadius: f32, previousLod: u32) -> u32 {
+  var lod = 0u;
+  for (var i = 0u; i < LOD_LEVELS - 1u; i++) {
+    let threshold = params.thresholds[i];
+    let wasPast = previousLod > i;
+    let hysteresis = select(-params.hysteresis, params.hysteresis, wasPast);
+    if (screenRadius < threshold * (1.0 + hysteresis)) {
+      lod = i + 1u;
+    }
+  }
+  return lod;
+}
+
+@compute @workgroup_size(64)
+fn select_levels_of_detail(@builtin(global_invocation_id) globalID: vec3u) {
+  let currentIdx = globalID.x;
+
+  if (currentIdx >= params.numberOfInstances) {
+    return;
+  }
+
+  let planet = instances[currentIdx].x;
+  let group = instances[currentIdx].y;
+  let centerAndRadius = planetsCenterPointInWorldSpaceAndRadius[planet];
+
+  if (params.cull != 0u && !is_in_frustum(centerAndRadius)) {
+    return;
+  }
+
+  let lod = select_lod(get_screen_radius(centerAndRadius), planetLods[planet]);
+  planetLods[planet] = lod;
+
+  let draw = lod * params.numberOfGroups + group;
+  let slot = atomicAdd(&drawArguments[draw * DRAW_ARGUMENTS + 1u], 1u);
+  lodInstances[lod * params.numberOfInstances + groupFirstInstance[group] + slot] = planet;
+}
@@ -0,0 +1,157 @@
+///////////////// Compute shader step ///////////////////////
+//
+// Moves the planets and builds their model matrices on the GPU, so the CPU
+// doesn't have to go through every planet every frame:
+//
+//   1. `advance_kepler_orbits` (ellipse motion mode only): each planet solves
+//      Kepler's equation for where it is along its orbit `elapsedTime` seconds
+//      after the orbits were uploaded (same as `orbitalElementsToStateVectors`
+//      in `kepler.ts`, but with 32-bit floats), relative to what it orbits;
+//   2. `resolve_hierarchy` (ellipse motion mode only): each planet goes up its
+//      parents adding their relative centers, so it ends up in world space (same
+//      as `resolveHierarchy` in `hierarchy.ts`);
+//   3. `compute_model_matrices`: each planet writes T(center) * Rz(rotation)
+//      (same as `getModelMatrix` in `utils.ts`), read by the instanced draws of
+//      the planets.
+//
+// In the gravity motion mode the centers are uploaded by the CPU (which keeps
+// integrating the planets) and only the last pass runs.
+
+struct Orbit {
+  semiMajorAxis: f32,
+  eccentricity: f32,
+  inclination: f32,
+  longitudeOfAscendingNode: f32,
+  argumentOfPeriapsis: f32,
+  meanAnomaly: f32, // when the orbits were uploaded
+  radius: f32, // of the planet
+  mu: f32, // G * mass it orbits around
+  parent: i32, // -1: the central mass at the origin
+  companion: i32, // binary companion, -1: none
+  binary: u32, // it and its parent orbit their barycenter
+  weight: f32, // how much of the relative center it takes (1 unless binary)
+}
+
+struct OrbitParams {
+  elapsedTime: f32, // since the orbits were uploaded (negative when running backwards)
+  rotation: f32, // of every planet around its own Z axis
+  numberOfPlanets: u32,
+}
+
+const TWO_PI = 6.283185307179586;
+const KEPLER_MAX_ITERATIONS = 30;
+const KEPLER_TOLERANCE = 1e-6; // f32 can't do much better than that
+const MAX_HIERARCHY_DEPTH = 8; // same as in `constants.ts`
+
+@group(0) @binding(0) var<uniform> params: OrbitParams;
+@group(0) @binding(1) var<storage, read> orbits: array<Orbit>;
+@group(0) @binding(2) var<storage, read_write> planetsCenterPointInWorldSpaceAndRadius: array<vec4f>; // x, y, z, r
+@group(0) @binding(3) var<storage, read_write> modelMatrices: array<mat4x4f>;
+@group(0) @binding(4) var<storage, read_write> planetsRelativeCenterPointAndRadius: array<vec4f>; // x, y, z, r
+
+/// M = E - e * sin(E), with Newton-Raphson iterations
+fn solve_kepler_equation(meanAnomaly: f32, eccentricity: f32) -> f32 {
+  let M = meanAnomaly - TWO_PI * floor(meanAnomaly / TWO_PI);
+  var E = select(M, 3.141592653589793, eccentricity >= 0.8);
+
+  for (var i = 0; i < KEPLER_MAX_ITERATIONS; i++) {
+    let delta = (E - eccentricity * sin(E) - M) / (1.0 - eccentricity * cos(E));
+    E -= delta;
+
+    if (abs(delta) < KEPLER_TOLERANCE) {
+      break;
+    }
+  }
+
+  return E;
+}
+
+@compute @workgroup_size(64)
+fn advance_kepler_orbits(@builtin(global_invocation_id) globalID: vec3u) {
+  let currentIdx = globalID.x;
+
+  if (currentIdx >= params.numberOfPlanets) {
+    return;
+  }
+
+  let orbit = orbits[currentIdx];
+  let a = orbit.semiMajorAxis;
+  let e = orbit.eccentricity;
+
+  // M = M0 + n * t
+  let meanMotion = sqrt(orbit.mu / (a * a * a));
+  let E = solve_kepler_equation(orbit.meanAnomaly + meanMotion * params.elapsedTime, e);
+
+  // Perifocal frame
+  let xP = a * (cos(E) - e);
+  let yP = a * sqrt(1.0 - e * e) * sin(E);
+
+  // Rz(Ω) * Rx(i) * Rz(ω)
+  let cosO = cos(orbit.longitudeOfAscendingNode);
+  let sinO = sin(orbit.longitudeOfAscendingNode);
+  let cosW = cos(orbit.argumentOfPeriapsis);
+  let sinW = sin(orbit.argumentOfPeriapsis);
+  let cosI = cos(orbit.inclination);
+  let sinI = sin(orbit.inclination);
+
+  let p = vec3f(cosO * cosW - sinO * sinW * cosI, sinO * cosW + cosO * sinW * cosI, sinW * sinI);
+  let q = vec3f(-cosO * sinW - sinO * cosW * cosI, -sinO * sinW + cosO * cosW * cosI, cosW * sinI);
+
+  planetsRelativeCenterPointAndRadius[currentIdx] = vec4f(xP * p + yP * q, orbit.radius);
+}
+
+/// w(p) * relative(p) - companionOffset(p), see `hierarchy.ts`
+fn get_offset(idx: i32, withCompanion: bool) -> vec3f {
+  let orbit = orbits[idx];
+  var offset = orbit.weight * planetsRelativeCenterPointAndRadius[idx].xyz;
+
+  if (withCompanion && orbit.companion >= 0) {
+    let companionWeight = 1.0 - orbits[orbit.companion].weight;
+    offset -= companionWeight * planetsRelativeCenterPointAndRadius[orbit.companion].xyz;
+  }
+
+  return offset;
+}
+
+@compute @workgroup_size(64)
+fn resolve_hierarchy(@builtin(global_invocation_id) globalID: vec3u) {
+  let currentIdx = globalID.x;
+
+  if (currentIdx >= params.numberOfPlanets) {
+    return;
+  }
+
+  var center = get_offset(i32(currentIdx), true);
+
+  // Up the hierarchy: a binary planet is anchored at the barycenter, which is
+  // where its parent would be without it
+  var child = i32(currentIdx);
+  var parent = orbits[child].parent;
+  for (var depth = 0; depth < MAX_HIERARCHY_DEPTH && parent >= 0; depth++) {
+    center += get_offset(parent, orbits[child].binary == 0u);
+    child = parent;
+    parent = orbits[child].parent;
+  }
+
+  planetsCenterPointInWorldSpaceAndRadius[currentIdx] = vec4f(center, planetsRelativeCenterPointAndRadius[currentIdx].w);
+}
+
+@compute @workgroup_size(64)
+fn compute_model_matrices(@builtin(global_invocation_id) globalID: vec3u) {
+  let currentIdx = globalID.x;
+
+  if (currentIdx >= params.numberOfPlanets) {
+    return;
+  }
+
+  let center = planetsCenterPointInWorldSpaceAndRadius[currentIdx].xyz;
+  let c = cos(params.rotation);
+  let s = sin(params.rotation);
+
+  modelMatrices[currentIdx] = mat4x4f(
+    vec4f(c, s, 0.0, 0.0),
+    vec4f(-s, c, 0.0, 0.0),
+    vec4f(0.0, 0.0, 1.0, 0.0),
+    vec4f(center, 1.0),
+  );
+}
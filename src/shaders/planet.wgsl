@@ -1,43 +1,111 @@
 struct VertexInput {
   @location(0) position: vec3<f32>,
   @location(1) texCoord: vec2<f32>,
+  @location(2) normal: vec3<f32>,
+  @location(3) planet: u32, // of the instance
 }
 
 struct VertexOutput {
   @builtin(position) position: vec4<f32>,
   @location(0) uv: vec2<f32>,
+  @location(1) worldPosition: vec3<f32>,
+  @location(2) normal: vec3<f32>,
+  @location(3) @interpolate(flat) lod: u32,
 }
 
+struct PointLight {
+  position: vec3<f32>, // world space
+  intensity: f32,
+  color: vec3<f32>,
+}
+
+struct Lighting {
+  cameraPosition: vec3<f32>, // world space
+  ambient: f32,
+  numberOfLights: u32,
+  debugLod: u32, // colour the planets by their LOD instead of their texture
+  lights: array<PointLight, MAX_LIGHTS>,
+}
+
+const MAX_LIGHTS = 4; // same as in `constants.ts`
+const LIGHT_ATTENUATION = 0.0001; // light at a distance d is 1 / (1 + LIGHT_ATTENUATION * d²) as intense
+const SPECULAR_STRENGTH = 0.5;
+const SHININESS = 32.0;
+const LOD_LEVELS = 4; // same as in `constants.ts`
+
 ///////////////// Vertex shader step ///////////////////////
 @group(0) @binding(0)
 var<uniform> viewProjectionMatrix: mat4x4<f32>;
 
 @group(0) @binding(1)
-var<uniform> modelMatrix: mat4x4<f32>;
+var<storage, read> modelMatrices: array<mat4x4<f32>>;
+
+@group(0) @binding(5)
+var<storage, read> planetsCenterPointAndRadius: array<vec4<f32>>; // x, y, z, r
+
+// Chosen by `lod.wgsl` in the current frame
+@group(0) @binding(6)
+var<storage, read> planetLods: array<u32>;
 
+/// All the planets share the same unit sphere meshes (one per LOD): each
+/// instance scales it by the radius of its planet and moves it with the model
+/// matrix of the planet.
 @vertex
 fn main(input: VertexInput) -> VertexOutput {
   var output: VertexOutput;
-  output.position = viewProjectionMatrix * modelMatrix * vec4<f32>(input.position, 1.0);
+  let planet = input.planet;
+  let modelMatrix = modelMatrices[planet];
+  let radius = planetsCenterPointAndRadius[planet].w;
+  let worldPosition = modelMatrix * vec4<f32>(input.position * radius, 1.0);
+  output.position = viewProjectionMatrix * worldPosition;
   output.uv = input.texCoord;
-  return output;
-}
-
-@vertex
-fn planet_tail_vertex(@location(0) center: vec3<f32>) -> @builtin(position) vec4<f32> {
-  let output = viewProjectionMatrix * vec4<f32>(center, 1.0);
+  output.worldPosition = worldPosition.xyz;
+  // The model matrix only rotates and translates (no scaling), so it keeps the normals perpendicular
+  output.normal = (modelMatrix * vec4<f32>(input.normal, 0.0)).xyz;
+  output.lod = planetLods[planet];
   return output;
 }
 
 ///////////////// Fragment shader step ///////////////////////
 @group(0) @binding(2)
 var textureSampler: sampler;
-@group(0) @binding(3)
+@group(0) @binding(4)
+var<uniform> lighting: Lighting;
+@group(1) @binding(0)
 var sphereTexture: texture_2d<f32>;
 
+/// Blinn-Phong: ambient + (diffuse + specular) of each point light
 @fragment
-fn main_fragment(@location(0) uv: vec2<f32>) -> @location(0) vec4<f32> {
-  return textureSample(sphereTexture, textureSampler, uv);
+fn main_fragment(input: VertexOutput) -> @location(0) vec4<f32> {
+  var albedo = textureSample(sphereTexture, textureSampler, input.uv);
+  if (lighting.debugLod != 0u) {
+    var lodColors = array<vec4<f32>, LOD_LEVELS>(
+      vec4<f32>(1.0, 0.2, 0.2, 1.0), // finest
+      vec4<f32>(1.0, 0.8, 0.2, 1.0),
+      vec4<f32>(0.2, 1.0, 0.2, 1.0),
+      vec4<f32>(0.2, 0.4, 1.0, 1.0), // coarsest
+    );
+    albedo = lodColors[min(input.lod, LOD_LEVELS - 1)];
+  }
+  let normal = normalize(input.normal);
+  let toCamera = normalize(lighting.cameraPosition - input.worldPosition);
+
+  var color = lighting.ambient * albedo.rgb;
+  for (var i = 0u; i < min(lighting.numberOfLights, MAX_LIGHTS); i++) {
+    let light = lighting.lights[i];
+    let toLight = light.position - input.worldPosition;
+    let distance = length(toLight);
+    let lightDirection = toLight / max(distance, 1e-6);
+    let attenuation = light.intensity / (1.0 + LIGHT_ATTENUATION * distance * distance);
+
+    let diffuse = max(dot(normal, lightDirection), 0.0);
+    let halfway = normalize(lightDirection + toCamera);
+    let specular = select(0.0, SPECULAR_STRENGTH * pow(max(dot(normal, halfway), 0.0), SHININESS), diffuse > 0.0);
+
+    color += (diffuse * albedo.rgb + specular) * light.color * attenuation;
+  }
+
+  return vec4<f32>(color, albedo.a);
 }
 
 @fragment
@@ -45,74 +113,202 @@ fn armor_fragment() -> @location(0) vec4<f32> {
   return vec4<f32>(0.0, 1.0, 0.0, 1.0);
 }
 
-@fragment
-fn planet_tail_fragment() -> @location(0) vec4<f32> {
-  return vec4<f32>(0.0, 1.0, 1.0, 1.0);
+///////////////// Rings ///////////////////////
+
+struct RingVertexInput {
+  @location(0) position: vec3<f32>, // only its direction is used
+  @location(1) texCoord: vec2<f32>, // u: from the inner edge (0) to the outer one (1)
+  @builtin(instance_index) ring: u32,
 }
 
-///////////////// Compute shader step ///////////////////////
-struct CollisionPair {
-  a: u32,
-  b: u32,
+struct RingVertexOutput {
+  @builtin(position) position: vec4<f32>,
+  @location(0) uv: vec2<f32>,
+  @location(1) worldPosition: vec3<f32>,
+  @location(2) normal: vec3<f32>,
+  @location(3) @interpolate(flat) ring: u32,
 }
 
-struct Collision {
-  count: atomic<u32>,
-  data: array<CollisionPair>,
+struct Ring {
+  planet: u32,
+  innerRadius: f32, // in planet radii
+  outerRadius: f32, // in planet radii
+  tilt: f32, // radians, around the X axis
+  opacity: f32, // of the densest bands
+  textured: u32, // the bands come from the texture of the draw, otherwise they are procedural
+  bandsSeed: f32,
 }
 
-struct CenterAndRadius {
-  x: f32,
-  y: f32,
-  z: f32,
-  r: f32,
+// Only the planets that have rings, see `renderRings`
+@group(2) @binding(0)
+var<storage, read> rings: array<Ring>;
+
+/// All the rings share the same annulus mesh: each instance stretches it
+/// between the radii of its ring, tilts it and moves it with the model matrix
+/// of its planet. The tilt comes after the rotation of the planet, so the ring
+/// spins in its own plane instead of wobbling.
+@vertex
+fn ring_vertex(input: RingVertexInput) -> RingVertexOutput {
+  var output: RingVertexOutput;
+  let ring = rings[input.ring];
+  let modelMatrix = modelMatrices[ring.planet];
+  let radius = planetsCenterPointAndRadius[ring.planet].w;
+
+  let c = cos(ring.tilt);
+  let s = sin(ring.tilt);
+  let tiltMatrix = mat3x3<f32>(vec3<f32>(1.0, 0.0, 0.0), vec3<f32>(0.0, c, s), vec3<f32>(0.0, -s, c));
+  let rotationMatrix = mat3x3<f32>(modelMatrix[0].xyz, modelMatrix[1].xyz, modelMatrix[2].xyz);
+
+  let distance = mix(ring.innerRadius, ring.outerRadius, input.texCoord.x) * radius;
+  let localPosition = vec3<f32>(normalize(input.position.xy) * distance, 0.0);
+  let worldPosition = modelMatrix[3].xyz + tiltMatrix * (rotationMatrix * localPosition);
+
+  output.position = viewProjectionMatrix * vec4<f32>(worldPosition, 1.0);
+  output.uv = input.texCoord;
+  output.worldPosition = worldPosition;
+  output.normal = tiltMatrix * (rotationMatrix * vec3<f32>(0.0, 0.0, 1.0));
+  output.ring = input.ring;
+  return output;
 }
 
-@group(0) @binding(0) var<storage, read> planetsCenterPointInWorldSpaceAndRadius: array<CenterAndRadius>;
-@group(0) @binding(1) var<storage, read_write> collisions: Collision;
+/// How dense the ring is (0 to 1) at `u`, with a gap somewhere in it
+fn get_procedural_density(u: f32, seed: f32) -> f32 {
+  let bands = 0.6 + 0.25 * sin(u * 37.0 + seed * 17.0) + 0.15 * sin(u * 91.0 + seed * 29.0);
+  let gap = 0.3 + 0.4 * fract(seed * 7.0);
+  return bands * smoothstep(0.0, 0.03, abs(u - gap));
+}
+
+/// Thin and flat: it is lit from either side (diffuse only) and blended with
+/// what is behind it, more or less depending on how dense its bands are.
+@fragment
+fn ring_fragment(input: RingVertexOutput) -> @location(0) vec4<f32> {
+  let ring = rings[input.ring];
+  let u = input.uv.x;
+
+  // Across the latitude bands of the texture
+  let texel = textureSample(sphereTexture, textureSampler, vec2<f32>(0.5, u));
+
+  var albedo = mix(vec3<f32>(0.85, 0.75, 0.6), vec3<f32>(0.6, 0.5, 0.4), 0.5 + 0.5 * sin(u * 23.0 + ring.bandsSeed * 11.0));
+  var density = get_procedural_density(u, ring.bandsSeed);
+  if (ring.textured != 0u) {
+    albedo = texel.rgb;
+    density = 0.4 + 0.6 * dot(texel.rgb, vec3<f32>(0.299, 0.587, 0.114));
+  }
+  let edges = smoothstep(0.0, 0.05, u) * smoothstep(1.0, 0.95, u);
+
+  let normal = normalize(input.normal);
+  var color = lighting.ambient * albedo;
+  for (var i = 0u; i < min(lighting.numberOfLights, MAX_LIGHTS); i++) {
+    let light = lighting.lights[i];
+    let toLight = light.position - input.worldPosition;
+    let distance = length(toLight);
+    let attenuation = light.intensity / (1.0 + LIGHT_ATTENUATION * distance * distance);
+    let diffuse = abs(dot(normal, toLight / max(distance, 1e-6)));
+    color += diffuse * albedo * light.color * attenuation;
+  }
 
-fn check_collision(a: CenterAndRadius, b: CenterAndRadius) -> bool {
-  let radiusA = a.r;
-  let radiusB = b.r;
+  return vec4<f32>(color, ring.opacity * clamp(density, 0.0, 1.0) * edges);
+}
 
-  let xA = a.x;
-  let yA = a.y;
-  let zA = a.z;
+///////////////// Atmospheres ///////////////////////
 
-  let xB = b.x;
-  let yB = b.y;
-  let zB = b.z;
+struct AtmosphereVertexOutput {
+  @builtin(position) position: vec4<f32>,
+  @location(0) worldPosition: vec3<f32>,
+  @location(1) @interpolate(flat) center: vec3<f32>,
+  @location(2) @interpolate(flat) radius: f32, // of the planet
+  @location(3) @interpolate(flat) planet: u32,
+}
 
-  let dx = xB - xA;
-  let dy = yB - yA;
-  let dz = zB - zA;
-  let distanceCAandCBSquared = dx * dx + dy * dy + dz * dz;
+const PI = 3.14159265;
+const RAYLEIGH_STRENGTH = 12.0;
+const MIE_STRENGTH = 0.15;
+const MIE_ASYMMETRY = 0.76; // g of Henyey-Greenstein: how much the haze scatters forward
+const ATMOSPHERE_OPACITY = 0.6; // of the thickest path through it
 
-  let sumOfRadius = radiusA + radiusB;
+// One per planet: colour and thickness (in planet radii, 0 if it has none), see `renderAtmospheres`
+@group(2) @binding(0)
+var<storage, read> atmospheres: array<vec4<f32>>;
 
-  let collided = distanceCAandCBSquared <= sumOfRadius * sumOfRadius;
+/// The sphere mesh of the planet, a bit bigger than it
+@vertex
+fn atmosphere_vertex(input: VertexInput) -> AtmosphereVertexOutput {
+  var output: AtmosphereVertexOutput;
+  let planet = input.planet;
+  let modelMatrix = modelMatrices[planet];
+  let radius = planetsCenterPointAndRadius[planet].w;
+  let thickness = atmospheres[planet].w;
+  // No thickness: every vertex is on the surface of the planet, hidden by it
+  let worldPosition = modelMatrix * vec4<f32>(input.position * radius * (1.0 + thickness), 1.0);
+  output.position = viewProjectionMatrix * worldPosition;
+  output.worldPosition = worldPosition.xyz;
+  output.center = modelMatrix[3].xyz;
+  output.radius = radius;
+  output.planet = planet;
+  return output;
+}
 
-  return collided;
+/// Distances along the ray (from `origin`, relative to the center, towards
+/// `direction`) where it enters and leaves a sphere, if it goes through it
+fn intersect_sphere(origin: vec3<f32>, direction: vec3<f32>, radius: f32) -> vec3<f32> {
+  let b = dot(origin, direction);
+  let discriminant = b * b - dot(origin, origin) + radius * radius;
+  if (discriminant <= 0.0) {
+    return vec3<f32>(0.0, 0.0, 0.0);
+  }
+  let root = sqrt(discriminant);
+  return vec3<f32>(-b - root, -b + root, 1.0);
 }
 
-@compute @workgroup_size(64)
-fn compute_collision(@builtin(global_invocation_id) globalID: vec3u) {
-  let currentIdx = globalID.x;
+/// Single scattering, approximated: the light scattered towards the camera is
+/// how much air the view ray goes through in the shell (so the limb glows) times
+/// the Rayleigh (tinted, both ways) and Mie (white, mostly forward) phases of
+/// each light, only where the air is lit (the terminator is soft).
+@fragment
+fn atmosphere_fragment(input: AtmosphereVertexOutput) -> @location(0) vec4<f32> {
+  let atmosphere = atmospheres[input.planet];
+  if (atmosphere.w <= 0.0) {
+    discard;
+  }
+  let outerRadius = input.radius * (1.0 + atmosphere.w);
+  let origin = lighting.cameraPosition - input.center;
+  let direction = normalize(input.worldPosition - lighting.cameraPosition);
+
+  // Only the side of the shell facing the camera, so it is not drawn twice
+  if (dot(input.worldPosition - input.center, direction) > 0.0) {
+    discard;
+  }
 
-  if (currentIdx >= arrayLength(&planetsCenterPointInWorldSpaceAndRadius)) {
-    return;
+  let outer = intersect_sphere(origin, direction, outerRadius);
+  let inner = intersect_sphere(origin, direction, input.radius);
+  let near = max(outer.x, 0.0);
+  var far = outer.y;
+  if (inner.z > 0.0 && inner.x > 0.0) {
+    far = inner.x; // it stops at the surface of the planet
   }
+  // Relative to the longest path, grazing the planet
+  let longestPath = 2.0 * sqrt(outerRadius * outerRadius - input.radius * input.radius);
+  let density = clamp((far - near) / max(longestPath, 1e-6), 0.0, 1.0);
+  let middle = origin + direction * 0.5 * (near + far);
+  let up = normalize(middle);
 
-  let currentPlanetCenterPoint = planetsCenterPointInWorldSpaceAndRadius[currentIdx];
+  var color = vec3<f32>(0.0);
+  for (var i = 0u; i < min(lighting.numberOfLights, MAX_LIGHTS); i++) {
+    let light = lighting.lights[i];
+    let toLight = light.position - (input.center + middle);
+    let distance = length(toLight);
+    let lightDirection = toLight / max(distance, 1e-6);
+    let attenuation = light.intensity / (1.0 + LIGHT_ATTENUATION * distance * distance);
 
-  for (var i = currentIdx+1; i < arrayLength(&planetsCenterPointInWorldSpaceAndRadius); i++) {
-    let checkingPlanetCenterPoint = planetsCenterPointInWorldSpaceAndRadius[i];
+    let day = smoothstep(-0.2, 0.3, dot(up, lightDirection));
+    let cosAngle = dot(direction, lightDirection);
+    let rayleigh = 3.0 / (16.0 * PI) * (1.0 + cosAngle * cosAngle);
+    let g2 = MIE_ASYMMETRY * MIE_ASYMMETRY;
+    let mie = (1.0 - g2) / (4.0 * PI * pow(1.0 + g2 - 2.0 * MIE_ASYMMETRY * cosAngle, 1.5));
 
-    if (check_collision(currentPlanetCenterPoint, checkingPlanetCenterPoint)) {
-      let index = atomicAdd(&collisions.count, 1); // Atomically get the next index
-      let pair = CollisionPair(currentIdx, i);
-      collisions.data[index] = pair;
-    }
+    color += (RAYLEIGH_STRENGTH * rayleigh * atmosphere.rgb + MIE_STRENGTH * mie) * day * light.color * attenuation;
   }
-}
 
+  // Premultiplied: the night side only dims what is behind it a little
+  return vec4<f32>(color * density, ATMOSPHERE_OPACITY * density * density);
+}
@@ -6,29 +6,25 @@ struct VertexInput {
 struct VertexOutput {
   @builtin(position) position: vec4<f32>,
   @location(0) color: vec4<f32>,
-  @location(1) uv: vec2<f32>,
 }
 
+// Same view-projection matrix (camera) as the planets
 @group(0) @binding(0)
-var<uniform> matrices: mat4x4f;
+var<uniform> viewProjectionMatrix: mat4x4f;
+
+// Where the galaxy (generated with radius 1 at the origin) is in the world
+@group(0) @binding(1)
+var<uniform> modelMatrix: mat4x4f;
 
 @vertex
 fn main(input: VertexInput) -> VertexOutput {
   var output: VertexOutput;
-  let pos = matrices * input.position;
-  output.position = pos;
+  output.position = viewProjectionMatrix * modelMatrix * input.position;
   output.color = input.color;
-  output.uv = vec2<f32>(input.position.x * 0.5 + 0.5, input.position.y * 0.5 + 0.5); // UV mapping (moving coordinates from [-1, 1] to [0, 1])
   return output;
 }
 
-@group(0) @binding(1)
-var starTexture: texture_2d<f32>;
-@group(0) @binding(2)
-var starSampler: sampler;
-
 @fragment
-fn main_fragment(@location(0) color: vec4<f32>, @location(1) uv: vec2<f32>) -> @location(0) vec4<f32> {
-  let texColor = textureSample(starTexture, starSampler, uv);
-  return color * texColor;
+fn main_fragment(@location(0) color: vec4<f32>) -> @location(0) vec4<f32> {
+  return color;
 }
@@ -0,0 +1,121 @@
+struct FullscreenOutput {
+  @builtin(position) position: vec4<f32>,
+  @location(0) uv: vec2<f32>, // (0, 0) top left, (1, 1) bottom right
+}
+
+struct Generate {
+  face: u32, // layer of the cubemap: +X, -X, +Y, -Y, +Z, -Z
+  environment: u32, // 0: nebula, 1: stars only
+  seed: u32,
+}
+
+const ENVIRONMENT_NEBULA = 0u;
+const STAR_CELLS = 150.0; // the directions are split in cells, each one has a star at most
+const STAR_DENSITY = 0.04; // chance of a cell to have a star
+
+// Camera rotation (no translation) and projection, inverted (see `getViewDirectionProjectionInverseMatrix`)
+@group(0) @binding(0)
+var<uniform> viewDirectionProjectionInverse: mat4x4<f32>;
+@group(0) @binding(1)
+var skyboxTexture: texture_cube<f32>;
+@group(0) @binding(2)
+var skyboxSampler: sampler;
+
+// Only for generating the procedural environments, with a layout of its own
+@group(0) @binding(3)
+var<uniform> generate: Generate;
+
+/// A single triangle that covers the whole screen (no vertex buffer)
+@vertex
+fn fullscreen_vertex(@builtin(vertex_index) vertexIndex: u32) -> FullscreenOutput {
+  var output: FullscreenOutput;
+  let uv = vec2<f32>(f32((vertexIndex << 1u) & 2u), f32(vertexIndex & 2u));
+  // On the far plane (depth 1), so whatever was drawn before hides it
+  output.position = vec4<f32>(uv * vec2<f32>(2.0, -2.0) + vec2<f32>(-1.0, 1.0), 1.0, 1.0);
+  output.uv = uv;
+  return output;
+}
+
+/// Direction the pixel is seen in from the camera, whatever its position
+@fragment
+fn main_fragment(input: FullscreenOutput) -> @location(0) vec4<f32> {
+  let clip = vec4<f32>(input.uv * vec2<f32>(2.0, -2.0) + vec2<f32>(-1.0, 1.0), 1.0, 1.0);
+  let world = viewDirectionProjectionInverse * clip;
+  let direction = normalize(world.xyz / world.w);
+  return textureSample(skyboxTexture, skyboxSampler, direction);
+}
+
+///////////////// Procedural environments ///////////////////////
+
+fn hash(p: vec3<f32>) -> f32 {
+  let q = fract(p * 0.3183099 + vec3<f32>(0.1, 0.2, 0.3) + f32(generate.seed % 1000u) * 0.0137);
+  let r = q * 17.0;
+  return fract(r.x * r.y * r.z * (r.x + r.y + r.z));
+}
+
+fn value_noise(p: vec3<f32>) -> f32 {
+  let i = floor(p);
+  let f = fract(p);
+  let u = f * f * (3.0 - 2.0 * f);
+  let x00 = mix(hash(i), hash(i + vec3<f32>(1.0, 0.0, 0.0)), u.x);
+  let x10 = mix(hash(i + vec3<f32>(0.0, 1.0, 0.0)), hash(i + vec3<f32>(1.0, 1.0, 0.0)), u.x);
+  let x01 = mix(hash(i + vec3<f32>(0.0, 0.0, 1.0)), hash(i + vec3<f32>(1.0, 0.0, 1.0)), u.x);
+  let x11 = mix(hash(i + vec3<f32>(0.0, 1.0, 1.0)), hash(i + vec3<f32>(1.0, 1.0, 1.0)), u.x);
+  return mix(mix(x00, x10, u.y), mix(x01, x11, u.y), u.z);
+}
+
+/// Fractal (5 octaves) noise, from 0 to 1
+fn fbm(p: vec3<f32>) -> f32 {
+  var value = 0.0;
+  var amplitude = 0.5;
+  var q = p;
+  for (var i = 0; i < 5; i++) {
+    value += amplitude * value_noise(q);
+    q *= 2.0;
+    amplitude *= 0.5;
+  }
+  return value / 0.96875;
+}
+
+/// Direction of a texel of a face of the cubemap (same layout as the GPU samples them)
+fn get_face_direction(face: u32, uv: vec2<f32>) -> vec3<f32> {
+  let st = uv * 2.0 - 1.0;
+  switch face {
+    case 0u: { return normalize(vec3<f32>(1.0, -st.y, -st.x)); }
+    case 1u: { return normalize(vec3<f32>(-1.0, -st.y, st.x)); }
+    case 2u: { return normalize(vec3<f32>(st.x, 1.0, st.y)); }
+    case 3u: { return normalize(vec3<f32>(st.x, -1.0, -st.y)); }
+    case 4u: { return normalize(vec3<f32>(st.x, -st.y, 1.0)); }
+    default: { return normalize(vec3<f32>(-st.x, -st.y, -1.0)); }
+  }
+}
+
+fn get_stars(direction: vec3<f32>) -> vec3<f32> {
+  let cell = floor(direction * STAR_CELLS);
+  if (hash(cell) > STAR_DENSITY) {
+    return vec3<f32>(0.0);
+  }
+  // Somewhere in the cell, fading out from its center
+  let center = cell + 0.25 + 0.5 * vec3<f32>(hash(cell + 1.0), hash(cell + 2.0), hash(cell + 3.0));
+  let glow = max(1.0 - 2.5 * distance(direction * STAR_CELLS, center), 0.0);
+  let brightness = 0.4 + 0.6 * hash(cell + 4.0);
+  let tint = mix(vec3<f32>(0.7, 0.8, 1.0), vec3<f32>(1.0, 0.85, 0.7), hash(cell + 5.0));
+  return tint * brightness * glow * glow;
+}
+
+fn get_nebula(direction: vec3<f32>) -> vec3<f32> {
+  let clouds = fbm(direction * 3.0 + vec3<f32>(fbm(direction * 2.0)));
+  let density = smoothstep(0.45, 0.85, clouds);
+  let color = mix(vec3<f32>(0.25, 0.05, 0.35), vec3<f32>(0.05, 0.2, 0.4), fbm(direction * 1.5 + 7.0));
+  return color * density * 0.6;
+}
+
+@fragment
+fn generate_fragment(input: FullscreenOutput) -> @location(0) vec4<f32> {
+  let direction = get_face_direction(generate.face, input.uv);
+  var color = get_stars(direction);
+  if (generate.environment == ENVIRONMENT_NEBULA) {
+    color += get_nebula(direction);
+  }
+  return vec4<f32>(min(color, vec3<f32>(1.0)), 1.0);
+}
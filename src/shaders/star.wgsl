@@ -0,0 +1,44 @@
+struct VertexInput {
+  @location(0) position: vec3<f32>,
+  @location(1) normal: vec3<f32>,
+}
+
+struct VertexOutput {
+  @builtin(position) position: vec4<f32>,
+  @location(0) worldPosition: vec3<f32>,
+  @location(1) normal: vec3<f32>,
+}
+
+struct Star {
+  emission: vec3<f32>, // colour * how bright it is, can be above 1 (HDR)
+  cameraPosition: vec3<f32>, // world space
+}
+
+const LIMB_DARKENING = 0.6; // how much darker the edge of the star is than its center
+
+// Same view-projection matrix (camera) as the planets
+@group(0) @binding(0)
+var<uniform> viewProjectionMatrix: mat4x4<f32>;
+
+@group(0) @binding(1)
+var<uniform> star: Star;
+
+/// The star is at the center of the orbits (the origin), its mesh is already there
+@vertex
+fn main(input: VertexInput) -> VertexOutput {
+  var output: VertexOutput;
+  output.position = viewProjectionMatrix * vec4<f32>(input.position, 1.0);
+  output.worldPosition = input.position;
+  output.normal = input.normal;
+  return output;
+}
+
+/// Emissive: it is not lit, it glows. The edge is a bit darker (limb darkening),
+/// so it does not look like a flat disc.
+@fragment
+fn main_fragment(input: VertexOutput) -> @location(0) vec4<f32> {
+  let normal = normalize(input.normal);
+  let toCamera = normalize(star.cameraPosition - input.worldPosition);
+  let limb = 1.0 - LIMB_DARKENING * (1.0 - max(dot(normal, toCamera), 0.0));
+  return vec4<f32>(star.emission * limb, 1.0);
+}
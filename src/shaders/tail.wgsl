@@ -0,0 +1,95 @@
+struct VertexOutput {
+  @builtin(position) position: vec4<f32>,
+  @location(0) color: vec4<f32>,
+}
+
+struct Tail {
+  viewportSize: vec2<f32>, // pixels
+  width: f32, // pixels, of the newest end
+  sampleInterval: f32, // simulated time between two samples
+  numberOfPlanets: u32,
+  capacity: u32, // samples in the ring buffer
+  numberOfSamples: u32, // in the ring buffer, at most `capacity`
+  newestSample: u32, // where it is in the ring buffer
+  colorMode: u32, // index in `TAIL_COLOR_MODES`
+  maxSpeed: f32, // the reddest, in the speed colour mode
+}
+
+const COLOR_MODE_PLANET = 0u;
+const COLOR_MODE_SPEED = 1u;
+const GOLDEN_RATIO_CONJUGATE = 0.618034; // successive planets get hues far apart
+
+// Same view-projection matrix (camera) as the planets
+@group(0) @binding(0)
+var<uniform> viewProjectionMatrix: mat4x4<f32>;
+
+@group(0) @binding(1)
+var<uniform> tail: Tail;
+
+// Ring buffer of samples, each one the center (and radius) of all the planets
+@group(0) @binding(2)
+var<storage, read> samples: array<vec4<f32>>;
+
+/// Center of the planet at the i-th sample, from the oldest one (0) to the newest one
+fn get_center(planet: u32, i: u32) -> vec3<f32> {
+  let ringIndex = (tail.newestSample + tail.capacity - (tail.numberOfSamples - 1u - i)) % tail.capacity;
+  return samples[ringIndex * tail.numberOfPlanets + planet].xyz;
+}
+
+fn hue_to_rgb(hue: f32) -> vec3<f32> {
+  let rgb = abs(fract(hue + vec3<f32>(0.0, 2.0 / 3.0, 1.0 / 3.0)) * 6.0 - 3.0) - 1.0;
+  return clamp(rgb, vec3<f32>(0.0), vec3<f32>(1.0));
+}
+
+fn get_color(planet: u32, i: u32) -> vec3<f32> {
+  if (tail.colorMode == COLOR_MODE_PLANET) {
+    return mix(vec3<f32>(1.0), hue_to_rgb(fract(f32(planet) * GOLDEN_RATIO_CONJUGATE)), 0.7);
+  }
+  if (tail.colorMode == COLOR_MODE_SPEED) {
+    let previous = get_center(planet, max(i, 1u) - 1u);
+    let next = get_center(planet, max(i, 1u));
+    let speed = distance(previous, next) / tail.sampleInterval;
+    return mix(vec3<f32>(0.2, 0.4, 1.0), vec3<f32>(1.0, 0.2, 0.2), clamp(speed / tail.maxSpeed, 0.0, 1.0));
+  }
+  return vec3<f32>(0.0, 1.0, 1.0);
+}
+
+/// Each planet (instance) is a triangle strip along its samples, from the
+/// oldest to the newest one: two vertices per sample, on each side of the
+/// line, `width` pixels apart. The older the sample, the narrower and the more
+/// transparent, down to nothing at the end of the ring buffer.
+@vertex
+fn main(
+  @builtin(vertex_index) vertexIndex: u32,
+  @builtin(instance_index) planet: u32,
+) -> VertexOutput {
+  let i = vertexIndex / 2u;
+  let side = select(-1.0, 1.0, vertexIndex % 2u == 0u);
+
+  // Direction of the line on screen, towards the next sample (or from the previous one, at the newest end)
+  let segmentStart = select(i, i - 1u, i == tail.numberOfSamples - 1u);
+  let fromPosition = viewProjectionMatrix * vec4<f32>(get_center(planet, segmentStart), 1.0);
+  let toPosition = viewProjectionMatrix * vec4<f32>(get_center(planet, segmentStart + 1u), 1.0);
+  var direction = (toPosition.xy / toPosition.w - fromPosition.xy / fromPosition.w) * tail.viewportSize;
+  if (length(direction) < 1e-6) {
+    direction = vec2<f32>(1.0, 0.0);
+  }
+  let normal = normalize(vec2<f32>(-direction.y, direction.x));
+
+  let age = f32(tail.numberOfSamples - 1u - i) / f32(max(tail.capacity - 1u, 1u)); // 0 is the newest, 1 the oldest possible
+  let width = tail.width * (1.0 - age);
+
+  var position = viewProjectionMatrix * vec4<f32>(get_center(planet, i), 1.0);
+  // In clip space, so the offset is the same number of pixels at any depth
+  position += vec4<f32>(normal * side * width / tail.viewportSize * position.w, 0.0, 0.0);
+
+  var output: VertexOutput;
+  output.position = position;
+  output.color = vec4<f32>(get_color(planet, i), 1.0 - age);
+  return output;
+}
+
+@fragment
+fn main_fragment(input: VertexOutput) -> @location(0) vec4<f32> {
+  return input.color;
+}
@@ -0,0 +1,340 @@
+import {
+  SKYBOX_FORMAT,
+  SKYBOX_SIZE,
+  SKYBOX_UNIFORM_BYTE_LENGTH,
+  SkyboxEnum,
+} from "./constants";
+import { Observer } from "./observer";
+import { UI_SETTINGS } from "./ui";
+import skyboxWGSL from "./shaders/skybox.wgsl?raw";
+import SkyboxPX from "/textures/skybox/px.jpg";
+import SkyboxNX from "/textures/skybox/nx.jpg";
+import SkyboxPY from "/textures/skybox/py.jpg";
+import SkyboxNY from "/textures/skybox/ny.jpg";
+import SkyboxPZ from "/textures/skybox/pz.jpg";
+import SkyboxNZ from "/textures/skybox/nz.jpg";
+
+// +X, -X, +Y, -Y, +Z, -Z: the order of the layers of a cubemap
+const SKYBOX_IMAGE_URLS = [
+  SkyboxPX,
+  SkyboxNX,
+  SkyboxPY,
+  SkyboxNY,
+  SkyboxPZ,
+  SkyboxNZ,
+];
+
+/// Cubemap all around the scene, drawn behind everything else (on the far
+/// plane, after the opaque objects so it is only drawn where they are not).
+///
+/// It only depends on where the camera looks (its rotation), not where it is,
+/// so panning and zooming don't move it. The environment is either generated
+/// on the GPU (from the seed) or loaded from six images, see `SKYBOXES`.
+//
+export const Skybox = ({
+  format,
+  device,
+}: {
+  format: GPUTextureFormat;
+  device: GPUDevice;
+}) => {
+  const shaderModule = device.createShaderModule({ code: skyboxWGSL });
+
+  let cubemapTexture: GPUTexture | null = null;
+  let generation = 0; // the images of an older choice are dropped
+
+  /// Set observers
+  (["skybox", "seed"] as const).forEach((topic) => {
+    Observer().subscribe(topic, {
+      id: "skybox.ts",
+      callback: (_value) => {
+        createEnvironment();
+      },
+    });
+  });
+
+  const sampler = device.createSampler({
+    label: "skybox sampler",
+    magFilter: "linear",
+    minFilter: "linear",
+  });
+
+  const bindGroupLayout = device.createBindGroupLayout({
+    label: "skybox bind group layout",
+    entries: [
+      {
+        binding: 0, // View direction projection inverse matrix buffer
+        visibility: GPUShaderStage.FRAGMENT,
+        buffer: {
+          type: "uniform",
+        },
+      },
+      {
+        binding: 1, // Cubemap
+        visibility: GPUShaderStage.FRAGMENT,
+        texture: { viewDimension: "cube" },
+      },
+      {
+        binding: 2, // Sampler
+        visibility: GPUShaderStage.FRAGMENT,
+        sampler: { type: "filtering" },
+      },
+    ],
+  });
+
+  // On the far plane: it passes the depth test only where nothing was drawn
+  const pipeline = device.createRenderPipeline({
+    label: "skybox render pipeline",
+    layout: device.createPipelineLayout({
+      bindGroupLayouts: [bindGroupLayout],
+    }),
+    vertex: {
+      module: shaderModule,
+      entryPoint: "fullscreen_vertex",
+    },
+    fragment: {
+      module: shaderModule,
+      entryPoint: "main_fragment",
+      targets: [{ format }],
+    },
+    primitive: { topology: "triangle-list" },
+    depthStencil: {
+      format: "depth24plus",
+      depthWriteEnabled: false,
+      depthCompare: "less-equal",
+    },
+  });
+
+  const generateBindGroupLayout = device.createBindGroupLayout({
+    label: "skybox generate bind group layout",
+    entries: [
+      {
+        binding: 3, // Face, environment and seed
+        visibility: GPUShaderStage.FRAGMENT,
+        buffer: {
+          type: "uniform",
+        },
+      },
+    ],
+  });
+
+  const generatePipeline = device.createRenderPipeline({
+    label: "skybox generate render pipeline",
+    layout: device.createPipelineLayout({
+      bindGroupLayouts: [generateBindGroupLayout],
+    }),
+    vertex: {
+      module: shaderModule,
+      entryPoint: "fullscreen_vertex",
+    },
+    fragment: {
+      module: shaderModule,
+      entryPoint: "generate_fragment",
+      targets: [{ format: SKYBOX_FORMAT }],
+    },
+    primitive: { topology: "triangle-list" },
+  });
+
+  // A uniform per face, as they are all rendered in the same submit
+  const faceStride = device.limits.minUniformBufferOffsetAlignment;
+  const generateUniformBuffer = device.createBuffer({
+    label: "skybox generate uniform buffer",
+    size: 5 * faceStride + SKYBOX_UNIFORM_BYTE_LENGTH,
+    usage: GPUBufferUsage.UNIFORM | GPUBufferUsage.COPY_DST,
+  });
+  const generateBindGroups = Array.from({ length: 6 }, (_, face) =>
+    device.createBindGroup({
+      label: `skybox generate bind group (face ${face})`,
+      layout: generateBindGroupLayout,
+      entries: [
+        {
+          binding: 3,
+          resource: {
+            buffer: generateUniformBuffer,
+            offset: face * faceStride,
+            size: SKYBOX_UNIFORM_BYTE_LENGTH,
+          },
+        },
+      ],
+    }),
+  );
+
+  function setCubemapTexture(texture: GPUTexture) {
+    cubemapTexture?.destroy();
+    cubemapTexture = texture;
+  }
+
+  function createCubemapTexture({
+    label,
+    size,
+    usage,
+  }: {
+    label: string;
+    size: number;
+    usage: GPUTextureUsageFlags;
+  }) {
+    return device.createTexture({
+      label,
+      size: [size, size, 6],
+      format: SKYBOX_FORMAT,
+      usage: GPUTextureUsage.TEXTURE_BINDING | usage,
+    });
+  }
+
+  /// Renders each face of a procedural environment (see `skybox.wgsl`)
+  function generateEnvironment(environment: SkyboxEnum) {
+    const texture = createCubemapTexture({
+      label: `skybox ${environment} texture`,
+      size: SKYBOX_SIZE,
+      usage: GPUTextureUsage.RENDER_ATTACHMENT,
+    });
+
+    const commandEncoder = device.createCommandEncoder({
+      label: "skybox generate command encoder",
+    });
+    for (let face = 0; face < 6; face++) {
+      device.queue.writeBuffer(
+        generateUniformBuffer,
+        face * faceStride,
+        new Uint32Array([
+          face,
+          environment === SkyboxEnum.NEBULA ? 0 : 1,
+          UI_SETTINGS.seed,
+          0,
+        ]),
+      );
+
+      const renderPass = commandEncoder.beginRenderPass({
+        label: `skybox generate pass (face ${face})`,
+        colorAttachments: [
+          {
+            view: texture.createView({
+              dimension: "2d",
+              baseArrayLayer: face,
+              arrayLayerCount: 1,
+            }),
+            clearValue: { r: 0, g: 0, b: 0, a: 1 },
+            loadOp: "clear",
+            storeOp: "store",
+          },
+        ],
+      });
+      renderPass.setPipeline(generatePipeline);
+      renderPass.setBindGroup(0, generateBindGroups[face]);
+      renderPass.draw(3); // Fullscreen triangle
+      renderPass.end();
+    }
+    device.queue.submit([commandEncoder.finish()]);
+
+    setCubemapTexture(texture);
+  }
+
+  /// Loads the six faces (square, all of the same size) from SKYBOX_IMAGE_URLS.
+  /// If any of them can't be loaded, the procedural one is generated instead.
+  async function loadEnvironment() {
+    const currentGeneration = generation;
+
+    let images: ImageBitmap[];
+    try {
+      images = await Promise.all(
+        SKYBOX_IMAGE_URLS.map(async (url) => {
+          const response = await fetch(url);
+          if (!response.ok) {
+            throw new Error(`${url}: ${response.status}`);
+          }
+          return createImageBitmap(await response.blob());
+        }),
+      );
+    } catch (error) {
+      console.error("Failed to load the skybox images", error);
+      if (currentGeneration === generation) {
+        generateEnvironment(SkyboxEnum.NEBULA);
+      }
+      return;
+    }
+
+    // Another environment was chosen in the meantime
+    if (currentGeneration !== generation) {
+      return;
+    }
+
+    const size = images[0].width;
+    if (images.some(({ width, height }) => width !== size || height !== size)) {
+      console.error("The skybox images must be square and of the same size");
+      generateEnvironment(SkyboxEnum.NEBULA);
+      return;
+    }
+
+    const texture = createCubemapTexture({
+      label: "skybox images texture",
+      size,
+      usage: GPUTextureUsage.COPY_DST | GPUTextureUsage.RENDER_ATTACHMENT,
+    });
+    images.forEach((source, face) => {
+      device.queue.copyExternalImageToTexture(
+        { source },
+        { texture, origin: [0, 0, face] },
+        [size, size],
+      );
+    });
+
+    setCubemapTexture(texture);
+  }
+
+  function createEnvironment() {
+    generation++;
+
+    switch (UI_SETTINGS.skybox) {
+      case SkyboxEnum.NEBULA:
+      case SkyboxEnum.STARS: {
+        generateEnvironment(UI_SETTINGS.skybox);
+        break;
+      }
+      case SkyboxEnum.IMAGES: {
+        loadEnvironment();
+        break;
+      }
+      default: {
+        break;
+      }
+    }
+  }
+  createEnvironment();
+
+  function renderSkybox({
+    viewDirectionProjectionInverseUniformBuffer,
+    renderPass,
+  }: {
+    viewDirectionProjectionInverseUniformBuffer: GPUBuffer;
+    renderPass: GPURenderPassEncoder;
+  }) {
+    if (UI_SETTINGS.skybox === SkyboxEnum.NONE || !cubemapTexture) {
+      return;
+    }
+
+    // The matrix buffer is created again whenever the camera moves
+    const bindGroup = device.createBindGroup({
+      label: "skybox bind group",
+      layout: bindGroupLayout,
+      entries: [
+        {
+          binding: 0,
+          resource: { buffer: viewDirectionProjectionInverseUniformBuffer },
+        },
+        {
+          binding: 1,
+          resource: cubemapTexture.createView({ dimension: "cube" }),
+        },
+        { binding: 2, resource: sampler },
+      ],
+    });
+
+    renderPass.setPipeline(pipeline);
+    renderPass.setBindGroup(0, bindGroup);
+    renderPass.draw(3); // Fullscreen triangle
+  }
+
+  return {
+    renderSkybox,
+  };
+};
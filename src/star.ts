@@ -0,0 +1,181 @@
+import { vec3 } from "gl-matrix";
+import {
+  STAR_LAT_BANDS,
+  STAR_LONG_BANDS,
+  STAR_RADIUS,
+  STAR_UNIFORM_BYTE_LENGTH,
+} from "./constants";
+import { PointLightSettings } from "./types";
+import { UI_SETTINGS } from "./ui";
+import { createSphereMesh, temperatureToColor } from "./utils";
+import starWGSL from "./shaders/star.wgsl?raw";
+
+/// Light that the star casts on the planets, from the center of the orbits,
+/// with the colour of a black body at its temperature. None if it is disabled.
+//
+export const getStarLight = (): PointLightSettings | null => {
+  if (!UI_SETTINGS.enableStar) {
+    return null;
+  }
+
+  const color = temperatureToColor(UI_SETTINGS.starTemperature);
+  return {
+    enabled: true,
+    x: 0,
+    y: 0,
+    z: 0,
+    color: [color[0] * 255, color[1] * 255, color[2] * 255],
+    intensity: UI_SETTINGS.starLuminosity,
+  };
+};
+
+/// Emissive sphere at the center of the orbits (where the central mass is),
+/// drawn in the same render pass and with the same view-projection matrix
+/// (camera) as the planets. Its surface is brighter than the screen can show,
+/// which is what the bloom (see `bloom.ts`) makes glow.
+//
+export const Star = ({
+  format,
+  device,
+}: {
+  format: GPUTextureFormat;
+  device: GPUDevice;
+}) => {
+  const shaderModule = device.createShaderModule({ code: starWGSL });
+
+  const { vertices, indices } = createSphereMesh({
+    radius: STAR_RADIUS,
+    latBands: STAR_LAT_BANDS,
+    longBands: STAR_LONG_BANDS,
+  });
+
+  const vertexBuffer = device.createBuffer({
+    label: "star vertices buffer",
+    size: vertices.length * Float32Array.BYTES_PER_ELEMENT,
+    usage: GPUBufferUsage.VERTEX,
+    mappedAtCreation: true,
+  });
+  new Float32Array(vertexBuffer.getMappedRange()).set(vertices);
+  vertexBuffer.unmap();
+
+  const indexBuffer = device.createBuffer({
+    label: "star indices buffer",
+    size: indices.length * Uint32Array.BYTES_PER_ELEMENT,
+    usage: GPUBufferUsage.INDEX,
+    mappedAtCreation: true,
+  });
+  new Uint32Array(indexBuffer.getMappedRange()).set(indices);
+  indexBuffer.unmap();
+
+  const starUniformBuffer = device.createBuffer({
+    label: "star uniform buffer",
+    size: STAR_UNIFORM_BYTE_LENGTH,
+    usage: GPUBufferUsage.UNIFORM | GPUBufferUsage.COPY_DST,
+  });
+
+  const bindGroupLayout = device.createBindGroupLayout({
+    label: "star bind group layout",
+    entries: [
+      {
+        binding: 0, // View-Projection matrix buffer
+        visibility: GPUShaderStage.VERTEX,
+        buffer: {
+          type: "uniform",
+        },
+      },
+      {
+        binding: 1, // Emission and camera position
+        visibility: GPUShaderStage.FRAGMENT,
+        buffer: {
+          type: "uniform",
+        },
+      },
+    ],
+  });
+
+  const pipeline = device.createRenderPipeline({
+    label: "star render pipeline",
+    layout: device.createPipelineLayout({
+      bindGroupLayouts: [bindGroupLayout],
+    }),
+    vertex: {
+      module: shaderModule,
+      entryPoint: "main",
+      buffers: [
+        {
+          arrayStride: 8 * Float32Array.BYTES_PER_ELEMENT, // 3 position + 2 texCoord + 3 normal
+          attributes: [
+            // position
+            {
+              shaderLocation: 0,
+              format: "float32x3",
+              offset: 0,
+            },
+            // normal (the texCoords are not used)
+            {
+              shaderLocation: 1,
+              format: "float32x3",
+              offset: 5 * Float32Array.BYTES_PER_ELEMENT,
+            },
+          ],
+        },
+      ],
+    },
+    fragment: {
+      module: shaderModule,
+      entryPoint: "main_fragment",
+      targets: [{ format }],
+    },
+    primitive: { topology: "triangle-list" },
+    depthStencil: {
+      format: "depth24plus",
+      depthWriteEnabled: true,
+      depthCompare: "less",
+    },
+  });
+
+  function updateStarUniform(cameraPosition: vec3) {
+    const emission = vec3.scale(
+      vec3.create(),
+      temperatureToColor(UI_SETTINGS.starTemperature),
+      UI_SETTINGS.starEmission,
+    );
+    device.queue.writeBuffer(
+      starUniformBuffer,
+      0,
+      new Float32Array([...emission, 0, ...cameraPosition, 0]),
+    );
+  }
+
+  function renderStar({
+    viewProjectionMatrixUniformBuffer,
+    renderPass,
+    cameraPosition,
+  }: {
+    viewProjectionMatrixUniformBuffer: GPUBuffer;
+    renderPass: GPURenderPassEncoder;
+    cameraPosition: vec3;
+  }) {
+    updateStarUniform(cameraPosition);
+
+    // The view-projection matrix buffer is recreated when the camera moves
+    const bindGroup = device.createBindGroup({
+      label: "star bind group",
+      layout: bindGroupLayout,
+      entries: [
+        { binding: 0, resource: { buffer: viewProjectionMatrixUniformBuffer } },
+        { binding: 1, resource: { buffer: starUniformBuffer } },
+      ],
+    });
+
+    renderPass.setPipeline(pipeline);
+    renderPass.setVertexBuffer(0, vertexBuffer);
+    renderPass.setIndexBuffer(indexBuffer, "uint32");
+    renderPass.setBindGroup(0, bindGroup);
+    renderPass.drawIndexed(indices.length);
+  }
+
+  return {
+    renderStar,
+  };
+};
@@ -0,0 +1,256 @@
+import { vec3 } from "gl-matrix";
+import { CollisionPair, PlanetSweptSphere } from "./types";
+
+/// CPU collision detection
+///
+/// Pure TypeScript (no WebGPU nor DOM), so it can be used as a fallback when
+/// the compute shader is not available, to verify the pairs found by it, and
+/// in Node against recorded snapshots (see `scripts/check-collisions.ts`).
+///
+/// The pairs are reported in the same way as the compute shader does: (a, b)
+/// with a < b and using 32-bit floats for the narrow phase, so that the results
+/// can be compared one to one.
+//
+
+const f32 = Math.fround;
+
+const dot = (
+  [ax, ay, az]: [number, number, number],
+  [bx, by, bz]: [number, number, number],
+) => f32(f32(f32(ax * bx) + f32(ay * by)) + f32(az * bz));
+
+/// Same test as `time_of_impact` in `collision.wgsl`: both planets move in a
+/// straight line from their previous to their current center, so their distance
+/// is given by |s + v * t|, t in [0, 1], where `s` is the distance at the
+/// previous check and `v` the relative displacement. They touch when
+///
+///   (v·v) * t² + 2 * (s·v) * t + (s·s - R²) = 0
+///
+/// where R is the sum of the radii. Returns the earliest root in [0, 1], or
+/// null if they don't touch in the interval. Planets that were already touching
+/// at the previous check only collide (at 0) if they are not moving apart, so a
+/// pair that was resolved isn't reported again while it separates.
+//
+const getTimeOfImpact = (a: PlanetSweptSphere, b: PlanetSweptSphere) => {
+  const s: [number, number, number] = [
+    f32(b.previousX - a.previousX),
+    f32(b.previousY - a.previousY),
+    f32(b.previousZ - a.previousZ),
+  ];
+  const v: [number, number, number] = [
+    f32(f32(b.x - b.previousX) - f32(a.x - a.previousX)),
+    f32(f32(b.y - b.previousY) - f32(a.y - a.previousY)),
+    f32(f32(b.z - b.previousZ) - f32(a.z - a.previousZ)),
+  ];
+  const sumOfRadius = f32(a.radius + b.radius);
+
+  const c = f32(dot(s, s) - f32(sumOfRadius * sumOfRadius));
+  const vv = dot(v, v);
+  const sv = dot(s, v);
+  if (c <= 0) {
+    return sv > 0 ? null : 0; // already touching at the previous check
+  }
+
+  if (sv >= 0 || vv === 0) {
+    return null; // moving apart (or not moving at all)
+  }
+
+  const discriminant = f32(f32(sv * sv) - f32(vv * c));
+  if (discriminant < 0) {
+    return null;
+  }
+
+  const time = f32(f32(-sv - f32(Math.sqrt(discriminant))) / vv);
+  return time <= 1 ? time : null;
+};
+
+/// Contact details at `time`, same as `check_collision` in `collision.wgsl`.
+const getContact = ({
+  a,
+  b,
+  time,
+}: {
+  a: PlanetSweptSphere;
+  b: PlanetSweptSphere;
+  time: number;
+}) => {
+  const centerA = vec3.lerp(
+    vec3.create(),
+    [a.previousX, a.previousY, a.previousZ],
+    [a.x, a.y, a.z],
+    time,
+  );
+  const centerB = vec3.lerp(
+    vec3.create(),
+    [b.previousX, b.previousY, b.previousZ],
+    [b.x, b.y, b.z],
+    time,
+  );
+
+  const normal = vec3.subtract(vec3.create(), centerB, centerA);
+  const distance = vec3.length(normal);
+  if (distance > 0) {
+    vec3.scale(normal, normal, 1 / distance);
+  } else {
+    // Same center: any direction will do
+    vec3.set(normal, 1, 0, 0);
+  }
+  const penetration = Math.max(a.radius + b.radius - distance, 0);
+
+  return {
+    // On the segment between both centers, in the middle of the overlap
+    contactPoint: vec3.scaleAndAdd(
+      vec3.create(),
+      centerA,
+      normal,
+      a.radius - penetration / 2,
+    ),
+    normal,
+    penetration,
+    relativeSpeed: vec3.distance(
+      [b.velocityX, b.velocityY, b.velocityZ],
+      [a.velocityX, a.velocityY, a.velocityZ],
+    ),
+  };
+};
+
+const checkCollision = (
+  a: PlanetSweptSphere,
+  b: PlanetSweptSphere,
+): CollisionPair | null => {
+  const [first, second] = a.planetIdx < b.planetIdx ? [a, b] : [b, a];
+  const time = getTimeOfImpact(first, second);
+  if (time === null) {
+    return null;
+  }
+
+  return {
+    a: first.planetIdx,
+    b: second.planetIdx,
+    time,
+    ...getContact({ a: first, b: second, time }),
+  };
+};
+
+const toKey = ({ a, b }: CollisionPair) => (a < b ? `${a},${b}` : `${b},${a}`);
+
+/// Interval covered by the planet along the axis while moving from its
+/// previous to its current center.
+const getSweptInterval = (planet: PlanetSweptSphere, axis: "x" | "y" | "z") => {
+  const previous = {
+    x: planet.previousX,
+    y: planet.previousY,
+    z: planet.previousZ,
+  }[axis];
+
+  return {
+    start: Math.min(previous, planet[axis]) - planet.radius,
+    end: Math.max(previous, planet[axis]) + planet.radius,
+  };
+};
+
+/// Axis (x, y or z) along which the planets are the most spread, so the
+/// sweep prunes as many pairs as possible.
+const getSweepAxis = (planets: PlanetSweptSphere[]) => {
+  const variances = (["x", "y", "z"] as const).map((axis) => {
+    const mean =
+      planets.reduce((sum, planet) => sum + planet[axis], 0) / planets.length;
+    return planets.reduce(
+      (sum, planet) => sum + Math.pow(planet[axis] - mean, 2),
+      0,
+    );
+  });
+
+  return (["x", "y", "z"] as const)[variances.indexOf(Math.max(...variances))];
+};
+
+/// Finds all the pairs of planets that collide between the previous and the
+/// current check using sweep and prune.
+///
+/// Each planet is projected onto the sweep axis as the interval it covered
+/// while moving (swept sphere). The intervals are sorted by their start and
+/// swept in order, keeping a list of the ones still open: only planets whose
+/// intervals overlap can collide, so only those are tested.
+///
+/// @param{planets}: current and previous center points (world space), radius and index of the planets.
+//
+export const detectCollisionsSweepAndPrune = (
+  planets: PlanetSweptSphere[],
+): CollisionPair[] => {
+  if (planets.length < 2) {
+    return [];
+  }
+
+  const axis = getSweepAxis(planets);
+  const sortedPlanets = planets
+    .map((planet) => ({ planet, ...getSweptInterval(planet, axis) }))
+    .sort((a, b) => a.start - b.start);
+
+  const collisions: CollisionPair[] = [];
+  let openPlanets: typeof sortedPlanets = [];
+
+  for (const current of sortedPlanets) {
+    openPlanets = openPlanets.filter(({ end }) => end >= current.start);
+
+    for (const { planet } of openPlanets) {
+      const collision = checkCollision(current.planet, planet);
+      if (collision) {
+        collisions.push(collision);
+      }
+    }
+
+    openPlanets.push(current);
+  }
+
+  return collisions;
+};
+
+/// Reference O(n²) detection: every pair of planets is tested.
+export const detectCollisionsBruteForce = (
+  planets: PlanetSweptSphere[],
+): CollisionPair[] => {
+  const collisions: CollisionPair[] = [];
+
+  for (let i = 0; i < planets.length; i++) {
+    for (let j = i + 1; j < planets.length; j++) {
+      const collision = checkCollision(planets[i], planets[j]);
+      if (collision) {
+        collisions.push(collision);
+      }
+    }
+  }
+
+  return collisions;
+};
+
+/// Compares two lists of collisions, regardless of their order.
+///
+/// @param{expected}: the reference pairs (e.g. from `detectCollisionsSweepAndPrune`);
+/// @param{actual}: the pairs being verified (e.g. from the compute shader).
+/// @returns the pairs that were not found (`missing`) and the ones that should
+/// not have been (`unexpected`). Duplicated pairs in `actual` are unexpected.
+//
+export const diffCollisions = ({
+  expected,
+  actual,
+}: {
+  expected: CollisionPair[];
+  actual: CollisionPair[];
+}) => {
+  const expectedKeys = new Set(expected.map(toKey));
+  const foundKeys = new Set<string>();
+
+  const unexpected: CollisionPair[] = [];
+  for (const collision of actual) {
+    const key = toKey(collision);
+
+    if (!expectedKeys.has(key) || foundKeys.has(key)) {
+      unexpected.push(collision);
+    }
+    foundKeys.add(key);
+  }
+
+  const missing = expected.filter((pair) => !foundKeys.has(toKey(pair)));
+
+  return { missing, unexpected };
+};
@@ -1,27 +1,47 @@
-import { vec3 } from "gl-matrix";
-import { PlanetCenterPointRadiusAndIndex, PlanetInfo } from "./types";
-import { getPlanetsCenterPointAndRadius } from "./utils";
+import {
+  RENDER_TAIL_INTERVAL,
+  TAIL_COLOR_MODES,
+  TAIL_MAX_SPEED,
+  TAIL_UNIFORM_BYTE_LENGTH,
+} from "./constants";
+import { UI_SETTINGS } from "./ui";
+import tailWGSL from "./shaders/tail.wgsl?raw";
 
+/// Tails of the planets: where they were at the last `tailLength` samples, one
+/// every RENDER_TAIL_INTERVAL of simulated time.
+///
+/// The samples live on the GPU in a ring buffer of fixed size (the newest one
+/// overwrites the oldest one), so the memory used doesn't grow with time. Each
+/// tail is drawn as a strip that narrows and fades out with age.
+//
 export const Tail = ({
   format,
   device,
-  shaderModule,
 }: {
   format: GPUTextureFormat;
   device: GPUDevice;
-  shaderModule: GPUShaderModule;
 }) => {
-  let coordinatesPerPlanet = 0;
-  let tailCenterPositionsComplete: PlanetCenterPointRadiusAndIndex[] = [];
-  let tailVertexBuffer: GPUBuffer;
-  let tailCenterPositions: vec3[] = [];
+  const shaderModule = device.createShaderModule({ code: tailWGSL });
 
-  const resetCoordinatesPerPlanet = () => (coordinatesPerPlanet = 0);
-  const resetTailCenterPositionsComplete = () =>
-    (tailCenterPositionsComplete = []);
+  // Every sample is the center point (and radius) of all the planets, as they
+  // are in the GPU, one after the other.
+  let tailBuffer: GPUBuffer | null = null;
+  let numberOfSamples = 0; // since the last reset, the ring buffer keeps the last `capacity` ones
+  let planetsPerSample = 0;
+  let capacity = 0; // samples
+  let tailLength = 0; // samples asked for, `capacity` might be less
 
-  // Bind group for the tail rendering
-  const tailBindGroupLayout = device.createBindGroupLayout({
+  const resetTail = () => (numberOfSamples = 0);
+  const getSampleSize = (numberOfPlanets: number) =>
+    numberOfPlanets * 4 * Float32Array.BYTES_PER_ELEMENT; // (x, y, z, r) * planets
+
+  const tailUniformBuffer = device.createBuffer({
+    label: "tail uniform buffer",
+    size: TAIL_UNIFORM_BYTE_LENGTH,
+    usage: GPUBufferUsage.UNIFORM | GPUBufferUsage.COPY_DST,
+  });
+
+  const bindGroupLayout = device.createBindGroupLayout({
     label: "tail bind group layout",
     entries: [
       {
@@ -31,150 +51,203 @@ export const Tail = ({
           type: "uniform",
         },
       },
+      {
+        binding: 1, // Ring buffer layout, width and colour mode
+        visibility: GPUShaderStage.VERTEX,
+        buffer: {
+          type: "uniform",
+        },
+      },
+      {
+        binding: 2, // Samples (ring buffer)
+        visibility: GPUShaderStage.VERTEX,
+        buffer: {
+          type: "read-only-storage",
+        },
+      },
     ],
   });
 
-  // Tail pipeline
-  const tailPipeline = device.createRenderPipeline({
+  // Drawn after the opaque objects, it blends with them but doesn't hide them
+  const pipeline = device.createRenderPipeline({
     label: "tail render pipeline",
     layout: device.createPipelineLayout({
-      bindGroupLayouts: [tailBindGroupLayout],
+      bindGroupLayouts: [bindGroupLayout],
     }),
     vertex: {
       module: shaderModule,
-      entryPoint: "planet_tail_vertex",
-      buffers: [
+      entryPoint: "main",
+    },
+    fragment: {
+      module: shaderModule,
+      entryPoint: "main_fragment",
+      targets: [
         {
-          arrayStride: 3 * Float32Array.BYTES_PER_ELEMENT, // 3 center position (x, y, z)
-          attributes: [
-            {
-              shaderLocation: 0,
-              format: "float32x3",
-              offset: 0,
+          format,
+          blend: {
+            color: {
+              srcFactor: "src-alpha",
+              dstFactor: "one-minus-src-alpha",
+              operation: "add",
+            },
+            alpha: {
+              srcFactor: "one",
+              dstFactor: "one-minus-src-alpha",
+              operation: "add",
             },
-          ],
+          },
         },
       ],
     },
-    fragment: {
-      module: shaderModule,
-      entryPoint: "planet_tail_fragment",
-      targets: [{ format }],
-    },
-    primitive: { topology: "point-list" },
+    primitive: { topology: "triangle-strip" },
     depthStencil: {
       format: "depth24plus",
-      depthWriteEnabled: true,
+      depthWriteEnabled: false,
       depthCompare: "less",
     },
   });
 
-  function updateVariableTailBuffers({
+  /// (Re)creates the ring buffer for `length` samples of `numberOfPlanets`, or
+  /// as many as the device can bind at once (the tails are shorter then).
+  /// The tail starts over.
+  function createTailBuffer({
     numberOfPlanets,
-    planetsBuffers,
-    modelMatrixUniformBufferSize,
-    allModelMatrices,
+    length,
   }: {
     numberOfPlanets: number;
-    planetsBuffers: PlanetInfo[];
-    modelMatrixUniformBufferSize: number;
-    allModelMatrices: Float32Array;
+    length: number;
   }) {
-    // Get center points
-    const planetsCenter = getPlanetsCenterPointAndRadius({
-      numberOfPlanets,
-      planetsBuffers,
-      modelMatrixUniformBufferSize,
-      allModelMatrices,
+    // INFO: a buffer destroyed after the frames using it are submitted is only released once they are done
+    tailBuffer?.destroy();
+
+    const sampleSize = getSampleSize(numberOfPlanets);
+    const maxSize = Math.min(
+      device.limits.maxBufferSize,
+      device.limits.maxStorageBufferBindingSize,
+    );
+
+    planetsPerSample = numberOfPlanets;
+    tailLength = length;
+    capacity =
+      sampleSize > 0
+        ? Math.min(length, Math.floor(maxSize / sampleSize))
+        : length;
+    tailBuffer = device.createBuffer({
+      label: "tail samples buffer",
+      size: Math.max(capacity * sampleSize, 16), // Can't be empty
+      usage: GPUBufferUsage.STORAGE | GPUBufferUsage.COPY_DST,
     });
-    tailCenterPositionsComplete.push(...planetsCenter);
-
-    // Order the tailCenterPosition vector to have all
-    // planets coordinates ordered
-    tailCenterPositions = [];
-    for (let i = 0; i < numberOfPlanets; i++) {
-      const coordinatesOfPlanetCenterPoint = tailCenterPositionsComplete
-        .filter((item) => item.planetIdx === i)
-        .map((item) => vec3.fromValues(item.x, item.y, item.z));
-      tailCenterPositions.push(...coordinatesOfPlanetCenterPoint);
+    resetTail();
+  }
+
+  /// Copies the current center points of the planets (computed on the GPU, see
+  /// `orbit.wgsl`) over the oldest sample of the tail.
+  ///
+  /// @param{commandEncoder}: encoder of the current frame, after the planets center points are computed;
+  /// @param{numberOfPlanets}: how many planets there are;
+  /// @param{planetsCentersBuffer}: center point (x, y, z) and radius of each planet;
+  /// @param{recalculateTailBuffer}: RENDER_TAIL_INTERVAL of simulated time has passed since the last sample.
+  //
+  function sampleTail({
+    commandEncoder,
+    numberOfPlanets,
+    planetsCentersBuffer,
+    recalculateTailBuffer,
+  }: {
+    commandEncoder: GPUCommandEncoder;
+    numberOfPlanets: number;
+    planetsCentersBuffer: GPUBuffer;
+    recalculateTailBuffer: boolean;
+  }) {
+    // Samples of a different number of planets can't be told apart, and the
+    // ring buffer has room for `tailLength` samples only
+    if (
+      !tailBuffer ||
+      numberOfPlanets !== planetsPerSample ||
+      UI_SETTINGS.tailLength !== tailLength
+    ) {
+      createTailBuffer({ numberOfPlanets, length: UI_SETTINGS.tailLength });
     }
 
-    // Create/Update Position (VERTEX BUFFER)
-    tailVertexBuffer = device.createBuffer({
-      label: "tail vertices buffer",
-      size: tailCenterPositions.length * 3 * Float32Array.BYTES_PER_ELEMENT,
-      usage: GPUBufferUsage.VERTEX,
-      mappedAtCreation: true,
-    });
-    new Float32Array(tailVertexBuffer.getMappedRange()).set(
-      tailCenterPositions.map((a) => [...a]).flat() as number[],
+    // Only sample the tail center positions when:
+    // - RENDER_TAIL_INTERVAL of simulated time has passed since the last time;
+    // - OR there are no samples yet;
+    if (
+      (!recalculateTailBuffer && numberOfSamples > 0) ||
+      numberOfPlanets === 0
+    ) {
+      return;
+    }
+
+    const sampleSize = getSampleSize(numberOfPlanets);
+    commandEncoder.copyBufferToBuffer(
+      planetsCentersBuffer,
+      0,
+      tailBuffer!,
+      (numberOfSamples % capacity) * sampleSize,
+      sampleSize,
     );
-    tailVertexBuffer.unmap();
 
-    // update how many points a planet has
-    coordinatesPerPlanet++;
+    numberOfSamples++;
   }
 
+  /// @param{viewportWidth}: in pixels, the tail width is too;
+  /// @param{viewportHeight}: in pixels.
+  //
   function renderTail({
-    numberOfPlanets,
-    planetsBuffers,
-    modelMatrixUniformBufferSize,
-    allModelMatrices,
     viewProjectionMatrixUniformBuffer,
     renderPass,
-    recalculateTailBuffer,
+    viewportWidth,
+    viewportHeight,
   }: {
-    numberOfPlanets: number;
-    planetsBuffers: PlanetInfo[];
-    modelMatrixUniformBufferSize: number;
-    allModelMatrices: Float32Array;
     viewProjectionMatrixUniformBuffer: GPUBuffer;
     renderPass: GPURenderPassEncoder;
-    recalculateTailBuffer: boolean;
+    viewportWidth: number;
+    viewportHeight: number;
   }) {
-    // Only calculate the tail center positions when:
-    // the current frame is a multiple of the current RENDER_TAIL_FREQUENCY;
-    // - OR the array of tailCenterPositions is empty;
-
-    if (recalculateTailBuffer || tailCenterPositions.length === 0) {
-      updateVariableTailBuffers({
-        numberOfPlanets,
-        planetsBuffers,
-        modelMatrixUniformBufferSize,
-        allModelMatrices,
-      });
+    // A line needs two samples at least
+    const samplesInTail = Math.min(numberOfSamples, capacity);
+    if (!tailBuffer || samplesInTail < 2) {
+      return;
     }
 
-    // this depends on the view projection (camera) matrix,
-    // so it needs to be checked almost all the time because
-    // we don't know (we could, but not now) either the camera
-    // has changed or not (translated, rotated)
+    const tailUniform = new ArrayBuffer(TAIL_UNIFORM_BYTE_LENGTH);
+    new Float32Array(tailUniform, 0, 4).set([
+      viewportWidth,
+      viewportHeight,
+      UI_SETTINGS.tailWidth,
+      RENDER_TAIL_INTERVAL,
+    ]);
+    new Uint32Array(tailUniform, 4 * 4, 5).set([
+      planetsPerSample,
+      capacity,
+      samplesInTail,
+      (numberOfSamples - 1) % capacity,
+      TAIL_COLOR_MODES.indexOf(UI_SETTINGS.tailColorMode),
+    ]);
+    new Float32Array(tailUniform, 9 * 4, 1).set([TAIL_MAX_SPEED]);
+    device.queue.writeBuffer(tailUniformBuffer, 0, tailUniform);
+
+    // The view projection (camera) matrix buffer is created again whenever the
+    // camera moves, so is the bind group
     const tailBindGroup = device.createBindGroup({
-      label: "tail bind group element",
-      layout: tailPipeline.getBindGroupLayout(0),
+      label: "tail bind group",
+      layout: bindGroupLayout,
       entries: [
-        {
-          binding: 0,
-          resource: {
-            buffer: viewProjectionMatrixUniformBuffer,
-          },
-        },
+        { binding: 0, resource: { buffer: viewProjectionMatrixUniformBuffer } },
+        { binding: 1, resource: { buffer: tailUniformBuffer } },
+        { binding: 2, resource: { buffer: tailBuffer } },
       ],
     });
 
-    renderPass.setPipeline(tailPipeline);
-    renderPass.setVertexBuffer(0, tailVertexBuffer);
+    renderPass.setPipeline(pipeline);
     renderPass.setBindGroup(0, tailBindGroup);
-    renderPass.draw(
-      tailCenterPositions.slice(0, coordinatesPerPlanet * numberOfPlanets)
-        .length,
-    );
+    renderPass.draw(samplesInTail * 2, planetsPerSample); // two vertices per sample, a strip per planet
   }
 
   return {
     renderTail,
-    resetCoordinatesPerPlanet,
-    resetTailCenterPositionsComplete,
-    updateVariableTailBuffers,
+    resetTail,
+    sampleTail,
   };
 };
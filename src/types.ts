@@ -1,9 +1,69 @@
+import { vec3 } from "gl-matrix";
+
 export type PlanetInfo = {
-  vertexBuffer: GPUBuffer; // position and texCoords
-  indexBuffer: GPUBuffer;
-  indices: number[];
-  texture?: GPUTexture;
+  texture?: GPUTexture; // the mesh is the same for all the planets (see `render.ts`)
   radius: number;
+  mass: number;
+  position: vec3; // center in world space
+  velocity: vec3;
+  acceleration: vec3; // kept between steps for the velocity Verlet integrator
+  orbit: OrbitalElements; // used by the ellipse (Kepler) motion mode, relative to what it orbits
+  parent?: PlanetInfo; // orbits this planet instead of the central mass (see `hierarchy.ts`)
+  binary?: boolean; // it and its parent orbit their common barycenter
+  debrisSpawnedAt?: number; // simulated time at which it was created, if it is debris of a collision
+  sweptPath?: SweptPath; // centers at the two last collision checks
+  seed?: number; // of its rings and atmosphere, so they don't depend on where it is in the planets (see `getPlanetSeed`)
+  ring?: RingInfo; // drawn around it, if any (see `render.ts`)
+  atmosphere?: AtmosphereInfo; // shell around it, if any (see `render.ts`)
+};
+
+/// Atmosphere around a planet: a shell a bit bigger than it, which scatters the
+/// light of the lights (see `atmosphere_fragment`).
+export type AtmosphereInfo = {
+  color: [number, number, number]; // of the scattered light (0 to 1)
+  thickness: number; // in planet radii
+};
+
+/// Ring system around a planet, in the plane perpendicular to the axis it spins
+/// around (tilted by `tilt`).
+export type RingInfo = {
+  innerRadius: number; // in planet radii
+  outerRadius: number; // in planet radii
+  tilt: number; // radians, around the X axis
+  opacity: number; // of the densest bands
+  texture?: GPUTexture; // its latitude bands are the bands of the ring, otherwise they are procedural
+  bandsSeed: number; // of the procedural bands
+};
+
+/// Path of the center of a planet (world space) between two collision checks.
+/// It is assumed to be a straight line for the swept-sphere collision detection.
+export type SweptPath = {
+  from: vec3; // center at the previous check
+  to: vec3; // center at the last check
+};
+
+/// Initial state of a planet spawned at a given place, instead of on its own orbit
+export type PlanetSpawnInfo = Pick<
+  PlanetInfo,
+  "radius" | "mass" | "position" | "velocity" | "texture" | "debrisSpawnedAt"
+>;
+
+/// Classical orbital elements of a body orbiting a central mass at the origin.
+///
+/// All the angles are in radians. The reference plane is XY and the reference
+/// direction (where the longitude of the ascending node is measured from) is +X.
+export type OrbitalElements = {
+  semiMajorAxis: number;
+  eccentricity: number;
+  inclination: number; // tilt of the orbital plane in relation to XY
+  longitudeOfAscendingNode: number; // Ω
+  argumentOfPeriapsis: number; // ω
+  meanAnomaly: number; // M, advances linearly with time
+};
+
+export type StateVectors = {
+  position: vec3;
+  velocity: vec3;
 };
 
 export type PlanetCenterPointRadiusAndIndex = {
@@ -14,7 +74,32 @@ export type PlanetCenterPointRadiusAndIndex = {
   planetIdx: number;
 };
 
+/// Planet at the current collision check along with where it was at the previous one.
+export type PlanetSweptSphere = PlanetCenterPointRadiusAndIndex & {
+  previousX: number;
+  previousY: number;
+  previousZ: number;
+  velocityX: number;
+  velocityY: number;
+  velocityZ: number;
+};
+
 export type CollisionPair = {
   a: number;
   b: number;
+  time: number; // earliest time of impact: 0 at the previous collision check and 1 at the current one
+  contactPoint: vec3; // where the planets touched (world space), at `time`
+  normal: vec3; // contact normal, from `a` to `b`, at `time`
+  penetration: number; // how much the planets overlap at `time`
+  relativeSpeed: number; // |vB - vA|
+};
+
+/// Point light, as edited in the UI.
+export type PointLightSettings = {
+  enabled: boolean;
+  x: number; // position in world space
+  y: number;
+  z: number;
+  color: [number, number, number]; // RGB, 0-255
+  intensity: number;
 };
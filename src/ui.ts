@@ -1,44 +1,194 @@
 import { GUI, GUIController } from "dat.gui";
 
 import {
+  AMBIENT_LIGHT_STEP,
+  BARNES_HUT_THETA_STEP,
+  BLOOM_INTENSITY_STEP,
+  BLOOM_THRESHOLD_STEP,
+  CENTRAL_MASS_STEP,
+  COLLISION_DETECTIONS,
+  COLLISION_RESPONSES,
+  DEBRIS_COUNT_STEP,
+  DEFAULT_AMBIENT_LIGHT,
+  DEFAULT_BARNES_HUT_THETA,
+  DEFAULT_BLOOM_INTENSITY,
+  DEFAULT_BLOOM_THRESHOLD,
+  DEFAULT_CENTRAL_MASS,
+  DEFAULT_COLLISION_DETECTION,
+  DEFAULT_COLLISION_RESPONSE,
+  DEFAULT_DEBRIS_COUNT,
   DEFAULT_ECCENTRICITY,
   DEFAULT_ELLIPSE_A,
+  DEFAULT_FRAGMENTATION_SPEED,
+  DEFAULT_GRAVITY_SOLVER,
   DEFAULT_LAT_BANDS,
+  DEFAULT_LIGHTS,
   DEFAULT_LONG_BANDS,
+  DEFAULT_MOTION_MODE,
+  DEFAULT_NEW_PLANET_ECCENTRICITY,
+  DEFAULT_NEW_PLANET_SEMI_MAJOR_AXIS,
   DEFAULT_PLANETS,
+  DEFAULT_RESTITUTION,
+  DEFAULT_RING_CHANCE,
+  DEFAULT_SEED,
+  DEFAULT_SKYBOX,
+  DEFAULT_STARFIELD_ARMS,
+  DEFAULT_STARFIELD_BULGE_SIZE,
+  DEFAULT_STARFIELD_STARS,
+  DEFAULT_STARFIELD_TEMPERATURE,
+  DEFAULT_STARFIELD_TEMPERATURE_SPREAD,
+  DEFAULT_STARFIELD_WINDING,
+  DEFAULT_STAR_EMISSION,
+  DEFAULT_STAR_LUMINOSITY,
+  DEFAULT_STAR_TEMPERATURE,
+  DEFAULT_TAIL_COLOR_MODE,
+  DEFAULT_TAIL_LENGTH,
+  DEFAULT_TAIL_WIDTH,
+  DEFAULT_TIME_SCALE,
   DEFAULT_TOPOLOGY,
   ECCENTRICITY_STEP,
   ELLIPSE_A_STEP,
+  FRAGMENTATION_SPEED_STEP,
+  GRAVITY_SOLVERS,
+  LIGHT_INTENSITY_STEP,
+  LIGHT_POSITION_STEP,
+  MAX_AMBIENT_LIGHT,
+  MAX_BARNES_HUT_THETA,
+  MAX_BLOOM_INTENSITY,
+  MAX_BLOOM_THRESHOLD,
+  MAX_CENTRAL_MASS,
+  MAX_DEBRIS_COUNT,
   MAX_ECCENTRICITY,
   MAX_ELLIPSE_A,
+  MAX_FRAGMENTATION_SPEED,
   MAX_LAT_BANDS,
+  MAX_LIGHT_INTENSITY,
+  MAX_LIGHT_POSITION,
   MAX_LONG_BANDS,
+  MAX_NEW_PLANET_SEMI_MAJOR_AXIS,
   MAX_PLANETS,
+  MAX_RESTITUTION,
+  MAX_RING_CHANCE,
+  MAX_STARFIELD_ARMS,
+  MAX_STARFIELD_BULGE_SIZE,
+  MAX_STARFIELD_STARS,
+  MAX_STARFIELD_TEMPERATURE,
+  MAX_STARFIELD_TEMPERATURE_SPREAD,
+  MAX_STARFIELD_WINDING,
+  MAX_STAR_EMISSION,
+  MAX_STAR_TEMPERATURE,
+  MAX_TAIL_LENGTH,
+  MAX_TAIL_WIDTH,
+  MAX_TIME_SCALE,
+  MIN_AMBIENT_LIGHT,
+  MIN_BARNES_HUT_THETA,
+  MIN_BLOOM_INTENSITY,
+  MIN_BLOOM_THRESHOLD,
+  MIN_CENTRAL_MASS,
+  MIN_DEBRIS_COUNT,
   MIN_ECCENTRICITY,
   MIN_ELLIPSE_A,
+  MIN_FRAGMENTATION_SPEED,
   MIN_LAT_BANDS,
+  MIN_LIGHT_INTENSITY,
+  MIN_LIGHT_POSITION,
   MIN_LONG_BANDS,
+  MIN_NEW_PLANET_SEMI_MAJOR_AXIS,
   MIN_PLANETS,
+  MIN_RESTITUTION,
+  MIN_RING_CHANCE,
+  MIN_STARFIELD_ARMS,
+  MIN_STARFIELD_BULGE_SIZE,
+  MIN_STARFIELD_STARS,
+  MIN_STARFIELD_TEMPERATURE,
+  MIN_STARFIELD_TEMPERATURE_SPREAD,
+  MIN_STARFIELD_WINDING,
+  MIN_STAR_EMISSION,
+  MIN_STAR_TEMPERATURE,
+  MIN_TAIL_LENGTH,
+  MIN_TAIL_WIDTH,
+  MIN_TIME_SCALE,
+  MOTION_MODES,
+  NEW_PLANET_SEMI_MAJOR_AXIS_STEP,
   PLANETS_STEP,
+  RESTITUTION_STEP,
+  RING_CHANCE_STEP,
+  SEED_STEP,
+  SKYBOXES,
+  STARFIELD_BULGE_SIZE_STEP,
+  STARFIELD_STARS_STEP,
+  STARFIELD_TEMPERATURE_STEP,
+  STARFIELD_WINDING_STEP,
+  STAR_EMISSION_STEP,
+  STAR_TEMPERATURE_STEP,
+  TAIL_COLOR_MODES,
+  TAIL_LENGTH_STEP,
+  TAIL_WIDTH_STEP,
   TOPOLOGIES,
-  TRANSLATION_SPEED_SENSITIVITY,
-  TRANSLATION_SPEED_SENSITIVITY_MAX,
-  TRANSLATION_SPEED_SENSITIVITY_MIN,
-  TRANSLATION_SPEED_SENSITIVITY_STEP,
+  TIME_SCALE_STEP,
 } from "./constants";
 import { Observer } from "./observer";
 
 export const UI_SETTINGS = {
+  seed: DEFAULT_SEED,
   planets: DEFAULT_PLANETS,
   eccentricity: DEFAULT_ECCENTRICITY,
   ellipseA: DEFAULT_ELLIPSE_A,
   topology: DEFAULT_TOPOLOGY,
   latBands: DEFAULT_LAT_BANDS,
   longBands: DEFAULT_LONG_BANDS,
-  translationSpeed: TRANSLATION_SPEED_SENSITIVITY,
+  debugLod: false, // colour the planets by their LOD (see `lod.ts`)
+  enableCulling: true, // planets out of the view frustum are not drawn
+  cullOnGPU: true, // or on the CPU, with where the planets are on the CPU
+  visiblePlanets: "0 / 0", // drawn / total
+  timeScale: DEFAULT_TIME_SCALE,
+  paused: false,
+  simulationTime: 0,
+  motionMode: DEFAULT_MOTION_MODE,
+  centralMass: DEFAULT_CENTRAL_MASS,
+  gravitySolver: DEFAULT_GRAVITY_SOLVER,
+  barnesHutTheta: DEFAULT_BARNES_HUT_THETA,
+  computeOrbitsOnGPU: true,
+  newPlanetParent: -1, // index of the planet it orbits, -1 for the central mass
+  newPlanetBinary: false,
+  newPlanetSemiMajorAxis: DEFAULT_NEW_PLANET_SEMI_MAJOR_AXIS,
+  newPlanetEccentricity: DEFAULT_NEW_PLANET_ECCENTRICITY,
   enableArmor: false,
+  enableAtmosphere: true,
+  enableStar: true,
+  starTemperature: DEFAULT_STAR_TEMPERATURE,
+  starEmission: DEFAULT_STAR_EMISSION,
+  starLuminosity: DEFAULT_STAR_LUMINOSITY,
+  enableBloom: true,
+  bloomThreshold: DEFAULT_BLOOM_THRESHOLD,
+  bloomIntensity: DEFAULT_BLOOM_INTENSITY,
+  ambientLight: DEFAULT_AMBIENT_LIGHT,
+  lights: DEFAULT_LIGHTS.map((light) => ({
+    ...light,
+    color: [...light.color] as [number, number, number],
+  })),
+  enableRings: true,
+  ringChance: DEFAULT_RING_CHANCE,
   enableTail: false,
+  tailLength: DEFAULT_TAIL_LENGTH,
+  tailWidth: DEFAULT_TAIL_WIDTH,
+  tailColorMode: DEFAULT_TAIL_COLOR_MODE,
+  enableStarfield: true,
+  skybox: DEFAULT_SKYBOX,
+  starfieldArms: DEFAULT_STARFIELD_ARMS,
+  starfieldWinding: DEFAULT_STARFIELD_WINDING,
+  starfieldBulgeSize: DEFAULT_STARFIELD_BULGE_SIZE,
+  starfieldStars: DEFAULT_STARFIELD_STARS,
+  starfieldTemperature: DEFAULT_STARFIELD_TEMPERATURE,
+  starfieldTemperatureSpread: DEFAULT_STARFIELD_TEMPERATURE_SPREAD,
   enableCollisions: false,
+  collisionDetection: DEFAULT_COLLISION_DETECTION,
+  verifyCollisions: false,
+  logCollisions: false, // each check, what it found and what it dropped (in the console)
+  collisionResponse: DEFAULT_COLLISION_RESPONSE,
+  restitution: DEFAULT_RESTITUTION,
+  debrisCount: DEFAULT_DEBRIS_COUNT,
+  fragmentationSpeed: DEFAULT_FRAGMENTATION_SPEED,
 };
 
 interface UI {
@@ -55,6 +205,13 @@ export const SetupUI = (() => {
 
     const gui = new GUI();
 
+    // Only once the new seed has been typed in, as it generates all the planets again
+    gui
+      .add(UI_SETTINGS, "seed")
+      .step(SEED_STEP)
+      .onFinishChange((seed) => {
+        Observer().notify("seed", seed);
+      });
     const planetsGUIListener = gui
       .add(UI_SETTINGS, "planets", MIN_PLANETS, MAX_PLANETS)
       .step(PLANETS_STEP)
@@ -86,27 +243,356 @@ export const SetupUI = (() => {
       .onChange((longBands) => {
         Observer().notify("longBands", longBands);
       });
+    // Read every frame, see `lod.ts`
+    gui.add(UI_SETTINGS, "debugLod").name("colour by LOD");
+
+    // Frustum culling, read every frame (see `lod.ts`)
+    const cullingFolder = gui.addFolder("culling");
+    cullingFolder.add(UI_SETTINGS, "enableCulling").name("enabled");
+    cullingFolder.add(UI_SETTINGS, "cullOnGPU").name("on GPU");
+    cullingFolder.add(UI_SETTINGS, "visiblePlanets").name("visible").listen();
+    Observer().subscribe("visiblePlanets", {
+      id: "ui.ts",
+      callback: (visiblePlanets) => {
+        const { visible, total } = visiblePlanets as {
+          visible: number;
+          total: number;
+        };
+        UI_SETTINGS.visiblePlanets = `${visible} / ${total}`;
+      },
+    });
+
+    // Simulation clock
+    const clockFolder = gui.addFolder("clock");
+    clockFolder.open();
+    clockFolder
+      .add(UI_SETTINGS, "timeScale", MIN_TIME_SCALE, MAX_TIME_SCALE)
+      .step(TIME_SCALE_STEP)
+      .onChange((timeScale) => {
+        Observer().notify("timeScale", timeScale);
+      });
+    clockFolder.add(UI_SETTINGS, "paused").onChange((paused) => {
+      Observer().notify("paused", paused);
+    });
+    clockFolder
+      .add(
+        {
+          step: () => {
+            Observer().notify("stepSimulation", true);
+          },
+        },
+        "step",
+      )
+      .name("step one tick");
+    clockFolder.add(UI_SETTINGS, "simulationTime").listen();
+    Observer().subscribe("simulationTime", {
+      id: "ui.ts",
+      callback: (simulationTime) => {
+        UI_SETTINGS.simulationTime = Number(
+          (simulationTime as number).toFixed(2),
+        );
+      },
+    });
+
+    gui.add(UI_SETTINGS, "motionMode", MOTION_MODES).onChange((motionMode) => {
+      Observer().notify("motionMode", motionMode);
+    });
+    gui
+      .add(UI_SETTINGS, "centralMass", MIN_CENTRAL_MASS, MAX_CENTRAL_MASS)
+      .step(CENTRAL_MASS_STEP)
+      .onChange((centralMass) => {
+        Observer().notify("centralMass", centralMass);
+      });
+    gui
+      .add(UI_SETTINGS, "gravitySolver", GRAVITY_SOLVERS)
+      .onChange((gravitySolver) => {
+        Observer().notify("gravitySolver", gravitySolver);
+      });
+    gui
+      .add(
+        UI_SETTINGS,
+        "barnesHutTheta",
+        MIN_BARNES_HUT_THETA,
+        MAX_BARNES_HUT_THETA,
+      )
+      .step(BARNES_HUT_THETA_STEP)
+      .onChange((barnesHutTheta) => {
+        Observer().notify("barnesHutTheta", barnesHutTheta);
+      });
+    gui
+      .add(
+        {
+          compare: () => {
+            Observer().notify("compareGravitySolvers", true);
+          },
+        },
+        "compare",
+      )
+      .name("compare gravity solvers");
     gui
+      .add(UI_SETTINGS, "computeOrbitsOnGPU")
+      .onChange((computeOrbitsOnGPU) => {
+        Observer().notify("computeOrbitsOnGPU", computeOrbitsOnGPU);
+      });
+
+    // New planet (moons, binaries, ...), see `hierarchy.ts`
+    const newPlanetFolder = gui.addFolder("new planet");
+    newPlanetFolder
+      .add(UI_SETTINGS, "newPlanetParent", -1, MAX_PLANETS - 1)
+      .step(PLANETS_STEP)
+      .name("parent");
+    newPlanetFolder.add(UI_SETTINGS, "newPlanetBinary").name("binary");
+    newPlanetFolder
+      .add(
+        UI_SETTINGS,
+        "newPlanetSemiMajorAxis",
+        MIN_NEW_PLANET_SEMI_MAJOR_AXIS,
+        MAX_NEW_PLANET_SEMI_MAJOR_AXIS,
+      )
+      .step(NEW_PLANET_SEMI_MAJOR_AXIS_STEP)
+      .name("semiMajorAxis");
+    newPlanetFolder
       .add(
         UI_SETTINGS,
-        "translationSpeed",
-        TRANSLATION_SPEED_SENSITIVITY_MIN,
-        TRANSLATION_SPEED_SENSITIVITY_MAX,
+        "newPlanetEccentricity",
+        MIN_ECCENTRICITY,
+        MAX_ECCENTRICITY,
+      )
+      .step(ECCENTRICITY_STEP)
+      .name("eccentricity");
+    newPlanetFolder
+      .add(
+        {
+          add: () => {
+            Observer().notify("addPlanet", true);
+          },
+        },
+        "add",
       )
-      .step(TRANSLATION_SPEED_SENSITIVITY_STEP)
-      .onChange((translationSpeed) => {
-        Observer().notify("translationSpeed", translationSpeed);
+      .name("add planet");
+
+    // Rings of the planets, see `createRing` and `renderRings`
+    const ringsFolder = gui.addFolder("rings");
+    ringsFolder.add(UI_SETTINGS, "enableRings").name("enabled");
+    ringsFolder
+      .add(UI_SETTINGS, "ringChance", MIN_RING_CHANCE, MAX_RING_CHANCE)
+      .step(RING_CHANCE_STEP)
+      .name("chance")
+      .onFinishChange((ringChance) => {
+        Observer().notify("rings", ringChance);
       });
 
-    gui.add(UI_SETTINGS, "enableTail").onChange((enableTail) => {
-      Observer().notify("enableTail", enableTail);
+    // Tails, read every frame (see `tail.ts`)
+    const tailFolder = gui.addFolder("tail");
+    tailFolder
+      .add(UI_SETTINGS, "enableTail")
+      .name("enabled")
+      .onChange((enableTail) => {
+        Observer().notify("enableTail", enableTail);
+      });
+    tailFolder
+      .add(UI_SETTINGS, "tailLength", MIN_TAIL_LENGTH, MAX_TAIL_LENGTH)
+      .step(TAIL_LENGTH_STEP)
+      .name("length (samples)");
+    tailFolder
+      .add(UI_SETTINGS, "tailWidth", MIN_TAIL_WIDTH, MAX_TAIL_WIDTH)
+      .step(TAIL_WIDTH_STEP)
+      .name("width (px)");
+    tailFolder
+      .add(UI_SETTINGS, "tailColorMode", TAIL_COLOR_MODES)
+      .name("colour");
+
+    // Star at the center of the orbits, read every frame (see `star.ts`)
+    const starFolder = gui.addFolder("star");
+    starFolder.add(UI_SETTINGS, "enableStar").name("enabled");
+    starFolder
+      .add(
+        UI_SETTINGS,
+        "starTemperature",
+        MIN_STAR_TEMPERATURE,
+        MAX_STAR_TEMPERATURE,
+      )
+      .step(STAR_TEMPERATURE_STEP)
+      .name("temperature");
+    starFolder
+      .add(UI_SETTINGS, "starEmission", MIN_STAR_EMISSION, MAX_STAR_EMISSION)
+      .step(STAR_EMISSION_STEP)
+      .name("emission");
+    starFolder
+      .add(
+        UI_SETTINGS,
+        "starLuminosity",
+        MIN_LIGHT_INTENSITY,
+        MAX_LIGHT_INTENSITY,
+      )
+      .step(LIGHT_INTENSITY_STEP)
+      .name("luminosity");
+
+    // HDR bloom post-process, read every frame (see `bloom.ts`)
+    const bloomFolder = gui.addFolder("bloom");
+    bloomFolder.add(UI_SETTINGS, "enableBloom").name("enabled");
+    bloomFolder
+      .add(
+        UI_SETTINGS,
+        "bloomThreshold",
+        MIN_BLOOM_THRESHOLD,
+        MAX_BLOOM_THRESHOLD,
+      )
+      .step(BLOOM_THRESHOLD_STEP)
+      .name("threshold");
+    bloomFolder
+      .add(
+        UI_SETTINGS,
+        "bloomIntensity",
+        MIN_BLOOM_INTENSITY,
+        MAX_BLOOM_INTENSITY,
+      )
+      .step(BLOOM_INTENSITY_STEP)
+      .name("intensity");
+
+    // Lighting of the planets, read every frame (see `planet.wgsl`)
+    const lightingFolder = gui.addFolder("lighting");
+    lightingFolder
+      .add(UI_SETTINGS, "ambientLight", MIN_AMBIENT_LIGHT, MAX_AMBIENT_LIGHT)
+      .step(AMBIENT_LIGHT_STEP)
+      .name("ambient");
+    UI_SETTINGS.lights.forEach((light, i) => {
+      const lightFolder = lightingFolder.addFolder(`light ${i}`);
+      lightFolder.add(light, "enabled");
+      (["x", "y", "z"] as const).forEach((axis) => {
+        lightFolder
+          .add(light, axis, MIN_LIGHT_POSITION, MAX_LIGHT_POSITION)
+          .step(LIGHT_POSITION_STEP);
+      });
+      lightFolder.addColor(light, "color");
+      lightFolder
+        .add(light, "intensity", MIN_LIGHT_INTENSITY, MAX_LIGHT_INTENSITY)
+        .step(LIGHT_INTENSITY_STEP);
+    });
+
+    // Environment around the scene, see `skybox.ts`
+    gui.add(UI_SETTINGS, "skybox", SKYBOXES).onChange((skybox) => {
+      Observer().notify("skybox", skybox);
     });
+
+    // Spiral galaxy in the background, see `scattered-points.ts`
+    const starfieldFolder = gui.addFolder("starfield");
+    starfieldFolder.add(UI_SETTINGS, "enableStarfield").name("enabled");
+    // Generating the stars is not cheap: only once the value is chosen
+    starfieldFolder
+      .add(UI_SETTINGS, "starfieldArms", MIN_STARFIELD_ARMS, MAX_STARFIELD_ARMS)
+      .step(1)
+      .name("arms")
+      .onFinishChange(() => {
+        Observer().notify("starfield", true);
+      });
+    starfieldFolder
+      .add(
+        UI_SETTINGS,
+        "starfieldWinding",
+        MIN_STARFIELD_WINDING,
+        MAX_STARFIELD_WINDING,
+      )
+      .step(STARFIELD_WINDING_STEP)
+      .name("winding")
+      .onFinishChange(() => {
+        Observer().notify("starfield", true);
+      });
+    starfieldFolder
+      .add(
+        UI_SETTINGS,
+        "starfieldBulgeSize",
+        MIN_STARFIELD_BULGE_SIZE,
+        MAX_STARFIELD_BULGE_SIZE,
+      )
+      .step(STARFIELD_BULGE_SIZE_STEP)
+      .name("bulgeSize")
+      .onFinishChange(() => {
+        Observer().notify("starfield", true);
+      });
+    starfieldFolder
+      .add(
+        UI_SETTINGS,
+        "starfieldStars",
+        MIN_STARFIELD_STARS,
+        MAX_STARFIELD_STARS,
+      )
+      .step(STARFIELD_STARS_STEP)
+      .name("stars")
+      .onFinishChange(() => {
+        Observer().notify("starfield", true);
+      });
+    starfieldFolder
+      .add(
+        UI_SETTINGS,
+        "starfieldTemperature",
+        MIN_STARFIELD_TEMPERATURE,
+        MAX_STARFIELD_TEMPERATURE,
+      )
+      .step(STARFIELD_TEMPERATURE_STEP)
+      .name("temperature")
+      .onFinishChange(() => {
+        Observer().notify("starfield", true);
+      });
+    starfieldFolder
+      .add(
+        UI_SETTINGS,
+        "starfieldTemperatureSpread",
+        MIN_STARFIELD_TEMPERATURE_SPREAD,
+        MAX_STARFIELD_TEMPERATURE_SPREAD,
+      )
+      .step(STARFIELD_TEMPERATURE_STEP)
+      .name("temperatureSpread")
+      .onFinishChange(() => {
+        Observer().notify("starfield", true);
+      });
+
     gui.add(UI_SETTINGS, "enableArmor").onChange((enableArmor) => {
       Observer().notify("enableArmor", enableArmor);
     });
+    gui.add(UI_SETTINGS, "enableAtmosphere").onChange((enableAtmosphere) => {
+      Observer().notify("enableAtmosphere", enableAtmosphere);
+    });
     gui.add(UI_SETTINGS, "enableCollisions").onChange((enableCollisions) => {
       Observer().notify("enableCollisions", enableCollisions);
     });
+    gui
+      .add(UI_SETTINGS, "collisionDetection", COLLISION_DETECTIONS)
+      .onChange((collisionDetection) => {
+        Observer().notify("collisionDetection", collisionDetection);
+      });
+    gui.add(UI_SETTINGS, "verifyCollisions").onChange((verifyCollisions) => {
+      Observer().notify("verifyCollisions", verifyCollisions);
+    });
+    gui.add(UI_SETTINGS, "logCollisions");
+    gui
+      .add(UI_SETTINGS, "collisionResponse", COLLISION_RESPONSES)
+      .onChange((collisionResponse) => {
+        Observer().notify("collisionResponse", collisionResponse);
+      });
+    gui
+      .add(UI_SETTINGS, "restitution", MIN_RESTITUTION, MAX_RESTITUTION)
+      .step(RESTITUTION_STEP)
+      .onChange((restitution) => {
+        Observer().notify("restitution", restitution);
+      });
+    gui
+      .add(UI_SETTINGS, "debrisCount", MIN_DEBRIS_COUNT, MAX_DEBRIS_COUNT)
+      .step(DEBRIS_COUNT_STEP)
+      .onChange((debrisCount) => {
+        Observer().notify("debrisCount", debrisCount);
+      });
+    gui
+      .add(
+        UI_SETTINGS,
+        "fragmentationSpeed",
+        MIN_FRAGMENTATION_SPEED,
+        MAX_FRAGMENTATION_SPEED,
+      )
+      .step(FRAGMENTATION_SPEED_STEP)
+      .onChange((fragmentationSpeed) => {
+        Observer().notify("fragmentationSpeed", fragmentationSpeed);
+      });
 
     singleton = {
       planetsGUIListener,
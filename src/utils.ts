@@ -1,11 +1,5 @@
-import { mat4, vec3, vec4 } from "gl-matrix";
-import {
-  DEGREE_TO_RAD,
-  FAR_FRUSTUM,
-  MAT4X4_BYTE_LENGTH,
-  NEAR_FRUSTUM,
-} from "./constants";
-import { PlanetCenterPointRadiusAndIndex, PlanetInfo } from "./types";
+import { mat4, vec3 } from "gl-matrix";
+import { FAR_FRUSTUM, FIELD_OF_VIEW, NEAR_FRUSTUM } from "./constants";
 
 /// Yoinked from https://toji.dev/webgpu-best-practices/img-textures
 const webGPUTextureFromImageBitmapOrCanvas = (
@@ -57,6 +51,9 @@ export const webGPUTextureFromImageUrl = async (
 /// the smoother the sphere, but also demands more computationally.
 /// @param{longBands}: the number of longitude bands (vertical slices) that the sphere will have. The greater this value,
 /// the smoother the sphere, but also demands more computationally.
+///
+/// Returns the vertices, each one as position (x, y, z), texCoords (u, v) and normal (x, y, z), and the indices
+/// of the triangles.
 //
 export const createSphereMesh = ({
   radius,
@@ -67,10 +64,9 @@ export const createSphereMesh = ({
   latBands: number;
   longBands: number;
 }) => {
-  // TODO: once we are using normals, we can also add it to the same buffer of pos | texCoords | normals
-  const positionAndTexCoords = [];
+  // Packed in the same buffer: position | texCoords | normal
+  const vertices = [];
   const indices = [];
-  const normals = [];
 
   for (let lat = 0; lat <= latBands; ++lat) {
     const theta = (lat * Math.PI) / latBands; // Latitude angle
@@ -89,8 +85,8 @@ export const createSphereMesh = ({
       const u = lon / longBands;
       const v = lat / latBands;
 
-      positionAndTexCoords.push(radius * x, radius * y, radius * z, u, v);
-      normals.push(x, y, z);
+      // The normal of a point on a sphere (centered at the origin) is its direction
+      vertices.push(radius * x, radius * y, radius * z, u, v, x, y, z);
     }
   }
 
@@ -125,54 +121,65 @@ export const createSphereMesh = ({
     }
   }
 
-  return { positionAndTexCoords, indices, normals };
+  return { vertices, indices };
 };
 
+/// Annulus (flat ring) generation
 ///
-///  Ellipse equation:
-//
-//   (x-h)^2/a^2 + (y-k)^2/b^2 = 1
-//
-//   c(h, k)
-//
-//   when c(0, 0), meaning that the ellipse is centered:
-//
-//   x^2/a^2 + y^2/b^2 = 1
-//
-//   Radial distance, depends of the angle:
-//
-//   R = \frac{1}{\sqrt{ \frac{\cos^2\theta}{a^2} + \frac{\sin^2\theta}{b^2} } }
-//
-//   cos²x = (cos x)² ≠ cos x²
-//
-//   Eccentricity:
-//
-//   e = Math.sqrt(Math.pow(a, 2) - Math.pow(b, 2)) / a
-//   => Math.pow(a * e, 2) =  Math.pow(a, 2) - Math.pow(b, 2)
-//   => -b2 = (ae)2 - a2
-//   => b2 = a2 - (ae)2
-//
+/// It lies in the XY plane, centered at the origin, facing +Z.
+///
+/// @param{innerRadius}: the radius of the hole in the middle;
+/// @param{outerRadius}: the radius of the outer edge;
+/// @param{segments}: the number of slices around it. The greater this value, the rounder the ring.
+///
+/// Returns the vertices, with the same layout as `createSphereMesh`: position (x, y, z), texCoords (u, v) and
+/// normal (x, y, z), where u goes from the inner edge (0) to the outer one (1) and v around the ring, and the
+/// indices of the triangles.
 //
-export const calculateXYZEllipseCoordinates = ({
-  degreeAngle,
-  ellipse_a: a,
-  ellipse_eccentricity: eccentricity,
+export const createAnnulusMesh = ({
+  innerRadius,
+  outerRadius,
+  segments,
 }: {
-  degreeAngle: number;
-  ellipse_a: number;
-  ellipse_eccentricity: number;
+  innerRadius: number;
+  outerRadius: number;
+  segments: number;
 }) => {
-  const a2 = Math.pow(a, 2);
-  const b2 = a2 - Math.pow(a * eccentricity, 2);
-  const b = Math.sqrt(b2);
+  const vertices: number[] = [];
+  const indices: number[] = [];
+
+  for (let segment = 0; segment <= segments; ++segment) {
+    const phi = (segment * 2 * Math.PI) / segments;
+    const cosPhi = Math.cos(phi);
+    const sinPhi = Math.sin(phi);
+    const v = segment / segments;
+
+    // Inner and then outer vertex of the slice
+    [innerRadius, outerRadius].forEach((radius, u) => {
+      vertices.push(radius * cosPhi, radius * sinPhi, 0, u, v, 0, 0, 1);
+    });
+  }
 
-  let theta = degreeAngle * DEGREE_TO_RAD;
+  /*
+   * Vertices:
+      inner + 2   outer + 2
+        *-----------*
+        |         / |
+        |       /   |
+        |     /     |
+        *-----------*
+      inner       outer
+   *
+   * */
+  for (let segment = 0; segment < segments; ++segment) {
+    const inner = segment * 2;
+    const outer = inner + 1;
 
-  const x = a * Math.cos(theta);
-  const y = b * Math.sin(theta);
-  const z = 1;
+    indices.push(inner, outer, inner + 2);
+    indices.push(inner + 2, outer, outer + 2);
+  }
 
-  return { x, y, z };
+  return { vertices, indices };
 };
 
 type ModelInputParams = {
@@ -195,9 +202,9 @@ type ViewProjectionInputParams = {
 type ModelViewProjectionInputParams = ModelInputParams &
   ViewProjectionInputParams;
 
-export const getViewProjectionMatrix = (
-  input: ViewProjectionInputParams,
-): Float32Array => {
+export const getViewMatrix = (
+  input: Omit<ViewProjectionInputParams, "perspectiveAspectRatio">,
+): mat4 => {
   const {
     cameraRotationX = 0,
     cameraRotationY = 0,
@@ -205,10 +212,8 @@ export const getViewProjectionMatrix = (
     cameraEye = [0, 0, 4],
     cameraLookupCenter = [0, 0, 0],
     cameraUp = [0, 1, 0],
-    perspectiveAspectRatio,
   } = input;
 
-  // View
   const viewMatrix = mat4.lookAt(
     mat4.create(),
     cameraEye,
@@ -219,10 +224,21 @@ export const getViewProjectionMatrix = (
   mat4.rotateY(viewMatrix, viewMatrix, cameraRotationY);
   mat4.rotateZ(viewMatrix, viewMatrix, cameraRotationZ);
 
+  return viewMatrix;
+};
+
+export const getViewProjectionMatrix = (
+  input: ViewProjectionInputParams,
+): Float32Array => {
+  const { perspectiveAspectRatio } = input;
+
+  // View
+  const viewMatrix = getViewMatrix(input);
+
   // Projection
   const projectionMatrix = mat4.perspective(
     mat4.create(),
-    Math.PI / 4,
+    FIELD_OF_VIEW,
     perspectiveAspectRatio,
     NEAR_FRUSTUM,
     FAR_FRUSTUM,
@@ -237,6 +253,42 @@ export const getViewProjectionMatrix = (
   return new Float32Array(viewProjectionMatrix);
 };
 
+/// Inverse of the view-projection matrix without the translation of the view
+/// matrix: it takes a point on the screen (clip space) to the direction it is
+/// seen in, from the camera. The camera rotation changes it, but not panning
+/// nor zooming, e.g. for the skybox.
+//
+export const getViewDirectionProjectionInverseMatrix = (
+  input: ViewProjectionInputParams,
+): Float32Array => {
+  const { perspectiveAspectRatio } = input;
+
+  const viewDirectionMatrix = getViewMatrix(input);
+  viewDirectionMatrix[12] = 0;
+  viewDirectionMatrix[13] = 0;
+  viewDirectionMatrix[14] = 0;
+
+  const projectionMatrix = mat4.perspective(
+    mat4.create(),
+    FIELD_OF_VIEW,
+    perspectiveAspectRatio,
+    NEAR_FRUSTUM,
+    FAR_FRUSTUM,
+  );
+
+  const viewDirectionProjectionMatrix = mat4.multiply(
+    mat4.create(),
+    projectionMatrix,
+    viewDirectionMatrix,
+  );
+
+  // Never singular: the projection and a rotation are both invertible
+  const inverseMatrix = mat4.create();
+  mat4.invert(inverseMatrix, viewDirectionProjectionMatrix);
+
+  return new Float32Array(inverseMatrix);
+};
+
 export const getModelMatrix = (input: ModelInputParams): Float32Array => {
   const {
     modelRotationX = 0,
@@ -319,6 +371,35 @@ export const getModelViewProjectionMatrix = (
   return new Float32Array(mvpMatrix);
 };
 
+/// Planes of the view frustum (left, right, bottom, top, near, far), each one
+/// as (a, b, c, d) with the normal (a, b, c) pointing inside and of length 1,
+/// so `a * x + b * y + c * z + d` is the distance of the point (x, y, z) to it.
+///
+/// The depth of WebGPU goes from 0 to 1, so the near plane is where z = 0 in
+/// clip space.
+//
+export const getFrustumPlanes = (viewProjectionMatrix: mat4): Float32Array => {
+  const m = viewProjectionMatrix;
+  const row = (i: number) => [m[i], m[4 + i], m[8 + i], m[12 + i]];
+  const [row0, row1, row2, row3] = [row(0), row(1), row(2), row(3)];
+
+  const planes = [
+    row3.map((value, i) => value + row0[i]), // left
+    row3.map((value, i) => value - row0[i]), // right
+    row3.map((value, i) => value + row1[i]), // bottom
+    row3.map((value, i) => value - row1[i]), // top
+    row2, // near
+    row3.map((value, i) => value - row2[i]), // far
+  ];
+
+  return new Float32Array(
+    planes.flatMap(([a, b, c, d]) => {
+      const length = Math.hypot(a, b, c);
+      return [a / length, b / length, c / length, d / length];
+    }),
+  );
+};
+
 export const roundUp = (size: number, alignment: number) =>
   Math.ceil(size / alignment) * alignment;
 
@@ -334,46 +415,54 @@ export const roundUp = (size: number, alignment: number) =>
 // };
 //
 
-const PLANET_INITIAL_CENTER: vec4 = [0, 0, 0, 1];
-export const getPlanetsCenterPointAndRadius = ({
-  numberOfPlanets,
-  planetsBuffers,
-  modelMatrixUniformBufferSize,
-  allModelMatrices,
+/// Approximate colour of a black body at the given temperature (Kelvin), each
+/// channel in [0, 1]. Fitted to the blackbody curve by Tanner Helland, good for
+/// 1000K to 40000K.
+export const temperatureToColor = (temperature: number): vec3 => {
+  const t = Math.min(Math.max(temperature, 1000), 40000) / 100;
+  const clamp = (value: number) => Math.min(Math.max(value / 255, 0), 1);
+
+  const red = t <= 66 ? 255 : 329.698727446 * Math.pow(t - 60, -0.1332047592);
+  const green =
+    t <= 66
+      ? 99.4708025861 * Math.log(t) - 161.1195681661
+      : 288.1221695283 * Math.pow(t - 60, -0.0755148492);
+  const blue =
+    t >= 66
+      ? 255
+      : t <= 19
+        ? 0
+        : 138.5177312231 * Math.log(t - 10) - 305.0447927307;
+
+  return vec3.fromValues(clamp(red), clamp(green), clamp(blue));
+};
+
+/// Capacity of GPU buffers that only grow.
+///
+/// If `capacity` (in elements) is not enough for `count`, the `buffers` are
+/// destroyed and the new capacity is returned, for the caller to create them
+/// again. It is rounded up to a power of two, so adding a few elements doesn't
+/// recreate them every time. Otherwise, it returns null and they are kept.
+///
+/// @param{count}: how many elements must fit;
+/// @param{capacity}: how many fit in the current buffers (0 if there are none);
+/// @param{buffers}: the current buffers.
+//
+export const growCapacity = ({
+  count,
+  capacity,
+  buffers,
 }: {
-  numberOfPlanets: number;
-  planetsBuffers: PlanetInfo[];
-  modelMatrixUniformBufferSize: number;
-  allModelMatrices: Float32Array;
-}): Array<PlanetCenterPointRadiusAndIndex> => {
-  const planetsCenterPointAndRadius: Array<PlanetCenterPointRadiusAndIndex> =
-    [];
-
-  // Get all current center point (in world space, after model matrix is applied) of each planet, along with its radius
-  for (let i = 0; i < numberOfPlanets; i++) {
-    const dynamicOffset = i * modelMatrixUniformBufferSize;
-
-    const { radius } = planetsBuffers[i];
-
-    let modelMatrix = allModelMatrices.subarray(
-      dynamicOffset / 4,
-      dynamicOffset / 4 + MAT4X4_BYTE_LENGTH,
-    );
-
-    let planetCenterPositionOnScreen: vec4 = vec4.transformMat4(
-      vec4.create(),
-      PLANET_INITIAL_CENTER,
-      modelMatrix,
-    );
-
-    planetsCenterPointAndRadius.push({
-      x: planetCenterPositionOnScreen[0],
-      y: planetCenterPositionOnScreen[1],
-      z: planetCenterPositionOnScreen[2],
-      radius,
-      planetIdx: i,
-    });
+  count: number;
+  capacity: number;
+  buffers: (GPUBuffer | null | undefined)[];
+}): number | null => {
+  if (count <= capacity) {
+    return null;
   }
 
-  return planetsCenterPointAndRadius;
+  // INFO: a buffer destroyed after the frames using it are submitted is only released once they are done
+  buffers.forEach((buffer) => buffer?.destroy());
+
+  return Math.pow(2, Math.ceil(Math.log2(count)));
 };